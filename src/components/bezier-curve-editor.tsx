@@ -0,0 +1,139 @@
+import { useLayoutEffect, useRef } from "react";
+
+import { Input } from "@/components/ui/input";
+import type { BezierPoints } from "@/lib/animation-runtime";
+
+const SIZE = 160;
+const PAD = 12;
+// Vertical range shown in the widget; y may overshoot 0..1 for anticipation/overshoot curves.
+const Y_MIN = -0.5;
+const Y_MAX = 1.5;
+
+const toSvgX = (x: number) => PAD + x * (SIZE - PAD * 2);
+const toSvgY = (y: number) => PAD + ((Y_MAX - y) / (Y_MAX - Y_MIN)) * (SIZE - PAD * 2);
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export function formatBezier(points: BezierPoints) {
+  return `cubic-bezier(${points.map((p) => round2(p)).join(", ")})`;
+}
+
+// Small After Effects–style curve widget: drag the two handles, or type the four
+// control-point values. `onChange` fires live while dragging, `onCommit` once on release.
+export function BezierCurveEditor({
+  value,
+  onChange,
+  onCommit,
+}: {
+  value: BezierPoints;
+  onChange: (value: BezierPoints) => void;
+  onCommit?: (value: BezierPoints) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const latestRef = useRef(value);
+  const typedRef = useRef(false);
+  useLayoutEffect(() => {
+    latestRef.current = value;
+  });
+
+  const startHandleDrag = (event: React.PointerEvent<SVGCircleElement>, handle: 0 | 1) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const svg = svgRef.current;
+    if (!svg) return;
+    const rect = svg.getBoundingClientRect();
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const px = ((moveEvent.clientX - rect.left) / rect.width) * SIZE;
+      const py = ((moveEvent.clientY - rect.top) / rect.height) * SIZE;
+      const x = Math.min(Math.max((px - PAD) / (SIZE - PAD * 2), 0), 1);
+      const y = Math.min(
+        Math.max(Y_MAX - ((py - PAD) / (SIZE - PAD * 2)) * (Y_MAX - Y_MIN), Y_MIN),
+        Y_MAX
+      );
+      const next = [...latestRef.current] as BezierPoints;
+      next[handle * 2] = round2(x);
+      next[handle * 2 + 1] = round2(y);
+      latestRef.current = next;
+      onChange(next);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      onCommit?.(latestRef.current);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const [x1, y1, x2, y2] = value;
+  const start = { x: toSvgX(0), y: toSvgY(0) };
+  const end = { x: toSvgX(1), y: toSvgY(1) };
+  const p1 = { x: toSvgX(x1), y: toSvgY(y1) };
+  const p2 = { x: toSvgX(x2), y: toSvgY(y2) };
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full touch-none rounded border border-border bg-background"
+      >
+        <rect
+          x={start.x}
+          y={end.y}
+          width={end.x - start.x}
+          height={start.y - end.y}
+          className="fill-muted/40 stroke-border"
+          strokeDasharray="2 2"
+        />
+        <line x1={start.x} y1={start.y} x2={p1.x} y2={p1.y} className="stroke-muted-foreground" />
+        <line x1={end.x} y1={end.y} x2={p2.x} y2={p2.y} className="stroke-muted-foreground" />
+        <path
+          d={`M ${start.x} ${start.y} C ${p1.x} ${p1.y} ${p2.x} ${p2.y} ${end.x} ${end.y}`}
+          className="fill-none stroke-primary"
+          strokeWidth={2}
+        />
+        {[p1, p2].map((p, index) => (
+          <circle
+            key={index}
+            cx={p.x}
+            cy={p.y}
+            r={5}
+            className="cursor-grab fill-amber-400 stroke-background active:cursor-grabbing"
+            onPointerDown={(event) => startHandleDrag(event, index as 0 | 1)}
+          />
+        ))}
+      </svg>
+      <div className="grid grid-cols-4 gap-1">
+        {value.map((component, index) => (
+          <Input
+            key={index}
+            type="number"
+            step="0.01"
+            min={index % 2 === 0 ? 0 : undefined}
+            max={index % 2 === 0 ? 1 : undefined}
+            value={component}
+            onChange={(event) => {
+              const parsed = Number(event.target.value);
+              if (Number.isNaN(parsed)) return;
+              const next = [...value] as BezierPoints;
+              next[index] = index % 2 === 0 ? Math.min(Math.max(parsed, 0), 1) : parsed;
+              typedRef.current = true;
+              onChange(next);
+            }}
+            onBlur={() => {
+              if (!typedRef.current) return;
+              typedRef.current = false;
+              onCommit?.(latestRef.current);
+            }}
+            className="h-6 px-1 text-[11px]"
+          />
+        ))}
+      </div>
+      <p className="text-center font-mono text-[10px] text-muted-foreground">{formatBezier(value)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Slider } from "@/components/ui/slider";
+import type { EasingParams, EasingType } from "@/lib/animation-runtime";
+
+const SIZE = 160;
+const PAD = 12;
+const SAMPLES = 96;
+
+type ParamField = { key: keyof EasingParams; label: string; min: number; max: number; step: number };
+
+const PARAM_FIELDS: Partial<Record<EasingType, ParamField[]>> = {
+  spring: [
+    { key: "stiffness", label: "Stiffness", min: 10, max: 400, step: 1 },
+    { key: "damping", label: "Damping", min: 1, max: 60, step: 0.5 },
+  ],
+  bounce: [
+    { key: "bounces", label: "Bounces", min: 0, max: 8, step: 1 },
+    { key: "restitution", label: "Bounciness", min: 0.1, max: 0.9, step: 0.05 },
+  ],
+  elastic: [
+    { key: "amplitude", label: "Amplitude", min: 1, max: 3, step: 0.05 },
+    { key: "period", label: "Period", min: 0.1, max: 1, step: 0.01 },
+  ],
+  back: [{ key: "overshoot", label: "Overshoot", min: 0, max: 5, step: 0.05 }],
+};
+
+export function hasEasingParams(easing: EasingType) {
+  return Boolean(PARAM_FIELDS[easing]);
+}
+
+// Curve preview plus sliders for the physics-style easings. `sample` evaluates the
+// easing with the given params (the shared runtime), so the preview matches playback.
+// `onChange` fires live while a slider moves, `onCommit` once on release.
+export function EasingParamsEditor({
+  easing,
+  value,
+  defaults,
+  sample,
+  onChange,
+  onCommit,
+}: {
+  easing: EasingType;
+  value: EasingParams;
+  defaults: Required<EasingParams>;
+  sample: (t: number, params: EasingParams) => number;
+  onChange: (value: EasingParams) => void;
+  onCommit?: (value: EasingParams) => void;
+}) {
+  const fields = PARAM_FIELDS[easing] ?? [];
+
+  const points = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const t = i / SAMPLES;
+    return { t, y: sample(t, value) };
+  });
+  // Fit the vertical range to the curve so overshoot and bounce stay visible.
+  const yMin = Math.min(0, ...points.map((p) => p.y)) - 0.1;
+  const yMax = Math.max(1, ...points.map((p) => p.y)) + 0.1;
+  const toSvgX = (t: number) => PAD + t * (SIZE - PAD * 2);
+  const toSvgY = (y: number) => PAD + ((yMax - y) / (yMax - yMin)) * (SIZE - PAD * 2);
+  const d = points
+    .map((p, i) => `${i === 0 ? "M" : "L"} ${toSvgX(p.t).toFixed(1)} ${toSvgY(p.y).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full rounded border border-border bg-background">
+        <rect
+          x={toSvgX(0)}
+          y={toSvgY(1)}
+          width={toSvgX(1) - toSvgX(0)}
+          height={toSvgY(0) - toSvgY(1)}
+          className="fill-muted/40 stroke-border"
+          strokeDasharray="2 2"
+        />
+        <path d={d} className="fill-none stroke-primary" strokeWidth={2} />
+      </svg>
+      {fields.map((field) => {
+        const current = value[field.key] ?? defaults[field.key];
+        return (
+          <div key={field.key} className="space-y-1">
+            <div className="flex items-center justify-between text-[11px]">
+              <span className="text-muted-foreground">{field.label}</span>
+              <span className="font-mono">{Number(current.toFixed(2))}</span>
+            </div>
+            <Slider
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={[current]}
+              onValueChange={(arr) => onChange({ ...value, [field.key]: arr[0] ?? current })}
+              onValueCommit={(arr) => onCommit?.({ ...value, [field.key]: arr[0] ?? current })}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
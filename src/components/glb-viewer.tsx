@@ -6,7 +6,9 @@ import { Bounds, Center, OrbitControls, PerspectiveCamera, TransformControls } f
 import { EffectComposer, Outline } from "@react-three/postprocessing";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
 import {
+  Bone,
   Box,
   Camera,
   Check,
@@ -14,15 +16,22 @@ import {
   ChevronLeft,
   ChevronDown,
   ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  ChartSpline,
   Circle,
   Clipboard,
   Code2,
   Download,
   Diamond,
+  Film,
+  Flag,
   FolderOpen,
   Globe2,
   History,
+  Link2,
   Lightbulb,
+  Magnet,
   Pause,
   Play,
   Plus,
@@ -30,13 +39,18 @@ import {
   Redo2,
   Save,
   Settings2,
+  Smartphone,
+  Timer,
+  Spline,
   Trash2,
   Undo2,
   Upload,
+  Waves,
   X,
   ZoomIn,
   ZoomOut,
   Move,
+  Pin,
 } from "lucide-react";
 import * as THREE from "three";
 import type {
@@ -50,6 +64,49 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
+import { BezierCurveEditor, formatBezier } from "@/components/bezier-curve-editor";
+import { EasingParamsEditor, hasEasingParams } from "@/components/easing-params-editor";
+import { TrackGraphEditor, type GraphTrack, type TangentPatch } from "@/components/track-graph-editor";
+import {
+  bakeTimelineClip,
+  isBakeableProperty,
+  type BakeMode,
+  type BakeTrack,
+  type PointerBakeInput,
+} from "@/lib/animation-bake";
+import {
+  generateAnimationHtml,
+  type ExportConfig,
+  type ExportScene,
+  type ExportSceneVariant,
+} from "@/lib/animation-html";
+import { createAnimationPointerPlugin, isPointerProperty } from "@/lib/animation-pointer";
+import {
+  createAnimationRuntime,
+  type AnimationKeyframe,
+  type BezierPoints,
+  type BreakpointSpec,
+  type CameraPathSpec,
+  type ClipBindingSpec,
+  type ConstraintTargets,
+  type EasingParams,
+  type EasingType,
+  type InterpolationType,
+  type KeyframeTrack,
+  type LayerConstraintSpec,
+  type LayerConstraintType,
+  type LightStateSpec,
+  type MaterialStateSpec,
+  type ScrollFollowState,
+  type ScrollSmoothingSpec,
+  type ScrollSnapSpec,
+  type TimedClipMode,
+  type TimedClipSpec,
+  type TimelineMarkerSpec,
+  type TrackDriver,
+  type TrackModifier,
+  type TrackModifierType,
+} from "@/lib/animation-runtime";
 import { cn } from "@/lib/utils";
 
 type ViewerSettings = {
@@ -59,6 +116,7 @@ type ViewerSettings = {
   ambientIntensity: number;
   useDirectionalLight: boolean;
   directionalIntensity: number;
+  directionalColor: string;
   directionalX: number;
   directionalY: number;
   directionalZ: number;
@@ -78,22 +136,29 @@ type PointLightConfig = {
   decay: number;
 };
 
-type ConfigPayload = {
-  settings: ViewerSettings;
-  pointLights: PointLightConfig[];
+// A scene's saved animation data; omitted fields take their defaults.
+type SceneConfig = {
   pinnedCameraView?: CameraView;
+  cameraPath?: CameraPath;
   timelineLengthVh?: number;
   animationTracks?: AnimationTrack[];
+  clipBindings?: ClipBindingSpec[];
+  layerConstraints?: LayerConstraint[];
+  timelineMarkers?: TimelineMarkerSpec[];
+  breakpointOverrides?: BreakpointOverride[];
+  timedClips?: TimedClip[];
 };
 
-type ExportConfig = {
-  backgroundColor: string;
-  useAmbientLight: boolean;
-  ambientIntensity: number;
-  pointLights: { color: string; intensity: number; x: number; y: number; z: number }[];
-  pinnedCamera: { position: [number, number, number]; target: [number, number, number]; fov: number; zoom: number } | null;
-  timelineLengthVh: number;
-  tracks: { layerName: string; propertyId: string; keyframes: { atVh: number; value: number; easing: string }[] }[];
+type ConfigPayload = SceneConfig & {
+  settings: ViewerSettings;
+  pointLights: PointLightConfig[];
+  // The active scene keeps its data at the top level, as single-scene configs do; its
+  // entry here only carries the name and page offset.
+  scenes?: (SceneConfig & { id: string; name: string; pageOffsetVh?: number })[];
+  activeSceneId?: string;
+  scrollSmoothing?: ScrollSmoothingSpec;
+  scrollSnap?: ScrollSnapSpec;
+  breakpoints?: BreakpointSpec[];
 };
 
 type LayerItem = {
@@ -105,6 +170,7 @@ type LayerItem = {
   hasChildren: boolean;
   visible: boolean;
   opacity: number;
+  morphWeights: Record<string, number>; // morph target name → weight; empty without targets
   position: { x: number; y: number; z: number };
   rotation: { x: number; y: number; z: number };
   scale: { x: number; y: number; z: number };
@@ -118,6 +184,7 @@ type LayerSnapshot = Record<
     visible: boolean;
     deleted: boolean;
     opacity: number;
+    morphWeights?: Record<string, number>;
     position: { x: number; y: number; z: number };
     rotation: { x: number; y: number; z: number };
     scale: { x: number; y: number; z: number };
@@ -129,14 +196,7 @@ type HistoryEntry = {
   label: string;
   snapshot: LayerSnapshot;
   tracks: AnimationTrack[];
-};
-
-type EasingType = "linear" | "easeIn" | "easeOut" | "easeInOut" | "easeInOutCubic";
-
-type AnimationKeyframe = {
-  atVh: number;
-  value: number;
-  easing?: EasingType;
+  timedClips: TimedClip[];
 };
 
 type AnimationTrack = {
@@ -144,17 +204,88 @@ type AnimationTrack = {
   layerName?: string; // saved for remapping when UUIDs differ on re-upload
   propertyId: string;
   keyframes: AnimationKeyframe[];
+  modifiers?: TrackModifier[];
 };
 
 type ViewMode = "animate" | "preview";
 
+// A timeline group of reserved-id channel tracks (lights, materials); see `renderChannelGroupRows`.
+type ChannelGroup = {
+  trackId: string;
+  icon: React.ComponentType<{ className?: string }>;
+  properties: readonly { id: string; label: string; step: number }[];
+  getValue: (propertyId: string) => number;
+  setValues: (values: { propertyId: string; value: number }[], commit: boolean) => boolean;
+  keyChannel: (propertyId: string) => void;
+  toggleChannel: (propertyId: string, enabled: boolean) => void;
+  swatches: { title: string; value: string; onChange: (hex: string) => boolean }[];
+  onRemove?: () => void;
+};
+
+type CameraPath = {
+  points: [number, number, number][];
+  closed: boolean;
+  lookAtLayerId: string | null; // null = aim at the Target X/Y/Z channels
+  lookAtLayerName?: string; // saved for remapping when UUIDs differ on re-upload
+};
+
+// Editor form of a timed clip: layer tracks target layer ids.
+type TimedClipTrack = TimedClipSpec["tracks"][number] & {
+  targetName?: string; // layer targets: saved for remapping when UUIDs differ on re-upload
+};
+
+type TimedClip = Omit<TimedClipSpec, "tracks"> & { tracks: TimedClipTrack[] };
+
+// Constraint on a layer, applied after its tracks by `animationRuntime.applyConstraints`.
+// `target` is a layer id (null on a look-at: the camera).
+type LayerConstraint = LayerConstraintSpec & {
+  layerId: string;
+  layerName?: string; // saved for remapping when UUIDs differ on re-upload
+  targetName?: string;
+};
+
 type CameraView = {
   position: [number, number, number];
   target: [number, number, number];
   fov: number;
   zoom: number;
+  pathProgress?: number;
+};
+
+// Rewrites every keyframe of one existing track while a breakpoint applies: `value` holds
+// the track at a constant, `offset` shifts it (keeping its shape).
+type TrackOverride = {
+  layerId: string;
+  layerName?: string; // saved for remapping when UUIDs differ on re-upload
+  propertyId: string;
+  mode: "value" | "offset";
+  value: number;
 };
 
+// What a breakpoint changes in one scene; `camera` replaces the pinned view.
+type BreakpointOverride = {
+  breakpointId: string;
+  camera: CameraView | null;
+  tracks: TrackOverride[];
+};
+
+// Animation data of one scroll scene. The active scene's is the editor's timeline state;
+// the others wait in `scenes` until switched to.
+type SceneData = {
+  pinnedCameraView: CameraView | null;
+  cameraPath: CameraPath | null;
+  timelineLengthVh: number;
+  animationTracks: AnimationTrack[];
+  clipBindings: ClipBindingSpec[];
+  layerConstraints: LayerConstraint[];
+  timelineMarkers: TimelineMarkerSpec[];
+  breakpointOverrides: BreakpointOverride[];
+  timedClips: TimedClip[];
+};
+
+// On the exported page a scene's canvas follows `pageOffsetVh` of regular page content.
+type TimelineScene = SceneData & { id: string; name: string; pageOffsetVh: number };
+
 const MAX_POINT_LIGHTS = 4;
 const CONFIG_STORAGE_KEY = "glb_tool_viewer_config_v1";
 const DEFAULT_CAMERA_VIEW: CameraView = {
@@ -170,9 +301,189 @@ const TIMELINE_PROPERTIES = [
   { id: "rotation.x", label: "Rotation X" },
   { id: "rotation.y", label: "Rotation Y" },
   { id: "rotation.z", label: "Rotation Z" },
+  { id: "rotation", label: "Rotation (slerp)" },
   { id: "scale.uniform", label: "Scale" },
+  { id: "scale.x", label: "Scale X" },
+  { id: "scale.y", label: "Scale Y" },
+  { id: "scale.z", label: "Scale Z" },
   { id: "opacity", label: "Opacity" },
 ] as const;
+// Bones key their orientation (slerp or per axis) and, optionally, their offset from the parent joint.
+const BONE_TIMELINE_PROPERTIES = TIMELINE_PROPERTIES.filter(
+  (property) => property.id.startsWith("position.") || property.id.startsWith("rotation")
+);
+// Morph target (blend shape) weights are keyed per target name: `morph.<name>`.
+const MORPH_PROPERTY_PREFIX = "morph.";
+const getMorphPropertyId = (name: string) => `${MORPH_PROPERTY_PREFIX}${name}`;
+// Reserved track `layerId` for camera tracks, shown as the "Camera" row of the timeline.
+// Values are evaluated over the pinned view by `animationRuntime.evaluateCameraView`.
+const CAMERA_TRACK_ID = "__camera__";
+const CAMERA_PROPERTIES = [
+  { id: "camera.position.x", label: "Position X" },
+  { id: "camera.position.y", label: "Position Y" },
+  { id: "camera.position.z", label: "Position Z" },
+  { id: "camera.target.x", label: "Target X" },
+  { id: "camera.target.y", label: "Target Y" },
+  { id: "camera.target.z", label: "Target Z" },
+  { id: "camera.fov", label: "Field of View" },
+  { id: "camera.zoom", label: "Zoom" },
+  { id: "camera.path.progress", label: "Path Progress" },
+] as const;
+const CAMERA_PATH_PROGRESS_ID = "camera.path.progress";
+// Combined orientation track: keyframes carry `rotation` (degrees) and are slerped.
+const ROTATION_PROPERTY_ID = "rotation";
+// Reserved track `layerId`s for lights: `__light__:directional` and `__light__:<point light id>`,
+// shown as rows below the Camera. Channels override the configured light through
+// `animationRuntime.evaluateLightState`; color is keyed as three sRGB channels (0–1).
+const LIGHT_TRACK_PREFIX = "__light__:";
+const DIRECTIONAL_LIGHT_TRACK_ID = `${LIGHT_TRACK_PREFIX}directional`;
+const LIGHT_PROPERTIES = [
+  { id: "light.intensity", label: "Intensity", step: 0.05 },
+  { id: "light.color.r", label: "Color R", step: 0.01 },
+  { id: "light.color.g", label: "Color G", step: 0.01 },
+  { id: "light.color.b", label: "Color B", step: 0.01 },
+  { id: "light.position.x", label: "Position X", step: 0.1 },
+  { id: "light.position.y", label: "Position Y", step: 0.1 },
+  { id: "light.position.z", label: "Position Z", step: 0.1 },
+  { id: "light.distance", label: "Distance", step: 1 },
+  { id: "light.decay", label: "Decay", step: 0.1 },
+] as const;
+// Directional lights have no range falloff.
+const DIRECTIONAL_LIGHT_PROPERTIES = LIGHT_PROPERTIES.filter(
+  (property) => property.id !== "light.distance" && property.id !== "light.decay"
+);
+const LIGHT_COLOR_IDS = ["light.color.r", "light.color.g", "light.color.b"];
+// Reserved track `layerId`s for materials of the model, `__material__:<material name>`.
+// Colors are keyed as OKLab L/a/b channels so they blend perceptually.
+const MATERIAL_TRACK_PREFIX = "__material__:";
+const MATERIAL_PROPERTIES = [
+  { id: "material.color.l", label: "Color L", step: 0.01 },
+  { id: "material.color.a", label: "Color a", step: 0.005 },
+  { id: "material.color.b", label: "Color b", step: 0.005 },
+  { id: "material.emissive.l", label: "Emissive L", step: 0.01 },
+  { id: "material.emissive.a", label: "Emissive a", step: 0.005 },
+  { id: "material.emissive.b", label: "Emissive b", step: 0.005 },
+  { id: "material.emissiveIntensity", label: "Emissive Intensity", step: 0.05 },
+  { id: "material.metalness", label: "Metalness", step: 0.01 },
+  { id: "material.roughness", label: "Roughness", step: 0.01 },
+  { id: "material.opacity", label: "Opacity", step: 0.01 },
+] as const;
+const MATERIAL_COLOR_IDS = ["material.color.l", "material.color.a", "material.color.b"];
+const MATERIAL_EMISSIVE_IDS = ["material.emissive.l", "material.emissive.a", "material.emissive.b"];
+
+// Keyable constraint channels live on the constrained layer's tracks.
+const CONSTRAINT_PROPERTY_PREFIX = "constraint.";
+const getConstraintPropertyId = (constraintId: string, channel: "influence" | "progress") =>
+  `${CONSTRAINT_PROPERTY_PREFIX}${constraintId}.${channel}`;
+const LAYER_CONSTRAINT_TYPES: { type: LayerConstraintType; label: string }[] = [
+  { type: "lookAt", label: "Look at" },
+  { type: "followPath", label: "Follow path" },
+  { type: "parent", label: "Parent to" },
+];
+
+const getTrackPropertyLabel = (propertyId: string) => {
+  if (propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX)) {
+    return propertyId.endsWith(".progress") ? "Constraint progress" : "Constraint influence";
+  }
+  return (
+    [...TIMELINE_PROPERTIES, ...CAMERA_PROPERTIES, ...LIGHT_PROPERTIES, ...MATERIAL_PROPERTIES].find(
+      (property) => property.id === propertyId
+    )?.label ??
+    (propertyId.startsWith(MORPH_PROPERTY_PREFIX)
+      ? `Morph: ${propertyId.slice(MORPH_PROPERTY_PREFIX.length)}`
+      : propertyId)
+  );
+};
+
+// Constraint shape for the exports: layers (and targets) are referred to by name.
+function toExportConstraint(
+  { layerId, layerName: _layerName, targetName: _targetName, ...constraint }: LayerConstraint,
+  getLayerName: (layerId: string) => string
+): LayerConstraintSpec & { layerName: string } {
+  const target = constraint.type === "followPath" || constraint.target === null ? {} : { target: getLayerName(constraint.target) };
+  return { ...constraint, ...target, layerName: getLayerName(layerId) };
+}
+
+// Procedural track modifiers, in the order the "add" menu lists them. Loop modifiers are
+// the only ones that act on the combined rotation track.
+const TRACK_MODIFIER_TYPES: { type: TrackModifierType; label: string; loop?: boolean }[] = [
+  { type: "driver", label: "Driver" },
+  { type: "wiggle", label: "Wiggle" },
+  { type: "noise", label: "Noise" },
+  { type: "cycle", label: "Cycle", loop: true },
+  { type: "pingpong", label: "Ping-pong", loop: true },
+  { type: "drift", label: "Drift" },
+];
+type ModifierParamKey = "amplitude" | "frequency" | "seed" | "octaves" | "perVh" | "multiplier" | "offset";
+const TRACK_MODIFIER_FIELDS: Partial<Record<TrackModifierType, { key: ModifierParamKey; label: string; step: number }[]>> = {
+  driver: [
+    { key: "multiplier", label: "Multiplier", step: 0.1 },
+    { key: "offset", label: "Offset", step: 0.01 },
+  ],
+  wiggle: [
+    { key: "amplitude", label: "Amplitude", step: 0.01 },
+    { key: "frequency", label: "Waves / 100 vh", step: 0.1 },
+    { key: "seed", label: "Seed", step: 1 },
+  ],
+  noise: [
+    { key: "amplitude", label: "Amplitude", step: 0.01 },
+    { key: "frequency", label: "Waves / 100 vh", step: 0.1 },
+    { key: "octaves", label: "Octaves", step: 1 },
+    { key: "seed", label: "Seed", step: 1 },
+  ],
+  drift: [{ key: "perVh", label: "Per vh", step: 0.001 }],
+};
+
+// Defaults sized to the property: rotation axes are in degrees, everything else is unit-ish.
+function createTrackModifier(type: TrackModifierType, propertyId: string): TrackModifier {
+  const degrees = propertyId.startsWith("rotation.");
+  const seed = Math.floor(Math.random() * 10000);
+  switch (type) {
+    case "wiggle":
+      return { type, amplitude: degrees ? 10 : 0.1, frequency: 4, seed };
+    case "noise":
+      return { type, amplitude: degrees ? 10 : 0.1, frequency: 4, seed, octaves: 3 };
+    case "drift":
+      return { type, perVh: degrees ? 0.5 : 0.005 };
+    case "driver":
+      // No source yet: the keyed value shows until one is picked
+      return { type, source: "", sourcePropertyId: "rotation.y", multiplier: 1, offset: 0 };
+    default:
+      return { type };
+  }
+}
+
+const getTrackDriver = (track: AnimationTrack | undefined) =>
+  track?.modifiers?.find((modifier): modifier is TrackDriver => modifier.type === "driver");
+
+// True when driving `layerId`/`propertyId` from `source`/`sourcePropertyId` would close a
+// loop: each track has at most one driver, so following sources is a single chain.
+function createsDriverCycle(
+  tracks: AnimationTrack[],
+  layerId: string,
+  propertyId: string,
+  source: string,
+  sourcePropertyId: string
+) {
+  const visited = new Set<string>();
+  let current: { layerId: string; propertyId: string } | null = { layerId: source, propertyId: sourcePropertyId };
+  while (current) {
+    if (current.layerId === layerId && current.propertyId === propertyId) return true;
+    const key = `${current.layerId}::${current.propertyId}`;
+    if (visited.has(key)) return false;
+    visited.add(key);
+    const { layerId: nextLayerId, propertyId: nextPropertyId } = current;
+    const driver = getTrackDriver(
+      tracks.find((track) => track.layerId === nextLayerId && track.propertyId === nextPropertyId && track.keyframes.length > 0)
+    );
+    current = driver ? { layerId: driver.source, propertyId: driver.sourcePropertyId } : null;
+  }
+  return false;
+}
+
+// Graph editor curve colours: axis tracks use the usual X/Y/Z colours.
+const GRAPH_AXIS_COLORS: Record<string, string> = { x: "#f87171", y: "#4ade80", z: "#60a5fa" };
+const GRAPH_COLORS = ["#fbbf24", "#c084fc", "#2dd4bf", "#f472b6"];
 
 const DEFAULT_SETTINGS: ViewerSettings = {
   backgroundColor: "#0b0f13",
@@ -181,6 +492,7 @@ const DEFAULT_SETTINGS: ViewerSettings = {
   ambientIntensity: 2,
   useDirectionalLight: false,
   directionalIntensity: 1,
+  directionalColor: "#ffffff",
   directionalX: 5,
   directionalY: 6,
   directionalZ: 4,
@@ -188,6 +500,327 @@ const DEFAULT_SETTINGS: ViewerSettings = {
   orbitAutoRotate: false,
 };
 
+const animationRuntime = createAnimationRuntime(THREE);
+
+// CSS `ease` — starting curve when a keyframe is first switched to Cubic Bezier.
+const DEFAULT_BEZIER: BezierPoints = [0.25, 0.1, 0.25, 1];
+
+// Keyframe shape written to the Animation JSON and HTML export: easing made explicit,
+// curve parameters only when the easing/interpolation actually uses them.
+function toExportKeyframe(source: AnimationKeyframe): AnimationKeyframe {
+  const { atVh, value, easing, bezier, easingParams, interpolation, inTangent, outTangent, rotation, spins } = source;
+  const kf: AnimationKeyframe = { atVh, value, easing: easing ?? "linear" };
+  if (easing === "cubicBezier" && bezier) kf.bezier = bezier;
+  if (easing && hasEasingParams(easing) && easingParams) kf.easingParams = easingParams;
+  if (interpolation && interpolation !== "eased") kf.interpolation = interpolation;
+  if (inTangent !== undefined) kf.inTangent = inTangent;
+  if (outTangent !== undefined) kf.outTangent = outTangent;
+  if (rotation) kf.rotation = rotation;
+  if (spins) kf.spins = spins;
+  return kf;
+}
+
+// Stamps drivers with their source layer's current name, which exports resolve them by
+// and loading a config falls back to when the layer ids changed.
+function nameDriverSources(modifiers: TrackModifier[], getLayerName: (layerId: string) => string) {
+  return modifiers.map((modifier) =>
+    modifier.type === "driver" ? { ...modifier, sourceName: getLayerName(modifier.source) } : modifier
+  );
+}
+
+// Track shape for the exports: export keyframes, plus the modifiers when there are any.
+function toExportTrack(track: AnimationTrack, getLayerName: (layerId: string) => string): KeyframeTrack {
+  const exported: KeyframeTrack = { propertyId: track.propertyId, keyframes: track.keyframes.map(toExportKeyframe) };
+  if (track.modifiers && track.modifiers.length > 0) exported.modifiers = nameDriverSources(track.modifiers, getLayerName);
+  return exported;
+}
+
+function getCameraViewChannel(view: CameraView, propertyId: string) {
+  const [, channel, axis] = propertyId.split(".");
+  if (channel === "position" || channel === "target") return view[channel][["x", "y", "z"].indexOf(axis)] ?? 0;
+  if (channel === "path") return view.pathProgress ?? 0;
+  return channel === "fov" ? view.fov : view.zoom;
+}
+
+const getLightTrackId = (pointLightId: string) => `${LIGHT_TRACK_PREFIX}${pointLightId}`;
+const getMaterialTrackId = (materialName: string) => `${MATERIAL_TRACK_PREFIX}${materialName}`;
+
+// Camera, light and material tracks are not bound to a layer of the model.
+const isReservedTrackId = (layerId: string) =>
+  layerId === CAMERA_TRACK_ID || layerId.startsWith(LIGHT_TRACK_PREFIX) || layerId.startsWith(MATERIAL_TRACK_PREFIX);
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", "").slice(0, 6), 16);
+  if (Number.isNaN(value)) return [1, 1, 1];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((c) => Number((c / 255).toFixed(4))) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+function rgbToHex(rgb: [number, number, number]) {
+  return `#${rgb
+    .map((c) => Math.round(THREE.MathUtils.clamp(c, 0, 1) * 255).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function getPointLightBase(light: PointLightConfig): LightStateSpec {
+  return {
+    intensity: light.intensity,
+    color: hexToRgb(light.color),
+    position: [light.x, light.y, light.z],
+    distance: light.distance,
+    decay: light.decay,
+  };
+}
+
+function getDirectionalLightBase(settings: ViewerSettings): LightStateSpec {
+  return {
+    intensity: settings.directionalIntensity,
+    color: hexToRgb(settings.directionalColor),
+    position: [settings.directionalX, settings.directionalY, settings.directionalZ],
+    distance: 0,
+    decay: 0,
+  };
+}
+
+function getLightStateChannel(state: LightStateSpec, propertyId: string) {
+  const [, channel, axis] = propertyId.split(".");
+  if (channel === "color") return state.color[["r", "g", "b"].indexOf(axis)] ?? 0;
+  if (channel === "position") return state.position[["x", "y", "z"].indexOf(axis)] ?? 0;
+  if (channel === "intensity") return state.intensity;
+  return channel === "distance" ? state.distance : state.decay;
+}
+
+function setLightStateChannel(state: LightStateSpec, propertyId: string, value: number): LightStateSpec {
+  const [, channel, axis] = propertyId.split(".");
+  const next: LightStateSpec = { ...state, color: [...state.color], position: [...state.position] };
+  if (channel === "color") next.color[["r", "g", "b"].indexOf(axis)] = THREE.MathUtils.clamp(value, 0, 1);
+  else if (channel === "position") next.position[["x", "y", "z"].indexOf(axis)] = value;
+  else if (channel === "intensity") next.intensity = Math.max(0, value);
+  else if (channel === "distance") next.distance = Math.max(0, value);
+  else if (channel === "decay") next.decay = Math.max(0, value);
+  return next;
+}
+
+function hexToOklab(hex: string) {
+  const color = new THREE.Color(hex);
+  return animationRuntime.linearToOklab([color.r, color.g, color.b]);
+}
+
+function oklabToHex(lab: [number, number, number]) {
+  return `#${new THREE.Color().setRGB(...animationRuntime.oklabToLinear(lab)).getHexString()}`;
+}
+
+function getMaterialStateChannel(state: MaterialStateSpec, propertyId: string) {
+  const [, channel, axis] = propertyId.split(".");
+  if (channel === "color" || channel === "emissive") return state[channel][["l", "a", "b"].indexOf(axis)] ?? 0;
+  if (channel === "emissiveIntensity") return state.emissiveIntensity;
+  if (channel === "metalness" || channel === "roughness") return state[channel];
+  return state.opacity;
+}
+
+function createTimelineScene(
+  id: string,
+  name: string,
+  data: Partial<Omit<TimelineScene, "id" | "name">> = {}
+): TimelineScene {
+  return {
+    id,
+    name,
+    pageOffsetVh: 0,
+    pinnedCameraView: null,
+    cameraPath: null,
+    timelineLengthVh: 200,
+    animationTracks: [],
+    clipBindings: [],
+    layerConstraints: [],
+    timelineMarkers: [],
+    breakpointOverrides: [],
+    timedClips: [],
+    ...data,
+  };
+}
+
+// Saved form of a scene. With `getLayerName`, layer references also carry names so a
+// re-uploaded model with new UUIDs can be remapped on load.
+function toSceneConfig(scene: SceneData, getLayerName?: (layerId: string) => string): SceneConfig {
+  const config: SceneConfig = {};
+  if (scene.pinnedCameraView) config.pinnedCameraView = scene.pinnedCameraView;
+  if (scene.cameraPath) {
+    const { lookAtLayerId } = scene.cameraPath;
+    config.cameraPath =
+      getLayerName && lookAtLayerId ? { ...scene.cameraPath, lookAtLayerName: getLayerName(lookAtLayerId) } : scene.cameraPath;
+  }
+  if (scene.timelineLengthVh !== 200) config.timelineLengthVh = scene.timelineLengthVh;
+  if (scene.animationTracks.length > 0) {
+    config.animationTracks = getLayerName
+      ? scene.animationTracks.map((track) => ({
+          ...track,
+          layerName: getLayerName(track.layerId),
+          ...(track.modifiers ? { modifiers: nameDriverSources(track.modifiers, getLayerName) } : {}),
+        }))
+      : scene.animationTracks;
+  }
+  if (scene.clipBindings.length > 0) config.clipBindings = scene.clipBindings;
+  if (scene.layerConstraints.length > 0) {
+    config.layerConstraints = getLayerName
+      ? scene.layerConstraints.map((constraint) => ({
+          ...constraint,
+          layerName: getLayerName(constraint.layerId),
+          targetName:
+            constraint.type !== "followPath" && constraint.target ? getLayerName(constraint.target) : undefined,
+        }))
+      : scene.layerConstraints;
+  }
+  if (scene.timelineMarkers.length > 0) config.timelineMarkers = scene.timelineMarkers;
+  if (scene.breakpointOverrides.length > 0) {
+    config.breakpointOverrides = getLayerName
+      ? scene.breakpointOverrides.map((override) => ({
+          ...override,
+          tracks: override.tracks.map((track) => ({ ...track, layerName: getLayerName(track.layerId) })),
+        }))
+      : scene.breakpointOverrides;
+  }
+  if (scene.timedClips.length > 0) {
+    config.timedClips = getLayerName
+      ? scene.timedClips.map((clip) => ({
+          ...clip,
+          tracks: clip.tracks.map((track) =>
+            isMaterialChannel(track.propertyId) ? track : { ...track, targetName: getLayerName(track.target) }
+          ),
+        }))
+      : scene.timedClips;
+  }
+  return config;
+}
+
+// The scene's tracks and pinned view as a breakpoint's override leaves them.
+function applyBreakpointOverride(
+  scene: Pick<SceneData, "animationTracks" | "pinnedCameraView">,
+  override: BreakpointOverride | undefined
+): { tracks: AnimationTrack[]; camera: CameraView | null } {
+  if (!override) return { tracks: scene.animationTracks, camera: scene.pinnedCameraView };
+  const tracks = scene.animationTracks.map((track) => {
+    const trackOverride = override.tracks.find(
+      (o) => o.layerId === track.layerId && o.propertyId === track.propertyId
+    );
+    if (!trackOverride) return track;
+    return {
+      ...track,
+      keyframes: track.keyframes.map((kf) =>
+        trackOverride.mode === "offset"
+          ? { ...kf, value: kf.value + trackOverride.value }
+          : { ...kf, value: trackOverride.value, inTangent: undefined, outTangent: undefined }
+      ),
+    };
+  });
+  return { tracks, camera: override.camera ?? scene.pinnedCameraView };
+}
+
+// A lone default scene saves as before, without a scene list.
+function hasSceneSetup(scenes: TimelineScene[]) {
+  return scenes.length > 1 || scenes[0].name !== "Scene 1" || scenes[0].pageOffsetVh !== 0;
+}
+
+// New markers cycle through these colors.
+const MARKER_COLORS = ["#f59e0b", "#38bdf8", "#a78bfa", "#34d399", "#f472b6"];
+
+// Timeline group of the timed clips, which run on their own clock rather than the scroll.
+const TIMED_CLIPS_GROUP_ID = "__timed_clips__";
+const TIMED_CLIP_MODES: { mode: TimedClipMode; label: string }[] = [
+  { mode: "once", label: "Play once" },
+  { mode: "loop", label: "Loop" },
+  { mode: "reverseOnLeave", label: "Reverse on leave" },
+];
+// Easings offered on timed clip keyframes (the ones without extra settings to edit there).
+const TIMED_CLIP_EASINGS: { value: EasingType; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "easeIn", label: "Ease In" },
+  { value: "easeOut", label: "Ease Out" },
+  { value: "easeInOut", label: "Ease In/Out" },
+  { value: "easeInOutCubic", label: "Ease In/Out Cubic" },
+  { value: "spring", label: "Spring" },
+  { value: "bounce", label: "Bounce" },
+  { value: "elastic", label: "Elastic" },
+  { value: "back", label: "Back" },
+];
+// Timed clip tracks on `material.*` channels target a material by name, the rest a layer.
+const isMaterialChannel = (propertyId: string) => propertyId.startsWith("material.");
+
+// Timeline group holding the embedded clip bars (not a track id: clips are not keyframed).
+const CLIPS_GROUP_ID = "__clips__";
+const MIN_CLIP_SPAN_VH = 1;
+
+function createClipBinding(clip: THREE.AnimationClip, timelineLengthVh: number): ClipBindingSpec {
+  return {
+    clipName: clip.name,
+    startVh: 0,
+    endVh: timelineLengthVh,
+    clipIn: 0,
+    clipOut: Number(clip.duration.toFixed(3)),
+    speed: 1,
+    reverse: false,
+  };
+}
+
+// Keeps a binding usable: a non-empty vh range, in/out inside the clip, no negative speed.
+function normalizeClipBinding(binding: ClipBindingSpec, duration: number): ClipBindingSpec {
+  const startVh = Math.max(0, binding.startVh);
+  const clipIn = THREE.MathUtils.clamp(binding.clipIn, 0, duration);
+  return {
+    ...binding,
+    startVh,
+    endVh: Math.max(startVh + MIN_CLIP_SPAN_VH, binding.endVh),
+    clipIn,
+    clipOut: THREE.MathUtils.clamp(binding.clipOut, clipIn, duration),
+    speed: Math.max(0, binding.speed),
+    reverse: Boolean(binding.reverse),
+  };
+}
+
+// Inserts or overwrites the keyframe at `atVh`, keeping easing/interpolation of an
+// existing keyframe and creating the track when needed. `patch` carries extra keyed
+// data (the orientation of a combined rotation key).
+function upsertTrackKeyframe(
+  tracks: AnimationTrack[],
+  layerId: string,
+  propertyId: string,
+  atVh: number,
+  value: number,
+  patch?: Partial<AnimationKeyframe>
+): AnimationTrack[] {
+  const next = [...tracks];
+  const index = next.findIndex((track) => track.layerId === layerId && track.propertyId === propertyId);
+  if (index < 0) {
+    next.push({ layerId, propertyId, keyframes: [{ atVh, value, ...patch }] });
+    return next;
+  }
+  const keyframes = [...next[index].keyframes];
+  const existing = keyframes.findIndex((kf) => Number(kf.atVh.toFixed(2)) === atVh);
+  if (existing >= 0) keyframes[existing] = { ...keyframes[existing], value, ...patch };
+  else keyframes.push({ atVh, value, ...patch });
+  keyframes.sort((a, b) => a.atVh - b.atVh);
+  next[index] = { ...next[index], keyframes };
+  return next;
+}
+
+function describeEasing(kf: AnimationKeyframe) {
+  if (kf.interpolation === "hold") return "hold";
+  if (kf.interpolation === "bezier") {
+    const { inTangent, outTangent } = kf;
+    if (inTangent === undefined && outTangent === undefined) return "bezier (auto)";
+    return `bezier (in ${inTangent ?? "auto"}, out ${outTangent ?? "auto"})`;
+  }
+  if (kf.easing === "cubicBezier") return formatBezier(kf.bezier ?? DEFAULT_BEZIER);
+  if (kf.easing && kf.easingParams && hasEasingParams(kf.easing)) {
+    const params = Object.entries(kf.easingParams).map(([key, v]) => `${key} ${Number(v.toFixed(2))}`);
+    return params.length > 0 ? `${kf.easing} (${params.join(", ")})` : kf.easing;
+  }
+  return kf.easing ?? "linear";
+}
+
 function createDefaultPointLight(index: number): PointLightConfig {
   return {
     id: `${Date.now()}-${index}`,
@@ -234,226 +867,6 @@ function readFileBuffer(file: File): Promise<ArrayBuffer> {
   });
 }
 
-function applyEasing(t: number, easing: EasingType = "linear"): number {
-  switch (easing) {
-    case "easeIn":    return t * t;
-    case "easeOut":   return t * (2 - t);
-    case "easeInOut": return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-    case "easeInOutCubic":
-      return t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1;
-    default:          return t; // linear
-  }
-}
-
-function generateAnimationHtml(glbDataUrl: string, cfg: ExportConfig): string {
-  const cfgJson = JSON.stringify(cfg);
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-<meta charset="UTF-8" />
-<meta name="viewport" content="width=device-width, initial-scale=1.0" />
-<title>Animation</title>
-<style>
-* { margin: 0; padding: 0; box-sizing: border-box; }
-html { overflow-x: hidden; }
-body { background: ${cfg.backgroundColor}; }
-#canvas-wrap { position: fixed; inset: 0; }
-canvas { display: block; width: 100% !important; height: 100% !important; }
-</style>
-<script type="importmap">
-{
-  "imports": {
-    "three": "https://cdn.jsdelivr.net/npm/three@0.182.0/build/three.module.js",
-    "three/addons/": "https://cdn.jsdelivr.net/npm/three@0.182.0/examples/jsm/"
-  }
-}
-</script>
-</head>
-<body>
-<div id="canvas-wrap"><canvas id="c"></canvas></div>
-<script type="module">
-import * as THREE from 'three';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
-
-const CFG = ${cfgJson};
-const GLB_DATA_URL = '${glbDataUrl}';
-
-function applyEasing(t, easing) {
-  switch (easing) {
-    case 'easeIn':         return t * t;
-    case 'easeOut':        return t * (2 - t);
-    case 'easeInOut':      return t < 0.5 ? 2*t*t : -1+(4-2*t)*t;
-    case 'easeInOutCubic': return t < 0.5 ? 4*t*t*t : (t-1)*(2*t-2)*(2*t-2)+1;
-    default:               return t;
-  }
-}
-
-function evaluateTrack(track, atVh) {
-  const kfs = track.keyframes;
-  if (!kfs.length) return 0;
-  if (kfs.length === 1 || atVh <= kfs[0].atVh) return kfs[0].value;
-  if (atVh >= kfs[kfs.length - 1].atVh) return kfs[kfs.length - 1].value;
-  for (let i = 0; i < kfs.length - 1; i++) {
-    if (kfs[i].atVh <= atVh && kfs[i + 1].atVh >= atVh) {
-      const raw = (atVh - kfs[i].atVh) / Math.max(1e-9, kfs[i + 1].atVh - kfs[i].atVh);
-      const t = applyEasing(raw, kfs[i].easing || 'linear');
-      return kfs[i].value + t * (kfs[i + 1].value - kfs[i].value);
-    }
-  }
-  return kfs[kfs.length - 1].value;
-}
-
-const canvas = document.getElementById('c');
-const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
-renderer.setPixelRatio(window.devicePixelRatio);
-renderer.setClearColor(CFG.backgroundColor);
-renderer.shadowMap.enabled = true;
-
-const scene = new THREE.Scene();
-scene.background = new THREE.Color(CFG.backgroundColor);
-
-const camera = new THREE.PerspectiveCamera(
-  CFG.pinnedCamera ? CFG.pinnedCamera.fov : 45,
-  window.innerWidth / window.innerHeight, 0.001, 100000
-);
-if (CFG.pinnedCamera) {
-  const p = CFG.pinnedCamera.position;
-  const t = CFG.pinnedCamera.target;
-  camera.position.set(p[0], p[1], p[2]);
-  camera.lookAt(new THREE.Vector3(t[0], t[1], t[2]));
-  camera.zoom = CFG.pinnedCamera.zoom != null ? CFG.pinnedCamera.zoom : 1;
-  camera.updateProjectionMatrix();
-}
-
-if (CFG.useAmbientLight) {
-  scene.add(new THREE.AmbientLight(0xffffff, CFG.ambientIntensity));
-}
-CFG.pointLights.forEach(function(l) {
-  const light = new THREE.PointLight(l.color, l.intensity, 100);
-  light.position.set(l.x, l.y, l.z);
-  scene.add(light);
-});
-
-function onResize() {
-  camera.aspect = window.innerWidth / window.innerHeight;
-  camera.updateProjectionMatrix();
-  renderer.setSize(window.innerWidth, window.innerHeight, false);
-}
-onResize();
-window.addEventListener('resize', onResize);
-
-document.body.style.height = (CFG.timelineLengthVh + 100) + 'vh';
-let currentVh = 0;
-function onScroll() {
-  const maxScroll = (CFG.timelineLengthVh / 100) * window.innerHeight;
-  currentVh = Math.min(Math.max(
-    (window.scrollY / Math.max(1, maxScroll)) * CFG.timelineLengthVh, 0
-  ), CFG.timelineLengthVh);
-}
-window.addEventListener('scroll', onScroll, { passive: true });
-window.addEventListener('resize', onScroll);
-
-const objMap = {};
-
-// Per-object rotation pivot: bounding-box centre + base state, captured once on
-// first rotation call so the object spins around its visual centre (not its
-// potentially offset local origin) without accumulating position drift.
-const pivotMap = {};
-function getOrCapturePivot(obj) {
-  if (pivotMap[obj.name]) return pivotMap[obj.name];
-  const bbox = new THREE.Box3().setFromObject(obj);
-  if (bbox.isEmpty()) return null;
-  const centerWorld = new THREE.Vector3();
-  bbox.getCenter(centerWorld);
-  const centerLocal = obj.parent
-    ? obj.parent.worldToLocal(centerWorld.clone())
-    : centerWorld.clone();
-  pivotMap[obj.name] = {
-    centerLocal,
-    basePos: obj.position.clone(),
-    baseQuat: obj.quaternion.clone(),
-  };
-  return pivotMap[obj.name];
-}
-
-function applyValue(obj, propertyId, value) {
-  switch (propertyId) {
-    case 'position.x': obj.position.x = value; break;
-    case 'position.y': obj.position.y = value; break;
-    case 'position.z': obj.position.z = value; break;
-    case 'rotation.x':
-    case 'rotation.y':
-    case 'rotation.z': {
-      const axis = propertyId.split('.')[1];
-      const rad = THREE.MathUtils.degToRad(value);
-      const newRotX = axis === 'x' ? rad : obj.rotation.x;
-      const newRotY = axis === 'y' ? rad : obj.rotation.y;
-      const newRotZ = axis === 'z' ? rad : obj.rotation.z;
-      const pivot = getOrCapturePivot(obj);
-      if (pivot) {
-        const newQuat = new THREE.Quaternion().setFromEuler(
-          new THREE.Euler(newRotX, newRotY, newRotZ, obj.rotation.order)
-        );
-        const deltaQuat = newQuat.clone().multiply(pivot.baseQuat.clone().invert());
-        const V = new THREE.Vector3().subVectors(pivot.centerLocal, pivot.basePos);
-        obj.position.subVectors(pivot.centerLocal, V.clone().applyQuaternion(deltaQuat));
-      }
-      obj.rotation.set(newRotX, newRotY, newRotZ, obj.rotation.order);
-      break;
-    }
-    case 'scale.uniform': obj.scale.setScalar(value); break;
-    case 'opacity':
-      obj.traverse(function(child) {
-        if (child.isMesh && child.material) {
-          child.material.transparent = true;
-          child.material.opacity = Math.min(Math.max(value, 0), 1);
-          child.material.needsUpdate = true;
-        }
-      });
-      break;
-  }
-}
-
-function applyTracks() {
-  CFG.tracks.forEach(function(track) {
-    const obj = objMap[track.layerName];
-    if (!obj) return;
-    applyValue(obj, track.propertyId, evaluateTrack(track, currentVh));
-  });
-}
-
-const loader = new GLTFLoader();
-loader.load(GLB_DATA_URL, function(gltf) {
-  scene.add(gltf.scene);
-
-  // Centre at world origin — matches Drei's <Center> in the editor so
-  // the saved camera target [0,0,0] points at the model correctly.
-  var box = new THREE.Box3().setFromObject(gltf.scene);
-  if (!box.isEmpty()) {
-    var center = box.getCenter(new THREE.Vector3());
-    gltf.scene.position.sub(center);
-    gltf.scene.updateMatrixWorld(true);
-  }
-
-  gltf.scene.traverse(function(obj) {
-    if (obj.name) objMap[obj.name] = obj;
-  });
-  applyTracks();
-  requestAnimationFrame(render);
-}, undefined, function(err) {
-  console.error('GLB load error', err);
-});
-
-function render() {
-  applyTracks();
-  renderer.render(scene, camera);
-  requestAnimationFrame(render);
-}
-</script>
-</body>
-</html>`;
-}
-
 function disposeScene(scene: THREE.Object3D) {
   scene.traverse((child) => {
     const mesh = child as THREE.Mesh;
@@ -571,6 +984,142 @@ function MoveGizmo({
   );
 }
 
+// Draws a path spline (the camera's or a follow-path constraint's) with its control points. Clicking a point selects it;
+// the selected point gets a translate gizmo.
+function CameraPathGizmo({
+  path,
+  selectedIndex,
+  onSelect,
+  onPointMove,
+  onPointCommit,
+}: {
+  path: CameraPathSpec;
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  onPointMove: (index: number, point: [number, number, number]) => void;
+  onPointCommit: () => void;
+}) {
+  const moveRef = useRef(onPointMove);
+  const commitRef = useRef(onPointCommit);
+  useLayoutEffect(() => {
+    moveRef.current = onPointMove;
+    commitRef.current = onPointCommit;
+  });
+  const [handle, setHandle] = useState<THREE.Group | null>(null);
+  const isDragging = useRef(false);
+
+  const curve = path.points.length >= 2 ? animationRuntime.getCameraPathCurve(path) : null;
+  const line = useMemo(() => {
+    if (!curve) return null;
+    const geometry = new THREE.BufferGeometry().setFromPoints(curve.getSpacedPoints(Math.max(32, path.points.length * 24)));
+    return new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: "#fbbf24" }));
+  }, [curve, path.points.length]);
+  useEffect(() => {
+    if (!line) return;
+    return () => {
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    };
+  }, [line]);
+
+  // Keep the gizmo handle on the selected point unless it is being dragged
+  const selected = selectedIndex !== null ? path.points[selectedIndex] : undefined;
+  useEffect(() => {
+    if (!handle || !selected || isDragging.current) return;
+    handle.position.set(selected[0], selected[1], selected[2]);
+  }, [handle, selected]);
+
+  const radius = Math.max(0.02, (curve?.getLength() ?? 1) * 0.01);
+
+  return (
+    <>
+      {line ? <primitive object={line} /> : null}
+      {path.points.map((point, index) => (
+        <mesh
+          key={index}
+          position={point}
+          onClick={(event) => {
+            event.stopPropagation();
+            onSelect(index);
+          }}
+        >
+          <sphereGeometry args={[radius, 12, 12]} />
+          <meshBasicMaterial color={index === selectedIndex ? "#f59e0b" : "#fde68a"} />
+        </mesh>
+      ))}
+      <group ref={setHandle} />
+      {handle && selectedIndex !== null && selected ? (
+        <TransformControls
+          object={handle}
+          mode="translate"
+          onMouseDown={() => {
+            isDragging.current = true;
+          }}
+          onChange={() => {
+            if (!isDragging.current) return;
+            moveRef.current(selectedIndex, [handle.position.x, handle.position.y, handle.position.z]);
+          }}
+          onMouseUp={() => {
+            isDragging.current = false;
+            commitRef.current();
+          }}
+        />
+      ) : null}
+    </>
+  );
+}
+
+// Skeleton lines plus a joint marker per bone, drawn over the mesh; clicking a marker
+// picks the bone. Markers follow the bones every frame, so they track scrubbed poses.
+function BonePickerGizmo({
+  root,
+  bones,
+  selectedId,
+  onSelect,
+}: {
+  root: THREE.Object3D;
+  bones: THREE.Bone[];
+  selectedId: string | null;
+  onSelect: (boneId: string) => void;
+}) {
+  const helper = useMemo(() => new THREE.SkeletonHelper(root), [root]);
+  useEffect(() => () => helper.dispose(), [helper]);
+  const markersRef = useRef<(THREE.Mesh | null)[]>([]);
+  const radius = useMemo(() => {
+    const size = new THREE.Box3().setFromObject(root).getSize(new THREE.Vector3());
+    return Math.max(0.002, size.length() * 0.006);
+  }, [root]);
+
+  useFrame(() => {
+    bones.forEach((bone, index) => {
+      const marker = markersRef.current[index];
+      if (marker) bone.getWorldPosition(marker.position);
+    });
+  });
+
+  return (
+    <>
+      <primitive object={helper} />
+      {bones.map((bone, index) => (
+        <mesh
+          key={bone.uuid}
+          ref={(marker: THREE.Mesh | null) => {
+            markersRef.current[index] = marker;
+          }}
+          renderOrder={999}
+          onClick={(event) => {
+            event.stopPropagation();
+            onSelect(bone.uuid);
+          }}
+        >
+          <sphereGeometry args={[radius, 10, 10]} />
+          <meshBasicMaterial color={bone.uuid === selectedId ? "#f59e0b" : "#38bdf8"} depthTest={false} transparent />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
 function SelectionOutline({ object }: { object: THREE.Object3D | null }) {
   const meshes = useMemo(() => {
     if (!object) return [];
@@ -788,6 +1337,36 @@ function sanitizePointLight(input: PointLightConfig, i: number): PointLightConfi
   };
 }
 
+// Starting values when a smoothing model is picked; the spring is critically damped.
+const SCROLL_SMOOTHING_PRESETS: Record<ScrollSmoothingSpec["type"], ScrollSmoothingSpec> = {
+  none: { type: "none" },
+  damped: { type: "damped", halfLifeMs: 120 },
+  spring: { type: "spring", stiffness: 120, damping: 22 },
+};
+
+const DEFAULT_SCROLL_SNAP: ScrollSnapSpec = { strength: 0.5, delayMs: 300 };
+
+function sanitizeScrollSnap(input: ScrollSnapSpec | undefined): ScrollSnapSpec {
+  return {
+    strength: THREE.MathUtils.clamp(Number(input?.strength ?? DEFAULT_SCROLL_SNAP.strength), 0, 1),
+    delayMs: THREE.MathUtils.clamp(Number(input?.delayMs ?? DEFAULT_SCROLL_SNAP.delayMs), 0, 5000),
+  };
+}
+
+function sanitizeScrollSmoothing(input: ScrollSmoothingSpec | undefined): ScrollSmoothingSpec {
+  if (input?.type === "damped") {
+    return { type: "damped", halfLifeMs: THREE.MathUtils.clamp(Number(input.halfLifeMs ?? 120), 10, 2000) };
+  }
+  if (input?.type === "spring") {
+    return {
+      type: "spring",
+      stiffness: THREE.MathUtils.clamp(Number(input.stiffness ?? 120), 10, 1000),
+      damping: THREE.MathUtils.clamp(Number(input.damping ?? 22), 1, 100),
+    };
+  }
+  return SCROLL_SMOOTHING_PRESETS.none;
+}
+
 function getObjectPositionInfo(object: THREE.Object3D) {
   const world = new THREE.Vector3();
   object.getWorldPosition(world);
@@ -839,94 +1418,25 @@ function getObjectOpacity(object: THREE.Object3D) {
   return opacity;
 }
 
-function setObjectOpacity(object: THREE.Object3D, value: number) {
-  const opacity = THREE.MathUtils.clamp(value, 0, 1);
-  object.traverse((child) => {
-    const mesh = child as THREE.Mesh;
-    if (!mesh.material) return;
-    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
-    materials.forEach((material) => {
-      material.opacity = opacity;
-      material.transparent = opacity < 1;
-      material.needsUpdate = true;
-    });
+function getObjectMorphWeights(object: THREE.Object3D) {
+  const weights: Record<string, number> = {};
+  animationRuntime.getMorphTargetNames(object).forEach((name) => {
+    weights[name] = Number(animationRuntime.getObjectMorphWeight(object, name).toFixed(3));
   });
-}
-
-function setObjectUniformScaleFromCenter(object: THREE.Object3D, rawValue: number) {
-  const uniformScale = THREE.MathUtils.clamp(rawValue, 0.001, 100);
-  const beforeBox = new THREE.Box3().setFromObject(object);
-  const beforeCenter = new THREE.Vector3();
-  const hasBeforeCenter = !beforeBox.isEmpty();
-  if (hasBeforeCenter) beforeBox.getCenter(beforeCenter);
-
-  object.scale.set(uniformScale, uniformScale, uniformScale);
-  object.updateMatrixWorld(true);
-
-  if (!hasBeforeCenter) return;
-  const afterBox = new THREE.Box3().setFromObject(object);
-  if (afterBox.isEmpty()) return;
-  const afterCenter = new THREE.Vector3();
-  afterBox.getCenter(afterCenter);
-  const worldDelta = beforeCenter.sub(afterCenter);
-  if (worldDelta.lengthSq() < 1e-12) return;
-
-  const originWorld = new THREE.Vector3();
-  object.getWorldPosition(originWorld);
-  const targetOriginWorld = originWorld.add(worldDelta);
-  if (object.parent) {
-    const targetLocal = object.parent.worldToLocal(targetOriginWorld.clone());
-    object.position.copy(targetLocal);
-  } else {
-    object.position.copy(targetOriginWorld);
-  }
-  object.updateMatrixWorld(true);
-}
-
-function setObjectRotationFromCenter(
-  object: THREE.Object3D,
-  degrees: { x: number; y: number; z: number }
-) {
-  const beforeBox = new THREE.Box3().setFromObject(object);
-  const beforeCenter = new THREE.Vector3();
-  const hasBeforeCenter = !beforeBox.isEmpty();
-  if (hasBeforeCenter) beforeBox.getCenter(beforeCenter);
-
-  object.rotation.set(
-    THREE.MathUtils.degToRad(degrees.x),
-    THREE.MathUtils.degToRad(degrees.y),
-    THREE.MathUtils.degToRad(degrees.z),
-    object.rotation.order
-  );
-  object.updateMatrixWorld(true);
-
-  if (!hasBeforeCenter) return;
-  const afterBox = new THREE.Box3().setFromObject(object);
-  if (afterBox.isEmpty()) return;
-  const afterCenter = new THREE.Vector3();
-  afterBox.getCenter(afterCenter);
-  const worldDelta = beforeCenter.sub(afterCenter);
-  if (worldDelta.lengthSq() < 1e-12) return;
-
-  const originWorld = new THREE.Vector3();
-  object.getWorldPosition(originWorld);
-  const targetOriginWorld = originWorld.add(worldDelta);
-  if (object.parent) {
-    const targetLocal = object.parent.worldToLocal(targetOriginWorld.clone());
-    object.position.copy(targetLocal);
-  } else {
-    object.position.copy(targetOriginWorld);
-  }
-  object.updateMatrixWorld(true);
+  return weights;
 }
 
 function isTransformableLayer(object: THREE.Object3D): boolean {
-  if (object.type === "Bone") return false;
   if (object.type === "SkeletonHelper") return false;
   if (object.type === "Camera") return false;
   return true;
 }
 
+// Bones are layers too, but only for posing: no grouping, duplication or deletion.
+function isBoneLayer(layer: LayerItem | undefined) {
+  return layer?.type === "Bone";
+}
+
 function getLayerItems(scene: THREE.Object3D): {
   items: LayerItem[];
   objectMap: Map<string, THREE.Object3D>;
@@ -969,6 +1479,7 @@ function getLayerItems(scene: THREE.Object3D): {
       hasChildren: object.children.some((child) => isTransformableLayer(child)),
       visible: object.visible,
       opacity: getObjectOpacity(object),
+      morphWeights: getObjectMorphWeights(object),
       ...getObjectPositionInfo(object),
       ...getObjectRotationInfo(object),
       ...getObjectScaleInfo(object),
@@ -990,13 +1501,82 @@ export function GlbViewer() {
   const [isLoading, setIsLoading] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("animate");
   const [pinnedCameraView, setPinnedCameraView] = useState<CameraView | null>(null);
+  const [cameraPath, setCameraPath] = useState<CameraPath | null>(null);
+  const [selectedPathPointIndex, setSelectedPathPointIndex] = useState<number | null>(null);
+  const [layerConstraints, setLayerConstraints] = useState<LayerConstraint[]>([]);
+  // Follow-path constraint whose spline is shown (and editable) in the viewport
+  const [editingConstraintPath, setEditingConstraintPath] = useState<{ id: string; pointIndex: number | null } | null>(
+    null
+  );
+  // Materials added from the timeline picker; materials with tracks are always listed.
+  const [timelineMaterialNames, setTimelineMaterialNames] = useState<string[]>([]);
+  const animatedMaterialIdsRef = useRef<Set<string>>(new Set());
+  const materialsByName = useMemo(
+    () => (modelScene ? animationRuntime.collectMaterials(modelScene) : new Map<string, THREE.Material[]>()),
+    [modelScene]
+  );
+  // Embedded clips of the loaded GLB; bindings map a vh range onto each clip's time.
+  const [modelClips, setModelClips] = useState<THREE.AnimationClip[]>([]);
+  const [clipBindings, setClipBindings] = useState<ClipBindingSpec[]>([]);
+  // Kept sorted by `atVh`
+  const [timelineMarkers, setTimelineMarkers] = useState<TimelineMarkerSpec[]>([]);
+  const [markerMenu, setMarkerMenu] = useState<{ id: string; x: number; y: number } | null>(null);
+  const [timedClips, setTimedClips] = useState<TimedClip[]>([]);
+  // Popover of a timed clip; `target` / `propertyId` are the track about to be added
+  const [timedClipMenu, setTimedClipMenu] = useState<{
+    id: string;
+    x: number;
+    y: number;
+    target: string;
+    propertyId: string;
+  } | null>(null);
+  // Keyframe picked on a timed clip's track lane; indexes follow the track's time order
+  const [timedClipSelection, setTimedClipSelection] = useState<{
+    clipId: string;
+    trackIndex: number;
+    keyframeIndex: number;
+  } | null>(null);
+  // Scroll scenes in page order. The active scene's animation data is the timeline state;
+  // its entry here is only brought up to date when scenes are read (`getProjectScenes`).
+  const [scenes, setScenes] = useState<TimelineScene[]>(() => [createTimelineScene("scene-1", "Scene 1")]);
+  const [activeSceneId, setActiveSceneId] = useState("scene-1");
+  const [sceneMenu, setSceneMenu] = useState<{ x: number; y: number } | null>(null);
+  // Viewport ranges are project-wide; what each one overrides belongs to the scene
+  const [breakpoints, setBreakpoints] = useState<BreakpointSpec[]>([]);
+  const [breakpointOverrides, setBreakpointOverrides] = useState<BreakpointOverride[]>([]);
+  // Preview's breakpoint switcher: null follows the window like the exported page does
+  const [previewBreakpointId, setPreviewBreakpointId] = useState<string | null>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const clipMixer = useMemo(() => (modelScene ? new THREE.AnimationMixer(modelScene) : null), [modelScene]);
+  const skeletonBones = useMemo(() => {
+    const bones: THREE.Bone[] = [];
+    modelScene?.traverse((object) => {
+      if ((object as THREE.Bone).isBone) bones.push(object as THREE.Bone);
+    });
+    return bones;
+  }, [modelScene]);
+  const [clipContextMenu, setClipContextMenu] = useState<{ clipName: string; x: number; y: number } | null>(null);
+  // Modifier popover of a track row: `index` null lists modifiers to add
+  const [modifierMenu, setModifierMenu] = useState<{
+    layerId: string;
+    propertyId: string;
+    index: number | null;
+    x: number;
+    y: number;
+  } | null>(null);
   const [timelineLengthVh, setTimelineLengthVh] = useState(200);
+  // Project-wide: how Preview and the exported page ease the rendered vh toward the scroll
+  const [scrollSmoothing, setScrollSmoothing] = useState<ScrollSmoothingSpec>(SCROLL_SMOOTHING_PRESETS.none);
+  // Project-wide reach and delay of the snap markers
+  const [scrollSnap, setScrollSnap] = useState<ScrollSnapSpec>(DEFAULT_SCROLL_SNAP);
   const [timelineCurrentVh, setTimelineCurrentVh] = useState(0);
   const [timelineProgress, setTimelineProgress] = useState(0);
   const [timelineZoom, setTimelineZoom] = useState(1);
   const [isPlaying, setIsPlaying] = useState(false);
   const [timelineExpandedLayerIds, setTimelineExpandedLayerIds] = useState<Set<string>>(new Set());
   const [timelinePanelHeight, setTimelinePanelHeight] = useState(260);
+  const [timelineView, setTimelineView] = useState<"keys" | "graph">("keys");
+  const [graphNormalize, setGraphNormalize] = useState(false);
   const [animationTracks, setAnimationTracks] = useState<AnimationTrack[]>([]);
   const [selectedKfIds, setSelectedKfIds] = useState<Set<string>>(new Set());
   const [rubberBandVh, setRubberBandVh] = useState<{ a: number; b: number; top: number; bottom: number; startX: number; endX: number } | null>(null);
@@ -1005,6 +1585,19 @@ export function GlbViewer() {
   const [fileMenuOpen, setFileMenuOpen] = useState(false);
   const [editMenuOpen, setEditMenuOpen] = useState(false);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const [bakeModalOpen, setBakeModalOpen] = useState(false);
+  // Defaults match editor playback (50 vh/s), so the baked clip runs like Play does
+  const [bakeSettings, setBakeSettings] = useState<{
+    vhPerSecond: number;
+    fps: number;
+    mode: BakeMode;
+    animationPointer: boolean;
+  }>({
+    vhPerSecond: 50,
+    fps: 30,
+    mode: "keyframes",
+    animationPointer: true,
+  });
   const [saveConfirmOpen, setSaveConfirmOpen] = useState(false);
   const [pendingSaveAction, setPendingSaveAction] = useState<(() => void) | null>(null);
   const [settings, setSettings] = useState<ViewerSettings>(DEFAULT_SETTINGS);
@@ -1029,6 +1622,7 @@ export function GlbViewer() {
   const [hoveredKfId, setHoveredKfId] = useState<string | null>(null);
   const [retimeIndicatorVh, setRetimeIndicatorVh] = useState<number | null>(null);
   const [moveToolActive, setMoveToolActive] = useState(false);
+  const [bonePickerActive, setBonePickerActive] = useState(false);
   const [renamingLayerId, setRenamingLayerId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState("");
   const [layerDetailsOpen, setLayerDetailsOpen] = useState<Record<string, boolean>>({});
@@ -1052,6 +1646,8 @@ export function GlbViewer() {
   const deletedLayerIdsRef = useRef<Set<string>>(new Set());
   const orbitControlsRef = useRef<OrbitControlsImpl | null>(null);
   const historyEntriesRef = useRef<HistoryEntry[]>([]);
+  // Layers as the model loaded; every scene starts posing from here
+  const layerRestSnapshotRef = useRef<LayerSnapshot>({});
   const historyIndexRef = useRef(0);
   const pendingTransformLayerIdsRef = useRef<Set<string>>(new Set());
   const pendingScaleLayerIdsRef = useRef<Set<string>>(new Set());
@@ -1066,6 +1662,10 @@ export function GlbViewer() {
   // pinnedCameraView is kept in state (see useState above) so the config effect re-runs on changes
   const timelineResizeRef = useRef<{ startY: number; startHeight: number } | null>(null);
   const timelineSeekDragRef = useRef(false);
+  // Poses the running timed clips, advanced by `dt` seconds; set while their clock runs
+  const timedClipsTickRef = useRef<((dt: number) => void) | null>(null);
+  // Layer values the running timed clips displaced, put back when their clock stops
+  const timedClipsDisplacedRef = useRef<Map<string, { layerId: string; propertyId: string; value: number }> | null>(null);
   const timelineRulerRef = useRef<HTMLDivElement | null>(null);
   const [timelineScrollEl, setTimelineScrollEl] = useState<HTMLDivElement | null>(null);
   const playbackRafRef = useRef<number | null>(null);
@@ -1089,7 +1689,7 @@ export function GlbViewer() {
   } | null>(null);
   const snapKeyframeVhRef = useRef<(rawVh: number, shiftKey: boolean) => number>((v) => v);
   const layerItemsRef = useRef<LayerItem[]>([]);
-  const clipboardKfsRef = useRef<{ layerId: string; propertyId: string; relVh: number; value: number; easing?: EasingType }[]>([]);
+  const clipboardKfsRef = useRef<{ layerId: string; propertyId: string; relVh: number; keyframe: AnimationKeyframe }[]>([]);
   const retimeDragRef = useRef<{
     startX: number;
     snapshot: { id: string; layerId: string; propertyId: string; origAtVh: number }[];
@@ -1100,23 +1700,23 @@ export function GlbViewer() {
   const animationTracksRef = useRef<AnimationTrack[]>([]);
   const timelineZoomRef = useRef(1);
   const rubberBandVhRef = useRef<{ a: number; b: number; top: number; bottom: number } | null>(null);
+  // Read by the Preview scroll handlers, so tuning them does not restart Preview at the top
+  const scrollSmoothingRef = useRef(scrollSmoothing);
+  const scrollSnapRef = useRef(scrollSnap);
+  const timelineMarkersRef = useRef(timelineMarkers);
   layerItemsRef.current = layerItems;
   animationTracksRef.current = animationTracks;
   timelineZoomRef.current = timelineZoom;
   rubberBandVhRef.current = rubberBandVh;
   timelineCurrentVhRef.current = timelineCurrentVh;
   dragOverInfoRef.current = dragOverInfo;
-
-  // Per-layer rotation pivot: bounding-box center + base position captured once at
-  // the start of timeline animation. Used to spin objects around their visual centre
-  // without accumulating position drift across frames.
-  const rotationPivotRef = useRef<Map<string, {
-    centerLocal: THREE.Vector3;
-    basePos: THREE.Vector3;
-    baseQuat: THREE.Quaternion;
-  }>>(new Map());
+  scrollSmoothingRef.current = scrollSmoothing;
+  scrollSnapRef.current = scrollSnap;
+  timelineMarkersRef.current = timelineMarkers;
 
   const togglePlayRef = useRef<() => void>(() => {});
+  const navigateMarkerRef = useRef<(direction: "prev" | "next") => void>(() => {});
+  const addMarkerRef = useRef<() => void>(() => {});
   togglePlayRef.current = () => {
     if (isPlaying) {
       setIsPlaying(false);
@@ -1131,22 +1731,101 @@ export function GlbViewer() {
   };
 
   const hasModel = modelScene !== null;
+
+  // Preview plays the scene as the matching breakpoint overrides it; Animate edits the base.
+  const previewBreakpoint =
+    viewMode !== "preview"
+      ? null
+      : (breakpoints.find((breakpoint) => breakpoint.id === previewBreakpointId) ??
+        (viewportSize.width > 0
+          ? animationRuntime.matchBreakpoint(breakpoints, viewportSize.width, viewportSize.height)
+          : null));
+  const previewOverride = previewBreakpoint
+    ? breakpointOverrides.find((override) => override.breakpointId === previewBreakpoint.id)
+    : undefined;
+  const getPlaybackTracks = (tracks: AnimationTrack[]) =>
+    previewOverride ? applyBreakpointOverride({ animationTracks: tracks, pinnedCameraView }, previewOverride).tracks : tracks;
+  const playbackCameraView = previewOverride?.camera ?? pinnedCameraView;
+  // A picked breakpoint narrows the Preview canvas to a viewport it matches
+  const previewFrameWidth = (() => {
+    if (!previewBreakpoint || previewBreakpointId === null || viewportSize.width === 0) return null;
+    const width = Math.min(
+      viewportSize.width,
+      previewBreakpoint.maxWidth ?? Infinity,
+      previewBreakpoint.maxAspect === null ? Infinity : viewportSize.height * previewBreakpoint.maxAspect
+    );
+    return width < viewportSize.width ? Math.floor(width) : null;
+  })();
   const undoCount = historyIndex;
   const redoCount = Math.max(0, historyEntries.length - 1 - historyIndex);
 
   useEffect(() => {
     if (configDirty) return;
-    const payload: ConfigPayload = { settings, pointLights };
-    if (pinnedCameraView) payload.pinnedCameraView = pinnedCameraView;
-    if (timelineLengthVh !== 200) payload.timelineLengthVh = timelineLengthVh;
-    if (animationTracks.length > 0) payload.animationTracks = animationTracks;
-    setConfigText(JSON.stringify(payload, null, 2));
-  }, [settings, pointLights, pinnedCameraView, timelineLengthVh, animationTracks, configDirty]);
+    const payload: ConfigPayload = {
+      settings,
+      pointLights,
+      ...toSceneConfig({
+        pinnedCameraView,
+        cameraPath,
+        timelineLengthVh,
+        animationTracks,
+        clipBindings,
+        layerConstraints,
+        timelineMarkers,
+        breakpointOverrides,
+        timedClips,
+      }),
+    };
+    if (hasSceneSetup(scenes)) {
+      payload.scenes = scenes.map(({ id, name, pageOffsetVh, ...data }) =>
+        id === activeSceneId ? { id, name, pageOffsetVh } : { id, name, pageOffsetVh, ...toSceneConfig(data) }
+      );
+      payload.activeSceneId = activeSceneId;
+    }
+    if (scrollSmoothing.type !== "none") payload.scrollSmoothing = scrollSmoothing;
+    if (breakpoints.length > 0) payload.breakpoints = breakpoints;
+    if (scrollSnap.strength !== DEFAULT_SCROLL_SNAP.strength || scrollSnap.delayMs !== DEFAULT_SCROLL_SNAP.delayMs) {
+      payload.scrollSnap = scrollSnap;
+    }
+    setConfigText(JSON.stringify(payload, null, 2));
+  }, [
+    settings,
+    pointLights,
+    pinnedCameraView,
+    cameraPath,
+    timelineLengthVh,
+    animationTracks,
+    clipBindings,
+    layerConstraints,
+    timelineMarkers,
+    breakpointOverrides,
+    timedClips,
+    scenes,
+    activeSceneId,
+    scrollSmoothing,
+    scrollSnap,
+    breakpoints,
+    configDirty,
+  ]);
 
   useEffect(() => {
     deletedLayerIdsRef.current = deletedLayerIds;
   }, [deletedLayerIds]);
 
+  useEffect(() => {
+    timedClipsRef.current = timedClips;
+  }, [timedClips]);
+
+  // Drivers read through refs, so edits and re-uploads are picked up without re-registering
+  useEffect(() => {
+    animationRuntime.setDriverSources({
+      getTrack: (layerId, propertyId) =>
+        animationTracksRef.current.find((track) => track.layerId === layerId && track.propertyId === propertyId),
+      getObject: (layerId) => layerObjectMapRef.current.get(layerId),
+    });
+    return () => animationRuntime.setDriverSources(null);
+  }, []);
+
 
   useEffect(() => {
     const container = viewerRef.current;
@@ -1186,21 +1865,63 @@ export function GlbViewer() {
     document.body.style.height = `${timelineLengthVh + 100}vh`;
     document.documentElement.style.overflow = "auto";
 
+    // Scroll sets the target; a frame loop eases the shown vh toward it, as the export does
+    const follow: ScrollFollowState = { vh: 0, velocity: 0 };
+    let targetVh = 0;
+    let frame = 0;
+    let lastTime = 0;
+    const tick = (time: number) => {
+      const settled = animationRuntime.stepScrollSmoothing(
+        follow,
+        targetVh,
+        lastTime ? (time - lastTime) / 1000 : 0,
+        scrollSmoothingRef.current
+      );
+      lastTime = time;
+      setTimelineCurrentVh(Number(follow.vh.toFixed(2)));
+      setTimelineProgress(follow.vh / timelineLengthVh);
+      frame = settled ? 0 : requestAnimationFrame(tick);
+      if (settled) lastTime = 0;
+    };
+
     const onScroll = () => {
       const maxScroll = (timelineLengthVh / 100) * window.innerHeight;
       const raw = (window.scrollY / Math.max(1, maxScroll)) * timelineLengthVh;
-      const clamped = Math.min(Math.max(raw, 0), timelineLengthVh);
-      setTimelineCurrentVh(Number(clamped.toFixed(2)));
-      setTimelineProgress(clamped / timelineLengthVh);
+      targetVh = Math.min(Math.max(raw, 0), timelineLengthVh);
+      if (!frame) frame = requestAnimationFrame(tick);
+    };
+
+    // Settle onto the nearest snap marker once scrolling stops, as the exported page does
+    let snapTimer = 0;
+    const scheduleSnap = () => {
+      window.clearTimeout(snapTimer);
+      if (!timelineMarkersRef.current.some((marker) => marker.snap)) return;
+      snapTimer = window.setTimeout(() => {
+        const scrolledVh = (window.scrollY / window.innerHeight) * 100;
+        const snapVh = animationRuntime.getSnapTarget(timelineMarkersRef.current, scrolledVh, scrollSnapRef.current);
+        if (snapVh === null) return;
+        const top = (snapVh / 100) * window.innerHeight;
+        if (Math.abs(top - window.scrollY) > 1) window.scrollTo({ top, behavior: "smooth" });
+      }, scrollSnapRef.current.delayMs);
     };
 
+    // Breakpoints left on Auto match against the window, as on the exported page
+    const updateViewportSize = () => setViewportSize({ width: window.innerWidth, height: window.innerHeight });
+    updateViewportSize();
+
     window.scrollTo(0, 0);
     window.addEventListener("scroll", onScroll, { passive: true });
     window.addEventListener("resize", onScroll);
+    window.addEventListener("resize", updateViewportSize);
+    window.addEventListener("scroll", scheduleSnap, { passive: true });
 
     return () => {
+      cancelAnimationFrame(frame);
+      window.clearTimeout(snapTimer);
       window.removeEventListener("scroll", onScroll);
       window.removeEventListener("resize", onScroll);
+      window.removeEventListener("resize", updateViewportSize);
+      window.removeEventListener("scroll", scheduleSnap);
       document.body.style.height = prevBodyHeight;
       document.documentElement.style.overflow = prevHtmlOverflow;
       window.scrollTo(0, 0);
@@ -1215,12 +1936,26 @@ export function GlbViewer() {
   };
 
   const getLayerName = (layerId: string) => {
+    if (layerId === CAMERA_TRACK_ID) return "Camera";
+    if (layerId === DIRECTIONAL_LIGHT_TRACK_ID) return "Directional Light";
+    if (layerId.startsWith(MATERIAL_TRACK_PREFIX)) return layerId.slice(MATERIAL_TRACK_PREFIX.length);
+    if (layerId.startsWith(LIGHT_TRACK_PREFIX)) {
+      const index = pointLights.findIndex((light) => getLightTrackId(light.id) === layerId);
+      return index >= 0 ? `Point Light ${index + 1}` : "Point Light";
+    }
     const fromList = layerItems.find((layer) => layer.id === layerId)?.name;
     if (fromList) return fromList;
     const object = layerObjectMapRef.current.get(layerId);
     return object?.name?.trim() || "Layer";
   };
 
+  // A breakpoint's camera stands in for the pinned view while Preview shows it.
+  useEffect(() => {
+    if (!hasModel || isCameraAnimated()) return;
+    if (playbackCameraView) applyCameraView(playbackCameraView);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [previewOverride]);
+
   // Re-apply pinned camera view when it changes (e.g. after JSON load).
   // Using requestAnimationFrame ensures we run after Bounds' fit animation frame.
   useEffect(() => {
@@ -1242,6 +1977,14 @@ export function GlbViewer() {
 
   const layerMenuRef = useRef<HTMLDivElement | null>(null);
   const kfMenuRef = useRef<HTMLDivElement | null>(null);
+  const tangentTypingRef = useRef(false);
+  const pathProgressTypingRef = useRef(false);
+  const channelTypingRef = useRef(false);
+  const spinsTypingRef = useRef(false);
+  const modifierTypingRef = useRef(false);
+  const timedClipsRef = useRef<TimedClip[]>([]);
+  const timedClipTypingRef = useRef(false);
+  const constraintTypingRef = useRef(false);
 
   useEffect(() => {
     if (!layerContextMenu) return;
@@ -1276,6 +2019,65 @@ export function GlbViewer() {
     };
   }, [kfContextMenu]);
 
+  useEffect(() => {
+    if (!clipContextMenu) return;
+    const closeMenu = () => setClipContextMenu(null);
+    window.addEventListener("pointerdown", closeMenu);
+    window.addEventListener("scroll", closeMenu, true);
+    return () => {
+      window.removeEventListener("pointerdown", closeMenu);
+      window.removeEventListener("scroll", closeMenu, true);
+    };
+  }, [clipContextMenu]);
+
+  useEffect(() => {
+    if (!modifierMenu) return;
+    const closeMenu = () => setModifierMenu(null);
+    window.addEventListener("pointerdown", closeMenu);
+    window.addEventListener("scroll", closeMenu, true);
+    return () => {
+      window.removeEventListener("pointerdown", closeMenu);
+      window.removeEventListener("scroll", closeMenu, true);
+    };
+  }, [modifierMenu]);
+
+  useEffect(() => {
+    if (!markerMenu) return;
+    const closeMenu = () => setMarkerMenu(null);
+    window.addEventListener("pointerdown", closeMenu);
+    window.addEventListener("scroll", closeMenu, true);
+    return () => {
+      window.removeEventListener("pointerdown", closeMenu);
+      window.removeEventListener("scroll", closeMenu, true);
+    };
+  }, [markerMenu]);
+
+  useEffect(() => {
+    if (!timedClipMenu) return;
+    // Blurring first lets a field being typed in record its history entry
+    const closeMenu = () => {
+      (document.activeElement as HTMLElement)?.blur();
+      setTimedClipMenu(null);
+    };
+    window.addEventListener("pointerdown", closeMenu);
+    window.addEventListener("scroll", closeMenu, true);
+    return () => {
+      window.removeEventListener("pointerdown", closeMenu);
+      window.removeEventListener("scroll", closeMenu, true);
+    };
+  }, [timedClipMenu]);
+
+  useEffect(() => {
+    if (!sceneMenu) return;
+    const closeMenu = () => setSceneMenu(null);
+    window.addEventListener("pointerdown", closeMenu);
+    window.addEventListener("scroll", closeMenu, true);
+    return () => {
+      window.removeEventListener("pointerdown", closeMenu);
+      window.removeEventListener("scroll", closeMenu, true);
+    };
+  }, [sceneMenu]);
+
   useLayoutEffect(() => {
     const el = kfMenuRef.current;
     if (!el || !kfContextMenu) return;
@@ -1574,427 +2376,2762 @@ export function GlbViewer() {
     });
   };
 
-  const getTimelineRows = () => {
-    const visibleLayers = getVisibleLayerItems();
-    const rows: Array<
-      | { key: string; kind: "layer"; layer: LayerItem }
-      | { key: string; kind: "property"; layer: LayerItem; propertyId: string; label: string }
-    > = [];
-    visibleLayers.forEach((layer) => {
-      rows.push({ key: `layer-${layer.id}`, kind: "layer", layer });
-      if (timelineExpandedLayerIds.has(layer.id)) {
-        TIMELINE_PROPERTIES.forEach((property) => {
-          rows.push({
-            key: `prop-${layer.id}-${property.id}`,
-            kind: "property",
-            layer,
-            propertyId: property.id,
-            label: property.label,
-          });
-        });
-      }
-    });
-    return rows;
-  };
+  // Keyframe lane shared by every timeline row: background drag seeks / rubber-band
+  // selects, and property lanes (`propertyId` set) draw their keyframe markers.
+  const renderTrackLane = (layerId: string, propertyId: string | undefined, depth: number) => (
+    <div
+      {...(propertyId !== undefined
+        ? { "data-track-row-id": `${layerId}::${propertyId}` }
+        : { "data-track-layer-id": layerId })}
+      className={cn(
+        "relative",
+        propertyId === undefined
+          ? "h-8 bg-[linear-gradient(to_right,transparent_0,transparent_calc(25%-1px),rgba(148,163,184,0.2)_25%,transparent_calc(25%+1px),transparent_calc(50%-1px),rgba(148,163,184,0.2)_50%,transparent_calc(50%+1px),transparent_calc(75%-1px),rgba(148,163,184,0.2)_75%,transparent_calc(75%+1px),transparent_100%)]"
+          : "h-7 bg-[linear-gradient(to_right,transparent_0,transparent_calc(25%-1px),rgba(148,163,184,0.16)_25%,transparent_calc(25%+1px),transparent_calc(50%-1px),rgba(148,163,184,0.16)_50%,transparent_calc(50%+1px),transparent_calc(75%-1px),rgba(148,163,184,0.16)_75%,transparent_calc(75%+1px),transparent_100%)]"
+      )}
+      style={{
+        backgroundColor:
+          selectedLayerId === layerId
+            ? "hsl(var(--primary) / 0.08)"
+            : propertyId === undefined
+            ? `rgba(100, 116, 139, ${getDepthShade(depth) * 0.85})`
+            : `rgba(241, 245, 249, ${Math.max(0.12, getDepthShade(depth) * 0.22)})`,
+      }}
+      onPointerDown={(event) => {
+        if (event.button !== 0) return;
+        event.preventDefault();
+        (document.activeElement as HTMLElement)?.blur();
+        setIsPlaying(false);
+        const rect = event.currentTarget.getBoundingClientRect();
+        const ratio = THREE.MathUtils.clamp(
+          (event.clientX - rect.left) / Math.max(1, rect.width),
+          0,
+          1
+        );
+        const startVh = ratio * timelineLengthVh;
+        rubberBandRef.current = { startVh, startX: event.clientX, startY: event.clientY };
+        timelineSeekDragRef.current = true;
+        setTimelineSeekVh(snapKeyframeVhRef.current(startVh, event.shiftKey));
+      }}
+      onDragStart={(e) => e.preventDefault()}
+    >
+      {propertyId !== undefined
+        ? (() => {
+            const track = getTrack(layerId, propertyId);
+            if (!track || track.keyframes.length === 0) return null;
+            return track.keyframes.map((kf, idx) => {
+              const kfId = makeKfId(track.layerId, track.propertyId, kf.atVh);
+              const isSelected = selectedKfIds.has(kfId);
+              const isAtPlayhead = Number(kf.atVh.toFixed(2)) === Number(timelineCurrentVh.toFixed(2));
+              return (
+                <span
+                  key={`kf-${layerId}-${propertyId}-${idx}`}
+                  className="absolute top-1/2 h-2.5 w-2.5 -translate-y-1/2 -translate-x-1/2"
+                  style={{
+                    left: `${THREE.MathUtils.clamp(
+                      kf.atVh / Math.max(1, timelineLengthVh),
+                      0,
+                      1
+                    ) * 100}%`,
+                    zIndex: hoveredKfId === kfId ? 40 : isSelected ? 10 : undefined,
+                  }}
+                  onPointerEnter={() => setHoveredKfId(kfId)}
+                  onPointerLeave={() => setHoveredKfId(null)}
+                  onContextMenu={(event) => {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    // Include this keyframe plus any already-selected ones
+                    const ids = selectedKfIds.has(kfId)
+                      ? new Set(selectedKfIds)
+                      : new Set([kfId]);
+                    setKfContextMenu({ kfIds: ids, x: event.clientX, y: event.clientY });
+                  }}
+                  onPointerDown={(event) => {
+                    setHoveredKfId(null);
+                    event.stopPropagation();
+                    event.preventDefault();
+                    (document.activeElement as HTMLElement)?.blur();
+                    let nextSelected: Set<string>;
+                    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+                      // Toggle this keyframe in/out of the selection
+                      nextSelected = new Set(selectedKfIds);
+                      if (nextSelected.has(kfId)) nextSelected.delete(kfId);
+                      else nextSelected.add(kfId);
+                    } else if (selectedKfIds.has(kfId)) {
+                      // Clicking an already-selected keyframe preserves the
+                      // full selection so a drag will move all of them
+                      nextSelected = new Set(selectedKfIds);
+                    } else {
+                      // Clicking an unselected keyframe replaces selection
+                      nextSelected = new Set([kfId]);
+                    }
+                    setSelectedKfIds(nextSelected);
+                    // Start retime drag with snapshot of all selected
+                    const snapshot: { id: string; layerId: string; propertyId: string; origAtVh: number }[] = [];
+                    for (const t of animationTracksRef.current) {
+                      for (const k of t.keyframes) {
+                        const kid = makeKfId(t.layerId, t.propertyId, k.atVh);
+                        if (nextSelected.has(kid)) {
+                          snapshot.push({ id: kid, layerId: t.layerId, propertyId: t.propertyId, origAtVh: k.atVh });
+                        }
+                      }
+                    }
+                    retimeDragRef.current = {
+                      startX: event.clientX,
+                      snapshot,
+                      baselineTracks: animationTracksRef.current.map((t) => ({
+                        ...t,
+                        keyframes: [...t.keyframes],
+                      })),
+                      latestTracks: animationTracksRef.current,
+                    };
+                  }}
+                >
+                  {/* Visual diamond */}
+                  <span className={cn(
+                    "absolute inset-0 border",
+                    // hold = square, bezier = circle, eased = diamond
+                    kf.interpolation === "hold"
+                      ? ""
+                      : kf.interpolation === "bezier"
+                        ? "rounded-full"
+                        : "rotate-45",
+                    isSelected
+                      ? "border-primary bg-primary/60"
+                      : isAtPlayhead
+                        ? "border-primary bg-primary"
+                        : "border-muted-foreground/70 bg-background/95"
+                  )} />
+                  {/* Non-linear easing dot */}
+                  {!kf.interpolation && kf.easing && kf.easing !== "linear" && (
+                    <span
+                      className="pointer-events-none absolute rounded-full bg-amber-400"
+                      style={{ width: 4, height: 4, bottom: -5, left: "50%", transform: "translateX(-50%)" }}
+                    />
+                  )}
+                  {/* Hover tooltip */}
+                  {hoveredKfId === kfId && (
+                    <div className="pointer-events-none absolute bottom-full left-1/2 z-50 mb-2 -translate-x-1/2 whitespace-nowrap rounded border border-border bg-card px-2 py-1 text-[11px] shadow-md">
+                      <span className="font-mono text-foreground">{kf.atVh.toFixed(2)} vh</span>
+                      <span className="mx-1 text-border">·</span>
+                      <span className="font-mono text-foreground">
+                        {kf.rotation
+                          ? `${kf.rotation.map((v) => Number(v.toFixed(2))).join("°, ")}°${kf.spins ? ` +${kf.spins} turns` : ""}`
+                          : Number(kf.value.toFixed(4))}
+                      </span>
+                      <span className="mx-1 text-border">·</span>
+                      <span className="text-muted-foreground">{describeEasing(kf)}</span>
+                    </div>
+                  )}
+                </span>
+              );
+            });
+          })()
+        : null}
+      <span
+        className="pointer-events-none absolute bottom-0 top-0 w-[2px] bg-primary"
+        style={{ left: `${Math.max(0, Math.min(1, timelineProgress)) * 100}%` }}
+      />
+      {retimeIndicatorVh !== null && (
+        <span
+          className="pointer-events-none absolute bottom-0 top-0 w-px bg-amber-400/80"
+          style={{ left: `${THREE.MathUtils.clamp(retimeIndicatorVh / Math.max(1, timelineLengthVh), 0, 1) * 100}%` }}
+        />
+      )}
+    </div>
+  );
 
-  const getTrackIndex = (layerId: string, propertyId: string) =>
-    animationTracks.findIndex(
-      (track) => track.layerId === layerId && track.propertyId === propertyId
+  // "Camera" group pinned above the layers; its tracks are keyed from the orbit view
+  // (Pin View at playhead) rather than edited as numbers.
+  const renderCameraRows = () => {
+    const expanded = timelineExpandedLayerIds.has(CAMERA_TRACK_ID);
+    const hasCameraKeyframes = animationTracks.some(
+      (track) => track.layerId === CAMERA_TRACK_ID && track.keyframes.length > 0
+    );
+    const view = getCameraViewAtVh(timelineCurrentVh) ?? DEFAULT_CAMERA_VIEW;
+    return (
+      <>
+        <div className="grid grid-cols-[320px_12px_1fr] border-b">
+          <div
+            className="sticky left-0 z-20 flex h-8 items-center gap-1 border-r bg-card px-2 text-xs"
+            style={{ backgroundColor: `rgba(100, 116, 139, ${getDepthShade(0)})` }}
+          >
+            <span className="inline-block h-6 w-6" />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                setTimelineExpandedLayerIds((prev) => {
+                  const next = new Set(prev);
+                  if (next.has(CAMERA_TRACK_ID)) next.delete(CAMERA_TRACK_ID);
+                  else next.add(CAMERA_TRACK_ID);
+                  return next;
+                })
+              }
+            >
+              {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </Button>
+            {hasCameraKeyframes ? (
+              <span className="inline-block h-2 w-2 shrink-0 rotate-45 bg-amber-400/80" title="Has keyframes" />
+            ) : (
+              <span className="inline-block h-2 w-2 shrink-0" />
+            )}
+            <Camera className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="min-w-0 flex-1 truncate">Camera</span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={pinCameraViewAtPlayhead}
+              title="Pin View at playhead"
+            >
+              <Pin className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="border-r border-border/40 bg-muted/50" />
+          {renderTrackLane(CAMERA_TRACK_ID, undefined, 0)}
+        </div>
+        {expanded
+          ? CAMERA_PROPERTIES.map((property) => {
+              const enabled = hasTrackKeyframes(CAMERA_TRACK_ID, property.id);
+              return (
+                <div key={property.id} className="grid grid-cols-[320px_12px_1fr] border-b">
+                  <div
+                    className="sticky left-0 z-20 flex h-7 min-w-0 items-center gap-1 border-r bg-card px-2 text-[11px] text-muted-foreground"
+                    style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.18, getDepthShade(0) * 0.28)})` }}
+                  >
+                    <span className="inline-block w-6 shrink-0" />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 shrink-0 p-0"
+                      onClick={() => toggleCameraTrack(property.id, !enabled)}
+                      title={enabled ? "Disable animation (remove keyframes)" : "Enable animation"}
+                    >
+                      <Clock3 className={cn("h-3.5 w-3.5", enabled ? "text-primary" : "text-muted-foreground")} />
+                    </Button>
+                    <span className="ml-2.5 min-w-0 flex-1 truncate">{property.label}</span>
+                    {renderModifierBadges(CAMERA_TRACK_ID, property.id)}
+                    <div className="flex w-[54px] shrink-0 items-center justify-end gap-0.5">
+                      {enabled ? (
+                        <>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-4 w-4 p-0"
+                            onClick={() => navigateTrackKeyframe(CAMERA_TRACK_ID, property.id, "prev")}
+                            title="Previous keyframe"
+                          >
+                            <ChevronLeft className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-4 w-4 p-0"
+                            onClick={pinCameraViewAtPlayhead}
+                            title="Pin View at playhead"
+                          >
+                            <Diamond
+                              className={cn(
+                                "h-2.5 w-2.5 rotate-45",
+                                hasKeyframeAtCurrentTime(CAMERA_TRACK_ID, property.id)
+                                  ? "fill-primary text-primary"
+                                  : "text-muted-foreground"
+                              )}
+                            />
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-4 w-4 p-0"
+                            onClick={() => navigateTrackKeyframe(CAMERA_TRACK_ID, property.id, "next")}
+                            title="Next keyframe"
+                          >
+                            <ChevronRight className="h-3 w-3" />
+                          </Button>
+                        </>
+                      ) : null}
+                    </div>
+                    {property.id === CAMERA_PATH_PROGRESS_ID ? (
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={Number(getCameraViewChannel(view, property.id).toFixed(3))}
+                        onChange={(event) => {
+                          const parsed = Number(event.target.value);
+                          if (Number.isNaN(parsed)) return;
+                          pathProgressTypingRef.current = true;
+                          setCameraPathProgressAtPlayhead(parsed, false);
+                        }}
+                        onBlur={() => {
+                          if (!pathProgressTypingRef.current) return;
+                          pathProgressTypingRef.current = false;
+                          pushHistory("Set keyframe", animationTracksRef.current);
+                        }}
+                        className="h-6 w-24 shrink-0 text-[11px]"
+                        title={cameraPath ? "Position along the camera path (0–1)" : "Enable a camera path in Customize"}
+                      />
+                    ) : (
+                      <span className="w-24 shrink-0 text-right font-mono text-foreground">
+                        {Number(getCameraViewChannel(view, property.id).toFixed(3))}
+                      </span>
+                    )}
+                  </div>
+                  <div className="border-r border-border/40 bg-muted/50" />
+                  {renderTrackLane(CAMERA_TRACK_ID, property.id, 0)}
+                </div>
+              );
+            })
+          : null}
+      </>
     );
-
-  const getTrack = (layerId: string, propertyId: string) => {
-    const index = getTrackIndex(layerId, propertyId);
-    if (index < 0) return null;
-    return animationTracks[index];
   };
 
-  const makeKfId = (layerId: string, propertyId: string, atVh: number) =>
-    `${layerId}::${propertyId}::${atVh.toFixed(2)}`;
-
-  snapKeyframeVhRef.current = (rawVh: number, shiftKey: boolean): number => {
-    if (!shiftKey) return rawVh;
-    const SNAP_THRESHOLD = timelineLengthVh * 0.03;
-    let best = rawVh;
-    let bestDist = SNAP_THRESHOLD;
-    for (const track of animationTracks) {
-      for (const kf of track.keyframes) {
-        const dist = Math.abs(kf.atVh - rawVh);
-        if (dist < bestDist) { bestDist = dist; best = kf.atVh; }
-      }
-    }
-    return best;
+  // Timeline group for light and material tracks: channels are typed at the playhead,
+  // `setValues` returns whether the edit produced keyframes (history on blur).
+  const renderChannelGroupRows = (group: ChannelGroup) => {
+    const { trackId } = group;
+    const expanded = timelineExpandedLayerIds.has(trackId);
+    const hasGroupKeyframes = animationTracks.some((track) => track.layerId === trackId && track.keyframes.length > 0);
+    const commitChannelEdit = () => {
+      if (!channelTypingRef.current) return;
+      channelTypingRef.current = false;
+      pushHistory("Set keyframe", animationTracksRef.current);
+    };
+    return (
+      <div key={trackId}>
+        <div className="grid grid-cols-[320px_12px_1fr] border-b">
+          <div
+            className="sticky left-0 z-20 flex h-8 items-center gap-1 border-r bg-card px-2 text-xs"
+            style={{ backgroundColor: `rgba(100, 116, 139, ${getDepthShade(0)})` }}
+          >
+            <span className="inline-block h-6 w-6" />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                setTimelineExpandedLayerIds((prev) => {
+                  const next = new Set(prev);
+                  if (next.has(trackId)) next.delete(trackId);
+                  else next.add(trackId);
+                  return next;
+                })
+              }
+            >
+              {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </Button>
+            {hasGroupKeyframes ? (
+              <span className="inline-block h-2 w-2 shrink-0 rotate-45 bg-amber-400/80" title="Has keyframes" />
+            ) : (
+              <span className="inline-block h-2 w-2 shrink-0" />
+            )}
+            <group.icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="min-w-0 flex-1 truncate">{getLayerName(trackId)}</span>
+            {group.swatches.map((swatch) => (
+              <input
+                key={swatch.title}
+                type="color"
+                value={swatch.value}
+                onChange={(event) => {
+                  if (swatch.onChange(event.target.value)) channelTypingRef.current = true;
+                }}
+                onBlur={commitChannelEdit}
+                className="h-5 w-8 shrink-0 cursor-pointer rounded border border-border bg-transparent"
+                title={swatch.title}
+              />
+            ))}
+            {group.onRemove ? (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={group.onRemove}
+                title="Remove from timeline"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            ) : null}
+          </div>
+          <div className="border-r border-border/40 bg-muted/50" />
+          {renderTrackLane(trackId, undefined, 0)}
+        </div>
+        {expanded
+          ? group.properties.map((property) => {
+              const enabled = hasTrackKeyframes(trackId, property.id);
+              return (
+                <div key={property.id} className="grid grid-cols-[320px_12px_1fr] border-b">
+                  <div
+                    className="sticky left-0 z-20 flex h-7 min-w-0 items-center gap-1 border-r bg-card px-2 text-[11px] text-muted-foreground"
+                    style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.18, getDepthShade(0) * 0.28)})` }}
+                  >
+                    <span className="inline-block w-6 shrink-0" />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 shrink-0 p-0"
+                      onClick={() => group.toggleChannel(property.id, !enabled)}
+                      title={enabled ? "Disable animation (remove keyframes)" : "Enable animation"}
+                    >
+                      <Clock3 className={cn("h-3.5 w-3.5", enabled ? "text-primary" : "text-muted-foreground")} />
+                    </Button>
+                    <span className="ml-2.5 min-w-0 flex-1 truncate">{property.label}</span>
+                    {renderModifierBadges(trackId, property.id)}
+                    <div className="flex w-[54px] shrink-0 items-center justify-end gap-0.5">
+                      {enabled ? (
+                        <>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-4 w-4 p-0"
+                            onClick={() => navigateTrackKeyframe(trackId, property.id, "prev")}
+                            title="Previous keyframe"
+                          >
+                            <ChevronLeft className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-4 w-4 p-0"
+                            onClick={() => group.keyChannel(property.id)}
+                            title="Set keyframe at playhead"
+                          >
+                            <Diamond
+                              className={cn(
+                                "h-2.5 w-2.5 rotate-45",
+                                hasKeyframeAtCurrentTime(trackId, property.id)
+                                  ? "fill-primary text-primary"
+                                  : "text-muted-foreground"
+                              )}
+                            />
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-4 w-4 p-0"
+                            onClick={() => navigateTrackKeyframe(trackId, property.id, "next")}
+                            title="Next keyframe"
+                          >
+                            <ChevronRight className="h-3 w-3" />
+                          </Button>
+                        </>
+                      ) : null}
+                    </div>
+                    <Input
+                      type="number"
+                      step={property.step}
+                      value={Number(group.getValue(property.id).toFixed(3))}
+                      onChange={(event) => {
+                        const parsed = Number(event.target.value);
+                        if (Number.isNaN(parsed)) return;
+                        if (group.setValues([{ propertyId: property.id, value: parsed }], false)) {
+                          channelTypingRef.current = true;
+                        }
+                      }}
+                      onBlur={commitChannelEdit}
+                      className="h-6 w-24 shrink-0 text-[11px]"
+                    />
+                  </div>
+                  <div className="border-r border-border/40 bg-muted/50" />
+                  {renderTrackLane(trackId, property.id, 0)}
+                </div>
+              );
+            })
+          : null}
+      </div>
+    );
   };
 
-  const evaluateTrackAtVh = (track: AnimationTrack, atVh: number): number => {
-    const kfs = track.keyframes;
-    if (kfs.length === 0) return 0;
-    if (kfs.length === 1 || atVh <= kfs[0].atVh) return kfs[0].value;
-    if (atVh >= kfs[kfs.length - 1].atVh) return kfs[kfs.length - 1].value;
-    for (let i = 0; i < kfs.length - 1; i++) {
-      if (kfs[i].atVh <= atVh && kfs[i + 1].atVh >= atVh) {
-        const raw = (atVh - kfs[i].atVh) / Math.max(1e-9, kfs[i + 1].atVh - kfs[i].atVh);
-        const t = applyEasing(raw, kfs[i].easing ?? "linear");
-        return kfs[i].value + t * (kfs[i + 1].value - kfs[i].value);
-      }
-    }
-    return kfs[kfs.length - 1].value;
+  // One group per active light below the Camera; unanimated channels edit the light itself.
+  const renderLightRows = () => {
+    const lights = [
+      ...(settings.useDirectionalLight
+        ? [{ trackId: DIRECTIONAL_LIGHT_TRACK_ID, base: getDirectionalLightBase(settings), properties: DIRECTIONAL_LIGHT_PROPERTIES }]
+        : []),
+      ...pointLights
+        .filter((light) => light.enabled)
+        .map((light) => ({ trackId: getLightTrackId(light.id), base: getPointLightBase(light), properties: LIGHT_PROPERTIES })),
+    ];
+    return lights.map(({ trackId, base, properties }) => {
+      const state = getLightStateAtVh(trackId, base, timelineCurrentVh);
+      return renderChannelGroupRows({
+        trackId,
+        icon: Lightbulb,
+        properties,
+        getValue: (propertyId) => getLightStateChannel(state, propertyId),
+        setValues: (values, commit) => setLightChannelsAtPlayhead(trackId, values, commit),
+        keyChannel: (propertyId) => keyLightChannelAtPlayhead(trackId, propertyId),
+        toggleChannel: (propertyId, enabled) => toggleLightTrack(trackId, propertyId, enabled),
+        swatches: [
+          {
+            title: "Light color at playhead",
+            value: rgbToHex(state.color),
+            onChange: (hex) => {
+              const rgb = hexToRgb(hex);
+              return setLightChannelsAtPlayhead(
+                trackId,
+                LIGHT_COLOR_IDS.map((propertyId, index) => ({ propertyId, value: rgb[index] })),
+                false
+              );
+            },
+          },
+        ],
+      });
+    });
   };
 
-  const setTimelineSeekVh = useCallback((value: number) => {
-    const next = THREE.MathUtils.clamp(value, 0, timelineLengthVh);
-    setTimelineCurrentVh(Number(next.toFixed(2)));
-    setTimelineProgress(THREE.MathUtils.clamp(next / Math.max(1, timelineLengthVh), 0, 1));
-  }, [timelineLengthVh]);
+  const renderMaterialRows = () =>
+    getMaterialGroupNames().map((name) => {
+      const trackId = getMaterialTrackId(name);
+      const base = getMaterialBaseByName(name);
+      if (!base) return null;
+      const state = getMaterialStateAtVh(trackId, base, timelineCurrentVh);
+      const setColor = (ids: string[], hex: string) => {
+        const lab = hexToOklab(hex);
+        return setMaterialChannelsAtPlayhead(
+          trackId,
+          ids.map((propertyId, index) => ({ propertyId, value: lab[index] })),
+          false
+        );
+      };
+      return renderChannelGroupRows({
+        trackId,
+        icon: Circle,
+        properties: MATERIAL_PROPERTIES,
+        getValue: (propertyId) => getMaterialStateChannel(state, propertyId),
+        setValues: (values, commit) => setMaterialChannelsAtPlayhead(trackId, values, commit),
+        keyChannel: (propertyId) =>
+          setMaterialChannelsAtPlayhead(trackId, [{ propertyId, value: getMaterialStateChannel(state, propertyId) }], true),
+        toggleChannel: (propertyId, enabled) => toggleMaterialTrack(trackId, propertyId, enabled),
+        swatches: [
+          { title: "Base color at playhead", value: oklabToHex(state.color), onChange: (hex) => setColor(MATERIAL_COLOR_IDS, hex) },
+          {
+            title: "Emissive color at playhead",
+            value: oklabToHex(state.emissive),
+            onChange: (hex) => setColor(MATERIAL_EMISSIVE_IDS, hex),
+          },
+        ],
+        onRemove: () => removeMaterialGroup(name),
+      });
+    });
 
-  const stepVhBackward = useCallback(() => {
+  // Embedded GLB clips: the clock binds a clip to the timeline, the bar sets its vh range
+  // (drag to move, edges to resize, right-click for in/out, speed and direction).
+  const renderClipRows = () => {
+    if (modelClips.length === 0) return null;
+    const expanded = timelineExpandedLayerIds.has(CLIPS_GROUP_ID);
+    const laneLength = Math.max(1, timelineLengthVh);
+    return (
+      <>
+        <div className="grid grid-cols-[320px_12px_1fr] border-b">
+          <div
+            className="sticky left-0 z-20 flex h-8 items-center gap-1 border-r bg-card px-2 text-xs"
+            style={{ backgroundColor: `rgba(100, 116, 139, ${getDepthShade(0)})` }}
+          >
+            <span className="inline-block h-6 w-6" />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                setTimelineExpandedLayerIds((prev) => {
+                  const next = new Set(prev);
+                  if (next.has(CLIPS_GROUP_ID)) next.delete(CLIPS_GROUP_ID);
+                  else next.add(CLIPS_GROUP_ID);
+                  return next;
+                })
+              }
+            >
+              {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </Button>
+            <span className="inline-block h-2 w-2 shrink-0" />
+            <Film className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="min-w-0 flex-1 truncate">Clips</span>
+            <span className="shrink-0 pr-1 text-[11px] text-muted-foreground">
+              {clipBindings.length}/{modelClips.length} bound
+            </span>
+          </div>
+          <div className="border-r border-border/40 bg-muted/50" />
+          {renderTrackLane(CLIPS_GROUP_ID, undefined, 0)}
+        </div>
+        {expanded
+          ? modelClips.map((clip) => {
+              const binding = clipBindings.find((b) => b.clipName === clip.name) ?? null;
+              return (
+                <div key={clip.uuid} className="grid grid-cols-[320px_12px_1fr] border-b">
+                  <div
+                    className="sticky left-0 z-20 flex h-7 min-w-0 items-center gap-1 border-r bg-card px-2 text-[11px] text-muted-foreground"
+                    style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.18, getDepthShade(0) * 0.28)})` }}
+                  >
+                    <span className="inline-block w-6 shrink-0" />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 shrink-0 p-0"
+                      onClick={() => toggleClipBinding(clip, !binding)}
+                      title={binding ? "Unbind clip from the timeline" : "Scrub clip with the timeline"}
+                    >
+                      <Clock3 className={cn("h-3.5 w-3.5", binding ? "text-primary" : "text-muted-foreground")} />
+                    </Button>
+                    <span className="ml-2.5 min-w-0 flex-1 truncate" title={clip.name}>
+                      {clip.name}
+                    </span>
+                    <span className="w-24 shrink-0 text-right font-mono text-foreground">
+                      {binding
+                        ? `${Number(animationRuntime.getClipTime(binding, timelineCurrentVh).toFixed(2))}s`
+                        : `${Number(clip.duration.toFixed(2))}s`}
+                    </span>
+                  </div>
+                  <div className="border-r border-border/40 bg-muted/50" />
+                  <div
+                    data-clip-lane
+                    className="relative h-7"
+                    style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.12, getDepthShade(0) * 0.22)})` }}
+                    onPointerDown={(event) => {
+                      if (event.button !== 0) return;
+                      event.preventDefault();
+                      (document.activeElement as HTMLElement)?.blur();
+                      setIsPlaying(false);
+                      const rect = event.currentTarget.getBoundingClientRect();
+                      const ratio = THREE.MathUtils.clamp((event.clientX - rect.left) / Math.max(1, rect.width), 0, 1);
+                      timelineSeekDragRef.current = true;
+                      setTimelineSeekVh(ratio * timelineLengthVh);
+                    }}
+                    onDragStart={(e) => e.preventDefault()}
+                  >
+                    {binding ? (
+                      <div
+                        className="absolute inset-y-1 flex cursor-grab items-center overflow-hidden rounded border border-sky-400/70 bg-sky-500/30 active:cursor-grabbing"
+                        style={{
+                          left: `${(binding.startVh / laneLength) * 100}%`,
+                          width: `${((binding.endVh - binding.startVh) / laneLength) * 100}%`,
+                        }}
+                        onPointerDown={(event) => startClipBarDrag(event, binding, "move")}
+                        onContextMenu={(event) => {
+                          event.preventDefault();
+                          event.stopPropagation();
+                          setClipContextMenu({ clipName: clip.name, x: event.clientX, y: event.clientY });
+                        }}
+                        title={`${binding.startVh}–${binding.endVh} vh → ${binding.clipIn}–${binding.clipOut}s`}
+                      >
+                        <span
+                          className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-sky-400/60"
+                          onPointerDown={(event) => startClipBarDrag(event, binding, "start")}
+                        />
+                        <span className="pointer-events-none min-w-0 truncate px-2.5 text-[10px] text-foreground">
+                          {clip.name}
+                          {binding.speed !== 1 ? ` ×${binding.speed}` : ""}
+                          {binding.reverse ? " · reversed" : ""}
+                        </span>
+                        <span
+                          className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-sky-400/60"
+                          onPointerDown={(event) => startClipBarDrag(event, binding, "end")}
+                        />
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              );
+            })
+          : null}
+      </>
+    );
+  };
+
+  const getTimedClipTrackLabel = (track: TimedClipTrack) => {
+    const targetLabel = isMaterialChannel(track.propertyId) ? track.target : getLayerName(track.target);
+    const propertyLabel =
+      MATERIAL_PROPERTIES.find((property) => property.id === track.propertyId)?.label ??
+      getTrackPropertyLabel(track.propertyId);
+    return `${targetLabel} · ${propertyLabel}`;
+  };
+
+  // Timed clips: each row's flag sits at the clip's trigger (drag to move it, click to edit
+  // the clip). What a clip plays runs in seconds, so its expanded track lanes span the
+  // clip's duration rather than the scroll timeline; double-click a lane to key it.
+  const renderTimedClipRows = () => {
+    const expanded = timelineExpandedLayerIds.has(TIMED_CLIPS_GROUP_ID);
+    const laneLength = Math.max(1, timelineLengthVh);
+    return (
+      <>
+        <div className="grid grid-cols-[320px_12px_1fr] border-b">
+          <div
+            className="sticky left-0 z-20 flex h-8 items-center gap-1 border-r bg-card px-2 text-xs"
+            style={{ backgroundColor: `rgba(100, 116, 139, ${getDepthShade(0)})` }}
+          >
+            <span className="inline-block h-6 w-6" />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                setTimelineExpandedLayerIds((prev) => {
+                  const next = new Set(prev);
+                  if (next.has(TIMED_CLIPS_GROUP_ID)) next.delete(TIMED_CLIPS_GROUP_ID);
+                  else next.add(TIMED_CLIPS_GROUP_ID);
+                  return next;
+                })
+              }
+            >
+              {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </Button>
+            <span className="inline-block h-2 w-2 shrink-0" />
+            <Timer className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="min-w-0 flex-1 truncate">Timed clips</span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 shrink-0 p-0"
+              onClick={addTimedClipAtPlayhead}
+              title="Add a timed clip triggered at the playhead"
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="border-r border-border/40 bg-muted/50" />
+          {renderTrackLane(TIMED_CLIPS_GROUP_ID, undefined, 0)}
+        </div>
+        {expanded
+          ? timedClips.map((clip) => {
+              const modeLabel = TIMED_CLIP_MODES.find((entry) => entry.mode === clip.mode)?.label ?? clip.mode;
+              const clipKey = `timed:${clip.id}`;
+              const clipExpanded = timelineExpandedLayerIds.has(clipKey);
+              return (
+                <div key={clip.id}>
+                  <div className="grid grid-cols-[320px_12px_1fr] border-b">
+                    <div
+                      className="sticky left-0 z-20 flex h-7 min-w-0 items-center gap-1 border-r bg-card px-2 text-[11px] text-muted-foreground"
+                      style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.18, getDepthShade(0) * 0.28)})` }}
+                    >
+                      <span className="inline-block w-6 shrink-0" />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 shrink-0 p-0"
+                        disabled={clip.tracks.length === 0}
+                        onClick={() =>
+                          setTimelineExpandedLayerIds((prev) => {
+                            const next = new Set(prev);
+                            if (next.has(clipKey)) next.delete(clipKey);
+                            else next.add(clipKey);
+                            return next;
+                          })
+                        }
+                      >
+                        {clipExpanded && clip.tracks.length > 0 ? (
+                          <ChevronDown className="h-3.5 w-3.5" />
+                        ) : (
+                          <ChevronRight className="h-3.5 w-3.5" />
+                        )}
+                      </Button>
+                      <span className="min-w-0 flex-1 truncate" title={clip.name}>
+                        {clip.name}
+                      </span>
+                      <span className="w-32 shrink-0 truncate text-right font-mono text-foreground">
+                        {Number(clip.durationS.toFixed(2))}s · {modeLabel}
+                      </span>
+                    </div>
+                    <div className="border-r border-border/40 bg-muted/50" />
+                    <div
+                      data-clip-lane
+                      className="relative h-7"
+                      style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.12, getDepthShade(0) * 0.22)})` }}
+                      onPointerDown={(event) => {
+                        if (event.button !== 0) return;
+                        event.preventDefault();
+                        (document.activeElement as HTMLElement)?.blur();
+                        setIsPlaying(false);
+                        const rect = event.currentTarget.getBoundingClientRect();
+                        const ratio = THREE.MathUtils.clamp((event.clientX - rect.left) / Math.max(1, rect.width), 0, 1);
+                        timelineSeekDragRef.current = true;
+                        setTimelineSeekVh(ratio * timelineLengthVh);
+                      }}
+                      onDragStart={(e) => e.preventDefault()}
+                    >
+                      <div
+                        className="absolute inset-y-1 flex max-w-[40%] cursor-grab items-center gap-1 overflow-hidden rounded-r border-l-2 border-amber-400 bg-amber-500/25 pl-1 pr-2 active:cursor-grabbing"
+                        style={{ left: `${(clip.triggerVh / laneLength) * 100}%` }}
+                        onPointerDown={(event) => startTimedClipDrag(event, clip)}
+                        title={`Starts at ${clip.triggerVh} vh · ${clip.durationS}s · ${modeLabel}`}
+                      >
+                        <Play className="h-2.5 w-2.5 shrink-0 text-amber-500" />
+                        <span className="pointer-events-none min-w-0 truncate text-[10px] text-foreground">
+                          {clip.name}
+                          {clip.tracks.length === 0 ? " · no tracks" : ""}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                  {clipExpanded
+                    ? clip.tracks.map((track, trackIndex) => {
+                        const selectedIndex =
+                          timedClipSelection?.clipId === clip.id && timedClipSelection.trackIndex === trackIndex
+                            ? timedClipSelection.keyframeIndex
+                            : -1;
+                        const selectedKeyframe = selectedIndex >= 0 ? track.keyframes[selectedIndex] : undefined;
+                        const duration = Math.max(0.01, clip.durationS);
+                        return (
+                          <div key={`${track.target}|${track.propertyId}`} className="grid grid-cols-[320px_12px_1fr] border-b">
+                            <div
+                              className="sticky left-0 z-20 flex h-7 min-w-0 items-center gap-1 border-r bg-card px-2 text-[11px] text-muted-foreground"
+                              style={{ backgroundColor: `rgba(241, 245, 249, ${Math.max(0.12, getDepthShade(1) * 0.22)})` }}
+                            >
+                              <span className="inline-block w-6 shrink-0" />
+                              <span className="ml-7 min-w-0 flex-1 truncate" title={getTimedClipTrackLabel(track)}>
+                                {getTimedClipTrackLabel(track)}
+                              </span>
+                              {selectedKeyframe ? (
+                                <>
+                                  <span className="shrink-0 font-mono text-foreground">
+                                    {Number(selectedKeyframe.atVh.toFixed(2))}s
+                                  </span>
+                                  <Input
+                                    type="number"
+                                    step={0.01}
+                                    value={selectedKeyframe.value}
+                                    onChange={(event) => {
+                                      const parsed = Number(event.target.value);
+                                      if (event.target.value === "" || Number.isNaN(parsed)) return;
+                                      timedClipTypingRef.current = true;
+                                      updateTimedClipKeyframe(clip.id, trackIndex, selectedIndex, { value: parsed });
+                                    }}
+                                    onBlur={commitTimedClipTyping}
+                                    className="h-6 w-20 shrink-0 px-1 text-[11px]"
+                                    title="Value"
+                                  />
+                                </>
+                              ) : null}
+                            </div>
+                            <div className="border-r border-border/40 bg-muted/50" />
+                            <div
+                              data-clip-lane
+                              className="relative h-7"
+                              style={{
+                                backgroundColor: `rgba(241, 245, 249, ${Math.max(0.12, getDepthShade(1) * 0.22)})`,
+                                backgroundImage: "linear-gradient(to right, rgba(148, 163, 184, 0.2) 1px, transparent 1px)",
+                                backgroundSize: `${Math.min(100, 100 / duration)}% 100%`,
+                              }}
+                              onPointerDown={(event) => {
+                                if (event.button !== 0) return;
+                                event.preventDefault();
+                                (document.activeElement as HTMLElement)?.blur();
+                                setTimedClipSelection(null);
+                              }}
+                              onDoubleClick={(event) => {
+                                const rect = event.currentTarget.getBoundingClientRect();
+                                const ratio = THREE.MathUtils.clamp((event.clientX - rect.left) / Math.max(1, rect.width), 0, 1);
+                                addTimedClipKeyframe(clip.id, trackIndex, ratio * clip.durationS);
+                              }}
+                              onDragStart={(e) => e.preventDefault()}
+                            >
+                              <span className="pointer-events-none absolute bottom-0 left-1 text-[9px] text-muted-foreground">0s</span>
+                              <span className="pointer-events-none absolute bottom-0 right-1 text-[9px] text-muted-foreground">
+                                {Number(clip.durationS.toFixed(2))}s
+                              </span>
+                              {track.keyframes.map((kf, keyframeIndex) => (
+                                <span
+                                  key={keyframeIndex}
+                                  className="absolute top-1/2 h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 cursor-ew-resize"
+                                  style={{
+                                    left: `${THREE.MathUtils.clamp(kf.atVh / duration, 0, 1) * 100}%`,
+                                    zIndex: keyframeIndex === selectedIndex ? 10 : undefined,
+                                  }}
+                                  onPointerDown={(event) => startTimedClipKeyframeDrag(event, clip, trackIndex, keyframeIndex)}
+                                  onDoubleClick={(event) => event.stopPropagation()}
+                                  title={`${Number(kf.atVh.toFixed(2))}s · ${Number(kf.value.toFixed(4))} · ${describeEasing(kf)}`}
+                                >
+                                  <span
+                                    className={cn(
+                                      "absolute inset-0 rotate-45 border",
+                                      keyframeIndex === selectedIndex
+                                        ? "border-amber-500 bg-amber-400"
+                                        : "border-amber-500/80 bg-background/95"
+                                    )}
+                                  />
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })
+                    : null}
+                </div>
+              );
+            })
+          : null}
+      </>
+    );
+  };
+
+  const getTimelineRows = () => {
+    const visibleLayers = getVisibleLayerItems();
+    const rows: Array<
+      | { key: string; kind: "layer"; layer: LayerItem }
+      | { key: string; kind: "property"; layer: LayerItem; propertyId: string; label: string }
+    > = [];
+    visibleLayers.forEach((layer) => {
+      rows.push({ key: `layer-${layer.id}`, kind: "layer", layer });
+      if (timelineExpandedLayerIds.has(layer.id)) {
+        (isBoneLayer(layer) ? BONE_TIMELINE_PROPERTIES : TIMELINE_PROPERTIES).forEach((property) => {
+          rows.push({
+            key: `prop-${layer.id}-${property.id}`,
+            kind: "property",
+            layer,
+            propertyId: property.id,
+            label: property.label,
+          });
+        });
+        Object.keys(layer.morphWeights).forEach((name) => {
+          const propertyId = getMorphPropertyId(name);
+          rows.push({ key: `prop-${layer.id}-${propertyId}`, kind: "property", layer, propertyId, label: `Morph: ${name}` });
+        });
+        layerConstraints.forEach((constraint) => {
+          if (constraint.layerId !== layer.id) return;
+          const label = LAYER_CONSTRAINT_TYPES.find((entry) => entry.type === constraint.type)?.label ?? constraint.type;
+          const channels = constraint.type === "followPath" ? (["influence", "progress"] as const) : (["influence"] as const);
+          channels.forEach((channel) => {
+            const propertyId = getConstraintPropertyId(constraint.id, channel);
+            rows.push({
+              key: `prop-${layer.id}-${propertyId}`,
+              kind: "property",
+              layer,
+              propertyId,
+              label: `${label}: ${channel === "progress" ? "Progress" : "Influence"}`,
+            });
+          });
+        });
+      }
+    });
+    return rows;
+  };
+
+  const getTrackIndex = (layerId: string, propertyId: string) =>
+    animationTracks.findIndex(
+      (track) => track.layerId === layerId && track.propertyId === propertyId
+    );
+
+  const getTrack = (layerId: string, propertyId: string) => {
+    const index = getTrackIndex(layerId, propertyId);
+    if (index < 0) return null;
+    return animationTracks[index];
+  };
+
+  const makeKfId = (layerId: string, propertyId: string, atVh: number) =>
+    `${layerId}::${propertyId}::${atVh.toFixed(2)}`;
+
+  snapKeyframeVhRef.current = (rawVh: number, shiftKey: boolean): number => {
+    if (!shiftKey) return rawVh;
+    const SNAP_THRESHOLD = timelineLengthVh * 0.03;
+    let best = rawVh;
+    let bestDist = SNAP_THRESHOLD;
+    for (const track of animationTracks) {
+      for (const kf of track.keyframes) {
+        const dist = Math.abs(kf.atVh - rawVh);
+        if (dist < bestDist) { bestDist = dist; best = kf.atVh; }
+      }
+    }
+    for (const marker of timelineMarkers) {
+      const dist = Math.abs(marker.atVh - rawVh);
+      if (dist < bestDist) { bestDist = dist; best = marker.atVh; }
+    }
+    return best;
+  };
+
+  const setTimelineSeekVh = useCallback((value: number) => {
+    const next = THREE.MathUtils.clamp(value, 0, timelineLengthVh);
+    setTimelineCurrentVh(Number(next.toFixed(2)));
+    setTimelineProgress(THREE.MathUtils.clamp(next / Math.max(1, timelineLengthVh), 0, 1));
+  }, [timelineLengthVh]);
+
+  const stepVhBackward = useCallback(() => {
     setIsPlaying(false);
     const cur = timelineCurrentVhRef.current;
     const floored = Math.floor(cur);
     setTimelineSeekVh(cur > floored + 1e-9 ? floored : Math.max(0, floored - 1));
   }, [setTimelineSeekVh]);
 
-  const stepVhForward = useCallback(() => {
-    setIsPlaying(false);
-    const cur = timelineCurrentVhRef.current;
-    const ceiled = Math.ceil(cur);
-    setTimelineSeekVh(cur < ceiled - 1e-9 ? ceiled : ceiled + 1);
-  }, [setTimelineSeekVh, timelineLengthVh]);
+  const stepVhForward = useCallback(() => {
+    setIsPlaying(false);
+    const cur = timelineCurrentVhRef.current;
+    const ceiled = Math.ceil(cur);
+    setTimelineSeekVh(cur < ceiled - 1e-9 ? ceiled : ceiled + 1);
+  }, [setTimelineSeekVh, timelineLengthVh]);
+
+  const addMarkerAtPlayhead = () => {
+    const atVh = Number(timelineCurrentVhRef.current.toFixed(2));
+    if (timelineMarkers.some((marker) => marker.atVh === atVh)) return;
+    const marker: TimelineMarkerSpec = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      atVh,
+      label: `Marker ${timelineMarkers.length + 1}`,
+      color: MARKER_COLORS[timelineMarkers.length % MARKER_COLORS.length],
+    };
+    setTimelineMarkers([...timelineMarkers, marker].sort((a, b) => a.atVh - b.atVh));
+    setHasUnsavedChanges(true);
+  };
+  addMarkerRef.current = addMarkerAtPlayhead;
+
+  const updateTimelineMarker = (id: string, patch: Partial<TimelineMarkerSpec>) => {
+    setTimelineMarkers((prev) =>
+      prev.map((marker) => (marker.id === id ? { ...marker, ...patch } : marker)).sort((a, b) => a.atVh - b.atVh)
+    );
+    setHasUnsavedChanges(true);
+  };
+
+  const removeTimelineMarker = (id: string) => {
+    setTimelineMarkers((prev) => prev.filter((marker) => marker.id !== id));
+    setHasUnsavedChanges(true);
+  };
+
+  // Seeks to the nearest marker before / after the playhead.
+  const navigateMarker = (direction: "prev" | "next") => {
+    const cur = timelineCurrentVhRef.current;
+    const target =
+      direction === "next"
+        ? timelineMarkers.find((marker) => marker.atVh > cur + 1e-3)
+        : [...timelineMarkers].reverse().find((marker) => marker.atVh < cur - 1e-3);
+    if (!target) return;
+    setIsPlaying(false);
+    setTimelineSeekVh(target.atVh);
+  };
+  navigateMarkerRef.current = navigateMarker;
+
+  // Dragging a ruler marker moves it; a click without movement seeks to it.
+  const startMarkerDrag = (event: React.PointerEvent<HTMLElement>, marker: TimelineMarkerSpec) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    (document.activeElement as HTMLElement)?.blur();
+    setIsPlaying(false);
+    const ruler = timelineRulerRef.current;
+    if (!ruler) return;
+    const width = Math.max(1, ruler.getBoundingClientRect().width);
+    const startX = event.clientX;
+    let moved = false;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (!moved && Math.abs(moveEvent.clientX - startX) < 3) return;
+      moved = true;
+      const atVh = THREE.MathUtils.clamp(
+        marker.atVh + ((moveEvent.clientX - startX) / width) * timelineLengthVh,
+        0,
+        timelineLengthVh
+      );
+      updateTimelineMarker(marker.id, { atVh: Number(atVh.toFixed(2)) });
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      if (!moved) setTimelineSeekVh(marker.atVh);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const updateScrollSmoothing = (next: ScrollSmoothingSpec) => {
+    setScrollSmoothing(next);
+    setHasUnsavedChanges(true);
+  };
+
+  const updateScrollSnap = (next: ScrollSnapSpec) => {
+    setScrollSnap(next);
+    setHasUnsavedChanges(true);
+  };
+
+  const addBreakpoint = () => {
+    setBreakpoints((prev) => [
+      ...prev,
+      {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        name: `Breakpoint ${prev.length + 1}`,
+        maxWidth: 768,
+        maxAspect: null,
+      },
+    ]);
+    setHasUnsavedChanges(true);
+  };
+
+  const updateBreakpoint = (id: string, patch: Partial<BreakpointSpec>) => {
+    setBreakpoints((prev) => prev.map((breakpoint) => (breakpoint.id === id ? { ...breakpoint, ...patch } : breakpoint)));
+    setHasUnsavedChanges(true);
+  };
+
+  // Also drops what the breakpoint overrode, in every scene.
+  const removeBreakpoint = (id: string) => {
+    setBreakpoints((prev) => prev.filter((breakpoint) => breakpoint.id !== id));
+    setBreakpointOverrides((prev) => prev.filter((override) => override.breakpointId !== id));
+    setScenes((prev) =>
+      prev.map((scene) => ({
+        ...scene,
+        breakpointOverrides: scene.breakpointOverrides.filter((override) => override.breakpointId !== id),
+      }))
+    );
+    if (previewBreakpointId === id) setPreviewBreakpointId(null);
+    setHasUnsavedChanges(true);
+  };
+
+  // Edits the active scene's override for a breakpoint; one left without changes is removed.
+  const updateBreakpointOverride = (
+    breakpointId: string,
+    update: (override: BreakpointOverride) => BreakpointOverride
+  ) => {
+    setBreakpointOverrides((prev) => {
+      const current = prev.find((override) => override.breakpointId === breakpointId) ?? {
+        breakpointId,
+        camera: null,
+        tracks: [],
+      };
+      const next = update(current);
+      const rest = prev.filter((override) => override.breakpointId !== breakpointId);
+      return next.camera === null && next.tracks.length === 0 ? rest : [...rest, next];
+    });
+    setHasUnsavedChanges(true);
+  };
+
+  const setBreakpointCameraFromView = (breakpointId: string) => {
+    const view = readLiveCameraView();
+    if (!view) return;
+    updateBreakpointOverride(breakpointId, (override) => ({ ...override, camera: view }));
+  };
+
+  const addTrackOverride = (breakpointId: string, trackKey: string) => {
+    const track = animationTracks.find((t) => `${t.layerId}|${t.propertyId}` === trackKey);
+    if (!track) return;
+    updateBreakpointOverride(breakpointId, (override) =>
+      override.tracks.some((o) => o.layerId === track.layerId && o.propertyId === track.propertyId)
+        ? override
+        : {
+            ...override,
+            tracks: [...override.tracks, { layerId: track.layerId, propertyId: track.propertyId, mode: "offset", value: 0 }],
+          }
+    );
+  };
+
+  const updateTrackOverride = (breakpointId: string, index: number, patch: Partial<TrackOverride> | null) => {
+    updateBreakpointOverride(breakpointId, (override) => ({
+      ...override,
+      tracks: patch
+        ? override.tracks.map((track, i) => (i === index ? { ...track, ...patch } : track))
+        : override.tracks.filter((_, i) => i !== index),
+    }));
+  };
+
+  const getActiveSceneData = (): SceneData => ({
+    pinnedCameraView,
+    cameraPath,
+    timelineLengthVh,
+    animationTracks: animationTracksRef.current,
+    clipBindings,
+    layerConstraints,
+    timelineMarkers,
+    breakpointOverrides,
+    timedClips,
+  });
+
+  // Every scene in page order, the active one with its current timeline state.
+  const getProjectScenes = () =>
+    scenes.map((scene) => (scene.id === activeSceneId ? { ...scene, ...getActiveSceneData() } : scene));
+
+  // Puts layers posed by the outgoing scene's constraints back to their unconstrained pose.
+  const restoreConstrainedLayers = () => {
+    const targets = getConstraintTargets();
+    new Set(layerConstraints.map((constraint) => constraint.layerId)).forEach((layerId) => {
+      const object = layerObjectMapRef.current.get(layerId);
+      if (object && animationRuntime.applyConstraints(object, [], [], timelineCurrentVh, targets)) {
+        syncLayerTransform(layerId);
+      }
+    });
+  };
+
+  // Scenes share the one loaded model: poses and material states left by the outgoing
+  // scene go back to the loaded ones, keeping layer names, visibility and deletions.
+  const restoreRestPose = () => {
+    const rest = layerRestSnapshotRef.current;
+    // Running timed clips would otherwise put the outgoing scene's values back on stop
+    timedClipsDisplacedRef.current?.clear();
+    layerObjectMapRef.current.forEach((object, id) => {
+      const value = rest[id];
+      if (!value) return;
+      animationRuntime.setObjectOpacity(object, value.opacity);
+      Object.entries(value.morphWeights ?? {}).forEach(([name, weight]) =>
+        animationRuntime.setObjectMorphWeight(object, name, weight)
+      );
+      object.position.set(value.position.x, value.position.y, value.position.z);
+      object.rotation.set(value.rotation.x, value.rotation.y, value.rotation.z, object.rotation.order);
+      object.scale.set(value.scale.x, value.scale.y, value.scale.z);
+      object.updateMatrixWorld();
+    });
+    materialsByName.forEach((materials) =>
+      materials.forEach((material) =>
+        animationRuntime.applyMaterialState(material, animationRuntime.getMaterialBase(material))
+      )
+    );
+    refreshLayerItemsFromScene();
+  };
+
+  const loadSceneIntoEditor = (scene: SceneData) => {
+    setIsPlaying(false);
+    setPinnedCameraView(scene.pinnedCameraView);
+    if (scene.pinnedCameraView) applyCameraView(scene.pinnedCameraView);
+    setCameraPath(scene.cameraPath);
+    setSelectedPathPointIndex(null);
+    setTimelineLengthVh(scene.timelineLengthVh);
+    animationTracksRef.current = scene.animationTracks;
+    setAnimationTracks(scene.animationTracks);
+    setSelectedKfIds(new Set());
+    setClipBindings(scene.clipBindings);
+    setLayerConstraints(scene.layerConstraints);
+    setEditingConstraintPath(null);
+    setTimelineMarkers(scene.timelineMarkers);
+    setBreakpointOverrides(scene.breakpointOverrides);
+    setTimedClips(scene.timedClips);
+    timelineCurrentVhRef.current = 0;
+    setTimelineCurrentVh(0);
+    setTimelineProgress(0);
+  };
+
+  // History holds track lists of the active scene only, so switching starts it afresh.
+  const activateScene = (scene: TimelineScene, nextScenes: TimelineScene[]) => {
+    restoreConstrainedLayers();
+    restoreRestPose();
+    setScenes(nextScenes);
+    setActiveSceneId(scene.id);
+    loadSceneIntoEditor(scene);
+    commitHistoryState(
+      [
+        {
+          id: `${Date.now()}-scene`,
+          label: `Scene: ${scene.name}`,
+          snapshot: captureLayerSnapshot(),
+          tracks: scene.animationTracks,
+          timedClips: scene.timedClips,
+        },
+      ],
+      0
+    );
+  };
+
+  const switchScene = (id: string) => {
+    if (id === activeSceneId) return;
+    const projectScenes = getProjectScenes();
+    const scene = projectScenes.find((s) => s.id === id);
+    if (scene) activateScene(scene, projectScenes);
+  };
+
+  // New scenes start from the current camera so the view does not jump.
+  const addScene = () => {
+    const scene = createTimelineScene(
+      `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      `Scene ${scenes.length + 1}`,
+      { pinnedCameraView }
+    );
+    activateScene(scene, [...getProjectScenes(), scene]);
+    setHasUnsavedChanges(true);
+  };
+
+  const updateActiveScene = (patch: Partial<Pick<TimelineScene, "name" | "pageOffsetVh">>) => {
+    setScenes((prev) => prev.map((scene) => (scene.id === activeSceneId ? { ...scene, ...patch } : scene)));
+    setHasUnsavedChanges(true);
+  };
+
+  const removeActiveScene = () => {
+    if (scenes.length < 2) return;
+    const index = scenes.findIndex((scene) => scene.id === activeSceneId);
+    const remaining = scenes.filter((scene) => scene.id !== activeSceneId);
+    activateScene(remaining[Math.max(0, index - 1)], remaining);
+    setHasUnsavedChanges(true);
+  };
+
+  const hasTrackKeyframes = (layerId: string, propertyId: string) => {
+    const track = getTrack(layerId, propertyId);
+    if (!track) return false;
+    return track.keyframes.length > 0;
+  };
+
+  const hasKeyframeAtCurrentTime = (layerId: string, propertyId: string) => {
+    const track = getTrack(layerId, propertyId);
+    if (!track) return false;
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    return track.keyframes.some((kf) => Number(kf.atVh.toFixed(2)) === atVh);
+  };
+
+  // Keys of the combined rotation track store the live orientation of the layer.
+  const getKeyframePatch = (layerId: string, propertyId: string): Partial<AnimationKeyframe> | undefined => {
+    if (propertyId !== ROTATION_PROPERTY_ID) return undefined;
+    const object = layerObjectMapRef.current.get(layerId);
+    const { x, y, z } = object ? getObjectRotationInfo(object).rotation : { x: 0, y: 0, z: 0 };
+    return { rotation: [x, y, z] };
+  };
+
+  const toggleTrackAnimation = (layer: LayerItem, propertyId: string, enabled: boolean) => {
+    const prev = animationTracksRef.current;
+    const index = prev.findIndex(
+      (track) => track.layerId === layer.id && track.propertyId === propertyId
+    );
+    let newTracks: AnimationTrack[];
+    if (!enabled) {
+      if (index < 0) return;
+      newTracks = prev.filter((_, i) => i !== index);
+    } else {
+      const atVh = Number(timelineCurrentVh.toFixed(2));
+      const value = Number(getTimelinePropertyValue(layer, propertyId).toFixed(4));
+      newTracks = upsertTrackKeyframe(prev, layer.id, propertyId, atVh, value, getKeyframePatch(layer.id, propertyId));
+    }
+    setAnimationTracks(newTracks);
+    pushHistory(enabled ? "Enable animation" : "Disable animation", newTracks);
+  };
+
+  const navigateTrackKeyframe = (
+    layerId: string,
+    propertyId: string,
+    direction: "prev" | "next"
+  ) => {
+    const track = getTrack(layerId, propertyId);
+    if (!track || track.keyframes.length === 0) return;
+    const current = Number(timelineCurrentVh.toFixed(2));
+    if (direction === "prev") {
+      const candidates = track.keyframes.filter((kf) => kf.atVh < current - 1e-6);
+      const target = candidates.at(-1) ?? track.keyframes[0];
+      setTimelineSeekVh(target.atVh);
+      return;
+    }
+    const candidates = track.keyframes.filter((kf) => kf.atVh > current + 1e-6);
+    const target = candidates[0] ?? track.keyframes[track.keyframes.length - 1];
+    setTimelineSeekVh(target.atVh);
+  };
+
+  const setKeyframeEasing = (kfIds: Set<string>, easing: EasingType) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      const updated = track.keyframes.map((kf) => {
+        const id = makeKfId(track.layerId, track.propertyId, kf.atVh);
+        if (!kfIds.has(id)) return kf;
+        return {
+          ...kf,
+          easing,
+          bezier: easing === "cubicBezier" ? kf.bezier ?? DEFAULT_BEZIER : undefined,
+          easingParams: hasEasingParams(easing) ? kf.easingParams : undefined,
+        };
+      });
+      return { ...track, keyframes: updated };
+    });
+    setAnimationTracks(newTracks);
+    pushHistory("Set easing", newTracks);
+  };
+
+  // Live while dragging a curve handle; `commit` records a single history entry on release.
+  const setKeyframeBezier = (kfIds: Set<string>, bezier: BezierPoints, commit: boolean) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      const updated = track.keyframes.map((kf) => {
+        const id = makeKfId(track.layerId, track.propertyId, kf.atVh);
+        return kfIds.has(id) ? { ...kf, easing: "cubicBezier" as const, bezier } : kf;
+      });
+      return { ...track, keyframes: updated };
+    });
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    if (commit) pushHistory("Edit easing curve", newTracks);
+  };
+
+  const setKeyframeEasingParams = (kfIds: Set<string>, easingParams: EasingParams, commit: boolean) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      const updated = track.keyframes.map((kf) => {
+        const id = makeKfId(track.layerId, track.propertyId, kf.atVh);
+        return kfIds.has(id) ? { ...kf, easingParams } : kf;
+      });
+      return { ...track, keyframes: updated };
+    });
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    if (commit) pushHistory("Edit easing parameters", newTracks);
+  };
+
+  const setKeyframeInterpolation = (kfIds: Set<string>, interpolation: InterpolationType) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      const updated = track.keyframes.map((kf) => {
+        const id = makeKfId(track.layerId, track.propertyId, kf.atVh);
+        if (!kfIds.has(id)) return kf;
+        // "eased" is the default and is stored as an absent field
+        return { ...kf, interpolation: interpolation === "eased" ? undefined : interpolation };
+      });
+      return { ...track, keyframes: updated };
+    });
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    pushHistory("Set interpolation", newTracks);
+  };
+
+  // Modifiers of one track (an empty list is stored as absent).
+  const setTrackModifiers = (layerId: string, propertyId: string, modifiers: TrackModifier[], historyLabel?: string) => {
+    const newTracks = animationTracksRef.current.map((track) =>
+      track.layerId === layerId && track.propertyId === propertyId
+        ? { ...track, modifiers: modifiers.length > 0 ? modifiers : undefined }
+        : track
+    );
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    if (historyLabel) pushHistory(historyLabel, newTracks);
+  };
+
+  // Badges for the modifiers of a keyed track; clicking one edits it, the wave adds one.
+  const renderModifierBadges = (layerId: string, propertyId: string) => {
+    const track = animationTracks.find((t) => t.layerId === layerId && t.propertyId === propertyId);
+    if (!track || track.keyframes.length === 0) return null;
+    const openMenu = (event: React.MouseEvent<HTMLButtonElement>, index: number | null) => {
+      event.stopPropagation();
+      const rect = event.currentTarget.getBoundingClientRect();
+      setModifierMenu({ layerId, propertyId, index, x: rect.left, y: rect.bottom + 4 });
+    };
+    return (
+      <div className="flex shrink-0 items-center gap-0.5">
+        {(track.modifiers ?? []).map((modifier, index) => (
+          <button
+            key={`${modifier.type}-${index}`}
+            type="button"
+            className="rounded bg-violet-500/20 px-1 text-[9px] leading-4 text-violet-300 hover:bg-violet-500/35"
+            onClick={(event) => openMenu(event, index)}
+            title={
+              modifier.type === "driver"
+                ? `Driven by ${modifier.source ? getLayerName(modifier.source) : "…"} · ${getTrackPropertyLabel(modifier.sourcePropertyId)}`
+                : "Edit modifier"
+            }
+          >
+            {TRACK_MODIFIER_TYPES.find((entry) => entry.type === modifier.type)?.label ?? modifier.type}
+          </button>
+        ))}
+        <button
+          type="button"
+          className="flex h-4 w-4 items-center justify-center rounded text-muted-foreground/60 hover:bg-muted hover:text-foreground"
+          onClick={(event) => openMenu(event, null)}
+          title="Add modifier"
+        >
+          <Waves className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  };
+
+  // Extra turns on the outgoing segment of combined rotation keys (0 is stored as absent).
+  const setKeyframeSpins = (kfIds: Set<string>, spins: number, commit: boolean) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      if (track.propertyId !== ROTATION_PROPERTY_ID) return track;
+      const updated = track.keyframes.map((kf) =>
+        kfIds.has(makeKfId(track.layerId, track.propertyId, kf.atVh)) ? { ...kf, spins: spins || undefined } : kf
+      );
+      return { ...track, keyframes: updated };
+    });
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    if (commit) pushHistory("Set spins", newTracks);
+  };
+
+  // `undefined` in the patch resets that side to an auto tangent. Live while dragging a
+  // graph handle or typing; `commit` records the history entry.
+  const setKeyframeTangents = (kfIds: Set<string>, patch: TangentPatch, commit: boolean) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      const updated = track.keyframes.map((kf) => {
+        const id = makeKfId(track.layerId, track.propertyId, kf.atVh);
+        return kfIds.has(id) ? { ...kf, ...patch } : kf;
+      });
+      return { ...track, keyframes: updated };
+    });
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    if (commit) pushHistory("Edit keyframe velocity", newTracks);
+  };
+
+  // Graph editor drag; `trackId` is `${layerId}::${propertyId}` as built by getGraphTracks.
+  const setKeyframeValue = (trackId: string, index: number, value: number, commit: boolean) => {
+    const prev = animationTracksRef.current;
+    const newTracks = prev.map((track) => {
+      if (`${track.layerId}::${track.propertyId}` !== trackId) return track;
+      const updated = track.keyframes.map((kf, i) => (i === index ? { ...kf, value } : kf));
+      return { ...track, keyframes: updated };
+    });
+    animationTracksRef.current = newTracks;
+    setAnimationTracks(newTracks);
+    if (commit) pushHistory("Edit keyframe value", newTracks);
+  };
+
+  // Tracks shown in the graph view: those owning a selected keyframe, otherwise every
+  // animated property of the selected layer.
+  const getGraphTracks = (): GraphTrack[] => {
+    // Orientation keys have no single value to plot
+    const plottable = animationTracks.filter((track) => track.propertyId !== ROTATION_PROPERTY_ID);
+    const withSelection = plottable.filter((track) =>
+      track.keyframes.some((kf) => selectedKfIds.has(makeKfId(track.layerId, track.propertyId, kf.atVh)))
+    );
+    const source =
+      withSelection.length > 0
+        ? withSelection
+        : plottable.filter((track) => track.layerId === selectedLayerId && track.keyframes.length > 0);
+    return source.map((track, index) => {
+      return {
+        id: `${track.layerId}::${track.propertyId}`,
+        label: `${getLayerName(track.layerId)} · ${getTrackPropertyLabel(track.propertyId)}`,
+        color: GRAPH_AXIS_COLORS[track.propertyId.split(".")[1]] ?? GRAPH_COLORS[index % GRAPH_COLORS.length],
+        propertyId: track.propertyId,
+        keyframes: track.keyframes,
+      };
+    });
+  };
+
+  const upsertKeyframeAtCurrentTime = (layer: LayerItem, propertyId: string, doHistory = false) => {
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    // Read from the live Three.js object so we never get stale React state
+    const liveObject = layerObjectMapRef.current.get(layer.id);
+    let rawValue: number;
+    if (liveObject) {
+      switch (propertyId) {
+        case "position.x": rawValue = liveObject.position.x; break;
+        case "position.y": rawValue = liveObject.position.y; break;
+        case "position.z": rawValue = liveObject.position.z; break;
+        case "rotation.x": rawValue = getObjectRotationInfo(liveObject).rotation.x; break;
+        case "rotation.y": rawValue = getObjectRotationInfo(liveObject).rotation.y; break;
+        case "rotation.z": rawValue = getObjectRotationInfo(liveObject).rotation.z; break;
+        case "scale.uniform": rawValue = liveObject.scale.x; break;
+        case "scale.x": rawValue = liveObject.scale.x; break;
+        case "scale.y": rawValue = liveObject.scale.y; break;
+        case "scale.z": rawValue = liveObject.scale.z; break;
+        case "opacity": rawValue = getObjectOpacity(liveObject); break;
+        default:
+          rawValue = propertyId.startsWith(MORPH_PROPERTY_PREFIX)
+            ? animationRuntime.getObjectMorphWeight(liveObject, propertyId.slice(MORPH_PROPERTY_PREFIX.length))
+            : getTimelinePropertyValue(layer, propertyId);
+      }
+    } else {
+      rawValue = getTimelinePropertyValue(layer, propertyId);
+    }
+    // The live value includes the track's modifiers; key the value underneath them
+    const track = animationTracksRef.current.find((t) => t.layerId === layer.id && t.propertyId === propertyId);
+    if (track?.modifiers && track.keyframes.length > 0) {
+      rawValue -=
+        animationRuntime.evaluateTrack(track, atVh) - animationRuntime.evaluateTrack({ ...track, modifiers: [] }, atVh);
+    }
+    const value = Number(rawValue.toFixed(4));
+    const next = upsertTrackKeyframe(
+      animationTracksRef.current,
+      layer.id,
+      propertyId,
+      atVh,
+      value,
+      getKeyframePatch(layer.id, propertyId)
+    );
+    lastUpsertTracksRef.current = next;
+    setAnimationTracks(next);
+    setHasUnsavedChanges(true);
+    if (doHistory) {
+      pushHistory("Set keyframe", next);
+    }
+  };
+
+  const getDepthShade = (depth: number) => {
+    const clamped = THREE.MathUtils.clamp(depth, 0, 8);
+    return Number((0.06 + clamped * 0.055).toFixed(3));
+  };
+
+  const getTimelinePropertyValue = (layer: LayerItem, propertyId: string) => {
+    switch (propertyId) {
+      case "position.x":
+        return layer.position.x;
+      case "position.y":
+        return layer.position.y;
+      case "position.z":
+        return layer.position.z;
+      case "rotation.x":
+        return layer.rotation.x;
+      case "rotation.y":
+        return layer.rotation.y;
+      case "rotation.z":
+        return layer.rotation.z;
+      case "scale.uniform":
+      case "scale.x":
+        return layer.scale.x;
+      case "scale.y":
+        return layer.scale.y;
+      case "scale.z":
+        return layer.scale.z;
+      case "opacity":
+        return layer.opacity;
+      default:
+        if (propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX)) return getConstraintChannelValue(layer.id, propertyId);
+        return layer.morphWeights[propertyId.slice(MORPH_PROPERTY_PREFIX.length)] ?? 0;
+    }
+  };
+
+  const getTimelinePropertyStep = (propertyId: string) => {
+    if (propertyId.startsWith("rotation.")) return "1";
+    if (propertyId === "opacity" || propertyId.startsWith(MORPH_PROPERTY_PREFIX)) return "0.01";
+    if (propertyId.startsWith("position.")) return "0.001";
+    return "0.001";
+  };
+
+  // Goes through the shared runtime so a scrub here matches Preview and the exported
+  // page exactly; only the React mirror of the layer is refreshed locally.
+  const applyTimelinePropertyValue = (layer: LayerItem, propertyId: string, rawValue: string) => {
+    const object = layerObjectMapRef.current.get(layer.id);
+    if (!object) return;
+    const value = Number(rawValue);
+    if (Number.isNaN(value)) return;
+    if (!animationRuntime.applyTrackValue(object, propertyId, value)) return;
+    if (propertyId === "opacity") {
+      const opacity = getObjectOpacity(object);
+      setLayerItems((prev) =>
+        prev.map((item) => (item.id === layer.id ? { ...item, opacity } : item))
+      );
+      return;
+    }
+    if (propertyId.startsWith(MORPH_PROPERTY_PREFIX)) {
+      const morphWeights = getObjectMorphWeights(object);
+      setLayerItems((prev) =>
+        prev.map((item) => (item.id === layer.id ? { ...item, morphWeights } : item))
+      );
+      return;
+    }
+    syncLayerTransform(layer.id);
+  };
+
+  const beginTimelinePropertyEdit = (layer: LayerItem, propertyId: string) => {
+    if (propertyId.startsWith("position.")) beginLayerTransform(layer.id);
+    else if (propertyId.startsWith("rotation.")) beginLayerRotation(layer.id);
+    else if (propertyId.startsWith("scale.")) beginLayerScale(layer.id);
+  };
+
+  const commitTimelinePropertyEdit = (layer: LayerItem, propertyId: string) => {
+    if (propertyId.startsWith("position.")) commitLayerTransform(layer.id);
+    else if (propertyId.startsWith("rotation.")) commitLayerRotation(layer.id);
+    else if (propertyId.startsWith("scale.")) commitLayerScale(layer.id);
+    else if (propertyId === "opacity") commitLayerOpacity(layer.id);
+    else if (propertyId.startsWith(MORPH_PROPERTY_PREFIX)) commitLayerMorphWeight(layer.id);
+    // If a keyframe already exists at this position, save the edited value into it
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    const track = getTrack(layer.id, propertyId);
+    if (track?.keyframes.some((kf) => Number(kf.atVh.toFixed(2)) === atVh)) {
+      upsertKeyframeAtCurrentTime(layer, propertyId);
+    }
+  };
+
+  useEffect(() => {
+    applyTimelinePropertyValueRef.current = applyTimelinePropertyValue;
+    commitTimelinePropertyEditRef.current = commitTimelinePropertyEdit;
+    upsertKeyframeAtCurrentTimeRef.current = upsertKeyframeAtCurrentTime;
+  });
+
+  useEffect(() => {
+    // Clips pose the rig first; layer tracks on the same nodes override them.
+    if (clipMixer) animationRuntime.applyClips(clipMixer, modelClips, clipBindings, timelineCurrentVh);
+    applyMaterialTracksAtVh(timelineCurrentVh);
+    if (animationTracks.length === 0 && layerConstraints.length === 0) return;
+    for (const track of animationRuntime.orderTracksForApply(getPlaybackTracks(animationTracks))) {
+      const layer = layerItemsRef.current.find((l) => l.id === track.layerId);
+      if (!layer) continue;
+      if (track.propertyId === ROTATION_PROPERTY_ID) {
+        const object = layerObjectMapRef.current.get(layer.id);
+        if (object && animationRuntime.applyTrack(object, track, timelineCurrentVh)) syncLayerTransform(layer.id);
+        continue;
+      }
+      const value = animationRuntime.evaluateTrack(track, timelineCurrentVh);
+      applyTimelinePropertyValueRef.current(layer, track.propertyId, String(value));
+    }
+    // Running timed clips win over the scroll tracks they share channels with
+    timedClipsTickRef.current?.(0);
+    if (isCameraAnimated()) {
+      const view = getCameraViewAtVh(timelineCurrentVh);
+      if (view) applyCameraView(view);
+    }
+    // Last, so look-at constraints aim at this frame's camera and layer poses
+    applyLayerConstraintsAtVh(timelineCurrentVh);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timelineCurrentVh, animationTracks, clipMixer, modelClips, clipBindings, layerConstraints, previewOverride]);
+
+  // Timed clips run on the clock while Preview or playback is live, posing their targets
+  // over the scroll tracks every frame. Stopping the clock or editing the clips restarts
+  // them from scratch and puts back what they displaced.
+  const timedClipsClockActive = hasModel && timedClips.length > 0 && (viewMode === "preview" || isPlaying);
+  useEffect(() => {
+    if (!timedClipsClockActive) return;
+    const states = new Map(timedClips.map((clip) => [clip.id, animationRuntime.createTimedClipState()]));
+    // Layer values as found before a clip first wrote them, by `layerId|propertyId`
+    const displaced = new Map<string, { layerId: string; propertyId: string; value: number }>();
+    const touchedMaterials = new Set<string>();
+    const getScrollMaterialState = (name: string, material: THREE.Material, atVh: number) => {
+      const trackId = getMaterialTrackId(name);
+      const tracks = getPlaybackTracks(animationTracksRef.current).filter(
+        (track) => track.layerId === trackId && track.keyframes.length > 0
+      );
+      return animationRuntime.evaluateMaterialState(tracks, atVh, animationRuntime.getMaterialBase(material));
+    };
+
+    const tick = (dt: number) => {
+      const atVh = timelineCurrentVhRef.current;
+      const materialChannels = new Map<string, { track: TimedClipTrack; time: number }[]>();
+      timedClips.forEach((clip) => {
+        const state = states.get(clip.id);
+        if (!state || !animationRuntime.stepTimedClip(clip, state, atVh, dt)) return;
+        clip.tracks.forEach((track) => {
+          if (track.keyframes.length === 0) return;
+          if (isMaterialChannel(track.propertyId)) {
+            materialChannels.set(track.target, [
+              ...(materialChannels.get(track.target) ?? []),
+              { track, time: state.time },
+            ]);
+            return;
+          }
+          const object = layerObjectMapRef.current.get(track.target);
+          if (!object) return;
+          const key = `${track.target}|${track.propertyId}`;
+          if (!displaced.has(key)) {
+            const value = animationRuntime.readTrackValue(object, track.propertyId);
+            if (value !== null) displaced.set(key, { layerId: track.target, propertyId: track.propertyId, value });
+          }
+          animationRuntime.applyTrack(object, track, state.time);
+        });
+      });
+      materialChannels.forEach((entries, name) => {
+        touchedMaterials.add(name);
+        (materialsByName.get(name) ?? []).forEach((material) => {
+          const state = entries.reduce(
+            (current, entry) => animationRuntime.evaluateMaterialState([entry.track], entry.time, current),
+            getScrollMaterialState(name, material, atVh)
+          );
+          animationRuntime.applyMaterialState(material, state);
+        });
+      });
+    };
+
+    let frame = 0;
+    let lastTime = 0;
+    const loop = (time: number) => {
+      tick(lastTime ? (time - lastTime) / 1000 : 0);
+      lastTime = time;
+      frame = requestAnimationFrame(loop);
+    };
+    timedClipsTickRef.current = tick;
+    timedClipsDisplacedRef.current = displaced;
+    frame = requestAnimationFrame(loop);
+    return () => {
+      cancelAnimationFrame(frame);
+      timedClipsTickRef.current = null;
+      timedClipsDisplacedRef.current = null;
+      const atVh = timelineCurrentVhRef.current;
+      const tracks = getPlaybackTracks(animationTracksRef.current);
+      displaced.forEach(({ layerId, propertyId, value }) => {
+        const layer = layerItemsRef.current.find((item) => item.id === layerId);
+        if (!layer) return;
+        const track = tracks.find(
+          (t) => t.layerId === layerId && t.propertyId === propertyId && t.keyframes.length > 0
+        );
+        applyTimelinePropertyValueRef.current(
+          layer,
+          propertyId,
+          String(track ? animationRuntime.evaluateTrack(track, atVh) : value)
+        );
+      });
+      touchedMaterials.forEach((name) => {
+        (materialsByName.get(name) ?? []).forEach((material) => {
+          animationRuntime.applyMaterialState(material, getScrollMaterialState(name, material, atVh));
+        });
+      });
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timedClipsClockActive, timedClips, materialsByName]);
+
+  const PLAYBACK_SPEED_VH_PER_SEC = 50;
+  useEffect(() => {
+    if (!isPlaying) {
+      if (playbackRafRef.current !== null) {
+        cancelAnimationFrame(playbackRafRef.current);
+        playbackRafRef.current = null;
+      }
+      return;
+    }
+    lastPlayTimestampRef.current = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - lastPlayTimestampRef.current) / 1000;
+      lastPlayTimestampRef.current = now;
+      const nextVh = Math.min(
+        timelineCurrentVhRef.current + delta * PLAYBACK_SPEED_VH_PER_SEC,
+        timelineLengthVh
+      );
+      timelineCurrentVhRef.current = nextVh;
+      setTimelineCurrentVh(Number(nextVh.toFixed(2)));
+      setTimelineProgress(nextVh / Math.max(1, timelineLengthVh));
+      if (nextVh >= timelineLengthVh) {
+        setIsPlaying(false);
+        return;
+      }
+      playbackRafRef.current = requestAnimationFrame(tick);
+    };
+    playbackRafRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (playbackRafRef.current !== null) {
+        cancelAnimationFrame(playbackRafRef.current);
+        playbackRafRef.current = null;
+      }
+    };
+  }, [isPlaying, timelineLengthVh]);
+
+  useEffect(() => {
+    if (!timelineScrollEl) return;
+    const onWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey) return;
+      event.preventDefault();
+      adjustTimelineZoom(event.deltaY < 0 ? "in" : "out");
+    };
+    timelineScrollEl.addEventListener("wheel", onWheel, { passive: false });
+    return () => timelineScrollEl.removeEventListener("wheel", onWheel);
+  }, [timelineScrollEl, timelineZoom]);
+
+  const startTimelineModifierDrag = (
+    event: React.PointerEvent<HTMLSpanElement>,
+    layer: LayerItem,
+    propertyId: string
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    (document.activeElement as HTMLElement)?.blur();
+    beginTimelinePropertyEdit(layer, propertyId);
+    timelineModifierDragRef.current = {
+      layerId: layer.id,
+      propertyId,
+      startX: event.clientX,
+      startValue: getTimelinePropertyValue(layer, propertyId),
+    };
+  };
+
+  const applyCameraView = (view: CameraView) => {
+    const controls = orbitControlsRef.current;
+    const camera = cameraRef.current;
+    if (!controls || !camera) return;
+    camera.position.set(view.position[0], view.position[1], view.position[2]);
+    camera.fov = view.fov;
+    camera.zoom = view.zoom;
+    camera.updateProjectionMatrix();
+    controls.target.set(view.target[0], view.target[1], view.target[2]);
+    controls.update();
+  };
+
+  const readLiveCameraView = (): CameraView | null => {
+    const controls = orbitControlsRef.current;
+    const camera = cameraRef.current;
+    if (!controls || !camera) return null;
+    return {
+      position: [camera.position.x, camera.position.y, camera.position.z],
+      target: [controls.target.x, controls.target.y, controls.target.z],
+      fov: camera.fov,
+      zoom: camera.zoom,
+    };
+  };
+
+  const getCameraLookAtObject = () =>
+    cameraPath?.lookAtLayerId ? (layerObjectMapRef.current.get(cameraPath.lookAtLayerId) ?? null) : null;
+
+  // True when scrubbing should drive the camera (otherwise it stays free to orbit).
+  const isCameraAnimated = () =>
+    getCameraLookAtObject() !== null ||
+    animationTracks.some((track) => track.layerId === CAMERA_TRACK_ID && track.keyframes.length > 0);
+
+  // Camera tracks (and the camera path / look-at layer) layered over the pinned view —
+  // what Preview and the export show.
+  const getCameraViewAtVh = (atVh: number): CameraView | null => {
+    if (!isCameraAnimated()) return playbackCameraView;
+    const cameraTracks = getPlaybackTracks(animationTracks).filter(
+      (track) => track.layerId === CAMERA_TRACK_ID && track.keyframes.length > 0
+    );
+    return animationRuntime.evaluateCameraView(cameraTracks, atVh, playbackCameraView ?? DEFAULT_CAMERA_VIEW, {
+      path: cameraPath,
+      lookAtObject: getCameraLookAtObject(),
+    });
+  };
+
+  // Keys every camera channel at the playhead from the current orbit view.
+  const pinCameraViewAtPlayhead = () => {
+    const view = readLiveCameraView();
+    if (!view) return;
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    // Channels driven by the camera path / look-at layer are left alone
+    const pathDrivesPosition = Boolean(cameraPath && hasTrackKeyframes(CAMERA_TRACK_ID, CAMERA_PATH_PROGRESS_ID));
+    const layerDrivesTarget = getCameraLookAtObject() !== null;
+    let next = animationTracksRef.current;
+    CAMERA_PROPERTIES.forEach((property) => {
+      if (property.id === CAMERA_PATH_PROGRESS_ID) return;
+      if (pathDrivesPosition && property.id.startsWith("camera.position.")) return;
+      if (layerDrivesTarget && property.id.startsWith("camera.target.")) return;
+      const value = Number(getCameraViewChannel(view, property.id).toFixed(4));
+      next = upsertTrackKeyframe(next, CAMERA_TRACK_ID, property.id, atVh, value);
+    });
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    pushHistory("Pin camera view", next);
+  };
+
+  // Live while typing in the Path Progress field; `commit` records the history entry.
+  const setCameraPathProgressAtPlayhead = (value: number, commit: boolean) => {
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    const next = upsertTrackKeyframe(
+      animationTracksRef.current,
+      CAMERA_TRACK_ID,
+      CAMERA_PATH_PROGRESS_ID,
+      atVh,
+      Number(THREE.MathUtils.clamp(value, 0, 1).toFixed(4))
+    );
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    setHasUnsavedChanges(true);
+    if (commit) pushHistory("Set keyframe", next);
+  };
+
+  const toggleCameraPath = (enabled: boolean) => {
+    setHasUnsavedChanges(true);
+    setSelectedPathPointIndex(null);
+    if (!enabled) {
+      setCameraPath(null);
+      return;
+    }
+    const view = readLiveCameraView() ?? pinnedCameraView ?? DEFAULT_CAMERA_VIEW;
+    const start = new THREE.Vector3(...view.position);
+    const target = new THREE.Vector3(...view.target);
+    // Second point a quarter orbit around the target so the new path is visibly curved
+    const end = start.clone().sub(target).applyAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2).add(target);
+    setCameraPath({
+      points: [view.position, [end.x, end.y, end.z]].map(
+        (point) => point.map((v) => Number(v.toFixed(4))) as [number, number, number]
+      ),
+      closed: false,
+      lookAtLayerId: null,
+    });
+  };
+
+  const updateCameraPath = (patch: Partial<CameraPath>) => {
+    setCameraPath((prev) => (prev ? { ...prev, ...patch } : prev));
+    setHasUnsavedChanges(true);
+  };
+
+  const setCameraPathPoint = (index: number, point: [number, number, number]) => {
+    setCameraPath((prev) => {
+      if (!prev) return prev;
+      const points = [...prev.points];
+      points[index] = point.map((v) => Number(v.toFixed(4))) as [number, number, number];
+      return { ...prev, points };
+    });
+    setHasUnsavedChanges(true);
+  };
+
+  const addCameraPathPointFromView = () => {
+    const view = readLiveCameraView();
+    if (!view || !cameraPath) return;
+    const point = view.position.map((v) => Number(v.toFixed(4))) as [number, number, number];
+    updateCameraPath({ points: [...cameraPath.points, point] });
+    setSelectedPathPointIndex(cameraPath.points.length);
+  };
+
+  const removeCameraPathPoint = (index: number) => {
+    if (!cameraPath || cameraPath.points.length <= 2) return;
+    updateCameraPath({ points: cameraPath.points.filter((_, i) => i !== index) });
+    setSelectedPathPointIndex(null);
+  };
 
-  const hasTrackKeyframes = (layerId: string, propertyId: string) => {
-    const track = getTrack(layerId, propertyId);
-    if (!track) return false;
-    return track.keyframes.length > 0;
+  const getConstraintTargets = (): ConstraintTargets => ({
+    getObject: (layerId) => layerObjectMapRef.current.get(layerId),
+    camera: cameraRef.current,
+  });
+
+  // Poses constrained layers over what their tracks left at `atVh`.
+  const applyLayerConstraintsAtVh = (atVh: number) => {
+    const targets = getConstraintTargets();
+    new Set(layerConstraints.map((constraint) => constraint.layerId)).forEach((layerId) => {
+      const object = layerObjectMapRef.current.get(layerId);
+      if (!object) return;
+      const constraints = layerConstraints.filter((constraint) => constraint.layerId === layerId);
+      const tracks = animationTracks.filter((track) => track.layerId === layerId);
+      if (animationRuntime.applyConstraints(object, constraints, tracks, atVh, targets)) syncLayerTransform(layerId);
+    });
   };
 
-  const hasKeyframeAtCurrentTime = (layerId: string, propertyId: string) => {
-    const track = getTrack(layerId, propertyId);
-    if (!track) return false;
+  // Value shown on a constraint channel row: the keyed value, else the constraint's own.
+  const getConstraintChannelValue = (layerId: string, propertyId: string) => {
+    const track = animationTracks.find(
+      (t) => t.layerId === layerId && t.propertyId === propertyId && t.keyframes.length > 0
+    );
+    if (track) return Number(animationRuntime.evaluateTrack(track, timelineCurrentVh).toFixed(3));
+    const constraintId = propertyId.slice(CONSTRAINT_PROPERTY_PREFIX.length, propertyId.lastIndexOf("."));
+    const constraint = layerConstraints.find((c) => c.id === constraintId);
+    if (!constraint) return 0;
+    return propertyId.endsWith(".progress")
+      ? Number(animationRuntime.evaluateConstraintProgress(constraint, [], timelineCurrentVh).toFixed(3))
+      : constraint.influence;
+  };
+
+  // Live while typing in a constraint channel field; `commit` records the history entry.
+  const setConstraintChannelAtPlayhead = (layerId: string, propertyId: string, value: number, commit: boolean) => {
     const atVh = Number(timelineCurrentVh.toFixed(2));
-    return track.keyframes.some((kf) => Number(kf.atVh.toFixed(2)) === atVh);
+    const next = upsertTrackKeyframe(
+      animationTracksRef.current,
+      layerId,
+      propertyId,
+      atVh,
+      Number(THREE.MathUtils.clamp(value, 0, 1).toFixed(4))
+    );
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    setHasUnsavedChanges(true);
+    if (commit) pushHistory("Set keyframe", next);
   };
 
-  const toggleTrackAnimation = (layer: LayerItem, propertyId: string, enabled: boolean) => {
-    const prev = animationTracksRef.current;
-    const index = prev.findIndex(
-      (track) => track.layerId === layer.id && track.propertyId === propertyId
+  // Layers a constraint on `layerId` may target: not itself, and (to avoid feedback
+  // through the hierarchy) none of its descendants.
+  const getConstraintTargetLayers = (layerId: string) =>
+    layerItems.filter((layer) => {
+      for (let current: LayerItem | undefined = layer; current; ) {
+        if (current.id === layerId) return false;
+        const parentId: string | null = current.parentId;
+        current = parentId ? layerItems.find((item) => item.id === parentId) : undefined;
+      }
+      return true;
+    });
+
+  const addLayerConstraint = (layerId: string, type: LayerConstraintType) => {
+    const range = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      layerId,
+      startVh: 0,
+      endVh: timelineLengthVh,
+      influence: 1,
+    };
+    let constraint: LayerConstraint;
+    if (type === "followPath") {
+      // Starts where the layer is, heading along +X by a quarter of the model's size
+      const object = layerObjectMapRef.current.get(layerId);
+      const start = object ? object.getWorldPosition(new THREE.Vector3()) : new THREE.Vector3();
+      const size = modelScene ? new THREE.Box3().setFromObject(modelScene).getSize(new THREE.Vector3()).length() : 1;
+      const end = start.clone().add(new THREE.Vector3(Math.max(0.1, size * 0.25), 0, 0));
+      const points = [start, end].map(
+        (point) => point.toArray().map((v) => Number(v.toFixed(4))) as [number, number, number]
+      );
+      constraint = { ...range, type, path: { points, closed: false }, orient: false };
+      setEditingConstraintPath({ id: range.id, pointIndex: null });
+    } else if (type === "lookAt") {
+      constraint = { ...range, type, target: null };
+    } else {
+      constraint = { ...range, type, target: "", rest: [] };
+    }
+    setLayerConstraints((prev) => [...prev, constraint]);
+    setHasUnsavedChanges(true);
+  };
+
+  const updateLayerConstraint = (id: string, patch: Partial<LayerConstraint>) => {
+    setLayerConstraints((prev) =>
+      prev.map((constraint) => {
+        if (constraint.id !== id) return constraint;
+        const next = { ...constraint, ...patch } as LayerConstraint;
+        // A new parent is followed from where it is now
+        if (next.type === "parent" && "target" in patch) {
+          const object = layerObjectMapRef.current.get(next.layerId);
+          const target = layerObjectMapRef.current.get(next.target);
+          return { ...next, rest: object && target ? animationRuntime.getParentConstraintRest(object, target) : [] };
+        }
+        return next;
+      })
     );
-    let newTracks: AnimationTrack[];
+    setHasUnsavedChanges(true);
+  };
+
+  const setConstraintPathPoint = (id: string, index: number, point: [number, number, number]) => {
+    const constraint = layerConstraints.find((c) => c.id === id);
+    if (constraint?.type !== "followPath") return;
+    const points = [...constraint.path.points];
+    points[index] = point.map((v) => Number(v.toFixed(4))) as [number, number, number];
+    updateLayerConstraint(id, { path: { ...constraint.path, points } });
+  };
+
+  const removeLayerConstraint = (id: string) => {
+    const constraint = layerConstraints.find((c) => c.id === id);
+    if (!constraint) return;
+    const remaining = layerConstraints.filter((c) => c.id !== id);
+    setLayerConstraints(remaining);
+    if (editingConstraintPath?.id === id) setEditingConstraintPath(null);
+    setHasUnsavedChanges(true);
+    // Re-pose the layer without it, and drop its keyed channels
+    const object = layerObjectMapRef.current.get(constraint.layerId);
+    if (object) {
+      animationRuntime.applyConstraints(
+        object,
+        remaining.filter((c) => c.layerId === constraint.layerId),
+        animationTracksRef.current.filter((track) => track.layerId === constraint.layerId),
+        timelineCurrentVh,
+        getConstraintTargets()
+      );
+      syncLayerTransform(constraint.layerId);
+    }
+    const prefix = `${CONSTRAINT_PROPERTY_PREFIX}${id}.`;
+    if (animationTracksRef.current.some((track) => track.propertyId.startsWith(prefix))) {
+      const next = animationTracksRef.current.filter((track) => !track.propertyId.startsWith(prefix));
+      animationTracksRef.current = next;
+      setAnimationTracks(next);
+      pushHistory("Delete constraint", next);
+    }
+  };
+
+  // Settings for one constraint in the layer panel.
+  const renderLayerConstraint = (constraint: LayerConstraint) => {
+    const label = LAYER_CONSTRAINT_TYPES.find((entry) => entry.type === constraint.type)?.label ?? constraint.type;
+    const influenceKeyed = hasTrackKeyframes(constraint.layerId, getConstraintPropertyId(constraint.id, "influence"));
+    const isEditingPath = editingConstraintPath?.id === constraint.id;
+    return (
+      <div key={constraint.id} className="space-y-2 rounded-md border border-border/60 p-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-1 text-xs font-medium">
+            <Link2 className="h-3 w-3" />
+            {label}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-6 w-6 p-0"
+            onClick={() => removeLayerConstraint(constraint.id)}
+            title="Remove constraint"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        {constraint.type === "followPath" ? (
+          <>
+            <p className="text-[11px] text-muted-foreground">
+              Key <span className="font-medium">Progress</span> (0–1) on the layer&apos;s timeline rows; unkeyed, the
+              layer travels the path evenly across the range.
+            </p>
+            <div className="space-y-1">
+              {constraint.path.points.map((point, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={isEditingPath && editingConstraintPath?.pointIndex === index ? "default" : "ghost"}
+                    className="h-7 w-8 shrink-0 p-0 text-[11px]"
+                    onClick={() => setEditingConstraintPath({ id: constraint.id, pointIndex: index })}
+                    title="Select point"
+                  >
+                    P{index + 1}
+                  </Button>
+                  {point.map((component, axis) => (
+                    <Input
+                      key={axis}
+                      type="number"
+                      step={0.1}
+                      value={component}
+                      onChange={(event) => {
+                        const parsed = Number(event.target.value);
+                        if (Number.isNaN(parsed)) return;
+                        const next = [...point] as [number, number, number];
+                        next[axis] = parsed;
+                        setConstraintPathPoint(constraint.id, index, next);
+                      }}
+                      className="h-7 min-w-0 flex-1 px-1 text-[11px]"
+                    />
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 shrink-0 p-0"
+                    disabled={constraint.path.points.length <= 2}
+                    onClick={() => {
+                      updateLayerConstraint(constraint.id, {
+                        path: { ...constraint.path, points: constraint.path.points.filter((_, i) => i !== index) },
+                      });
+                      if (isEditingPath) setEditingConstraintPath({ id: constraint.id, pointIndex: null });
+                    }}
+                    title="Remove point"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => {
+                  // Continue along the last segment
+                  const points = constraint.path.points;
+                  const last = new THREE.Vector3(...points[points.length - 1]);
+                  const next = last.clone().multiplyScalar(2).sub(new THREE.Vector3(...points[points.length - 2]));
+                  const point = next.toArray().map((v) => Number(v.toFixed(4))) as [number, number, number];
+                  updateLayerConstraint(constraint.id, { path: { ...constraint.path, points: [...points, point] } });
+                  setEditingConstraintPath({ id: constraint.id, pointIndex: points.length });
+                }}
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add point
+              </Button>
+              <Button
+                size="sm"
+                variant={isEditingPath ? "default" : "secondary"}
+                onClick={() => setEditingConstraintPath(isEditingPath ? null : { id: constraint.id, pointIndex: null })}
+              >
+                <Spline className="mr-1 h-3.5 w-3.5" />
+                {isEditingPath ? "Hide path" : "Show path"}
+              </Button>
+            </div>
+            <ToggleField
+              label="Closed loop"
+              checked={Boolean(constraint.path.closed)}
+              onChange={(closed) => updateLayerConstraint(constraint.id, { path: { ...constraint.path, closed } })}
+            />
+            <ToggleField
+              label="Face along path"
+              checked={constraint.orient}
+              onChange={(orient) => updateLayerConstraint(constraint.id, { orient })}
+            />
+          </>
+        ) : (
+          <select
+            value={constraint.target ?? ""}
+            onChange={(event) =>
+              updateLayerConstraint(constraint.id, {
+                target: constraint.type === "lookAt" ? event.target.value || null : event.target.value,
+              })
+            }
+            className="h-7 w-full rounded-md border border-input bg-background px-2 text-[11px]"
+          >
+            <option value="">{constraint.type === "lookAt" ? "Camera" : "Pick a layer…"}</option>
+            {getConstraintTargetLayers(constraint.layerId).map((layer) => (
+              <option key={layer.id} value={layer.id}>
+                {"\u00a0".repeat(layer.depth * 2)}
+                {layer.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="grid grid-cols-2 gap-1">
+          {(["startVh", "endVh"] as const).map((key) => (
+            <div key={key} className="space-y-0.5">
+              <Label className="text-[11px] text-muted-foreground">{key === "startVh" ? "From vh" : "To vh"}</Label>
+              <Input
+                type="number"
+                step={1}
+                value={constraint[key]}
+                onChange={(event) => {
+                  const parsed = Number(event.target.value);
+                  if (event.target.value === "" || Number.isNaN(parsed)) return;
+                  updateLayerConstraint(constraint.id, { [key]: THREE.MathUtils.clamp(parsed, 0, timelineLengthVh) });
+                }}
+                className="h-7 px-1 text-[11px]"
+              />
+            </div>
+          ))}
+        </div>
+        <SliderField
+          label={influenceKeyed ? "Influence (keyed)" : "Influence"}
+          value={constraint.influence}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(influence) => updateLayerConstraint(constraint.id, { influence })}
+        />
+      </div>
+    );
+  };
+
+  const toggleCameraTrack = (propertyId: string, enabled: boolean) => {
+    const prev = animationTracksRef.current;
+    let next: AnimationTrack[];
     if (!enabled) {
-      if (index < 0) return;
-      newTracks = prev.filter((_, i) => i !== index);
+      next = prev.filter((track) => !(track.layerId === CAMERA_TRACK_ID && track.propertyId === propertyId));
     } else {
+      const view = readLiveCameraView() ?? getCameraViewAtVh(timelineCurrentVh) ?? DEFAULT_CAMERA_VIEW;
       const atVh = Number(timelineCurrentVh.toFixed(2));
-      const value = Number(getTimelinePropertyValue(layer, propertyId).toFixed(4));
-      if (index < 0) {
-        newTracks = [...prev, { layerId: layer.id, propertyId, keyframes: [{ atVh, value }] }];
-      } else {
-        const next = [...prev];
-        const keyframes = [...next[index].keyframes];
-        const existing = keyframes.findIndex((kf) => Number(kf.atVh.toFixed(2)) === atVh);
-        if (existing >= 0) keyframes[existing] = { ...keyframes[existing], value }; // preserve easing
-        else keyframes.push({ atVh, value });
-        keyframes.sort((a, b) => a.atVh - b.atVh);
-        next[index] = { ...next[index], keyframes };
-        newTracks = next;
-      }
+      const value = Number(getCameraViewChannel(view, propertyId).toFixed(4));
+      next = upsertTrackKeyframe(prev, CAMERA_TRACK_ID, propertyId, atVh, value);
     }
-    setAnimationTracks(newTracks);
-    pushHistory(enabled ? "Enable animation" : "Disable animation", newTracks);
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    pushHistory(enabled ? "Enable animation" : "Disable animation", next);
   };
 
-  const navigateTrackKeyframe = (
-    layerId: string,
-    propertyId: string,
-    direction: "prev" | "next"
+  const getLightBase = (lightTrackId: string): LightStateSpec | null => {
+    if (lightTrackId === DIRECTIONAL_LIGHT_TRACK_ID) return getDirectionalLightBase(settings);
+    const light = pointLights.find((l) => getLightTrackId(l.id) === lightTrackId);
+    return light ? getPointLightBase(light) : null;
+  };
+
+  const getLightStateAtVh = (lightTrackId: string, base: LightStateSpec, atVh: number) => {
+    const tracks = getPlaybackTracks(animationTracks).filter((track) => track.layerId === lightTrackId && track.keyframes.length > 0);
+    return tracks.length > 0 ? animationRuntime.evaluateLightState(tracks, atVh, base) : base;
+  };
+
+  // Writes the configured light when the channel is not animated (like editing the sidebar).
+  const patchLightBase = (lightTrackId: string, state: LightStateSpec) => {
+    if (lightTrackId === DIRECTIONAL_LIGHT_TRACK_ID) {
+      patchSettings({
+        directionalIntensity: state.intensity,
+        directionalColor: rgbToHex(state.color),
+        directionalX: state.position[0],
+        directionalY: state.position[1],
+        directionalZ: state.position[2],
+      });
+      return;
+    }
+    const light = pointLights.find((l) => getLightTrackId(l.id) === lightTrackId);
+    if (!light) return;
+    updatePointLight(light.id, {
+      intensity: state.intensity,
+      color: rgbToHex(state.color),
+      x: state.position[0],
+      y: state.position[1],
+      z: state.position[2],
+      distance: state.distance,
+      decay: state.decay,
+    });
+  };
+
+  // Sets light channels at the playhead: animated channels get a keyframe, the others
+  // change the configured light. Returns whether keyframes changed; `commit` records history.
+  const setLightChannelsAtPlayhead = (
+    lightTrackId: string,
+    values: { propertyId: string; value: number }[],
+    commit: boolean
   ) => {
-    const track = getTrack(layerId, propertyId);
-    if (!track || track.keyframes.length === 0) return;
-    const current = Number(timelineCurrentVh.toFixed(2));
-    if (direction === "prev") {
-      const candidates = track.keyframes.filter((kf) => kf.atVh < current - 1e-6);
-      const target = candidates.at(-1) ?? track.keyframes[0];
-      setTimelineSeekVh(target.atVh);
+    const base = getLightBase(lightTrackId);
+    if (!base) return false;
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    let nextBase = base;
+    let next = animationTracksRef.current;
+    let keyed = false;
+    values.forEach(({ propertyId, value }) => {
+      if (hasTrackKeyframes(lightTrackId, propertyId)) {
+        const clamped = getLightStateChannel(setLightStateChannel(base, propertyId, value), propertyId);
+        next = upsertTrackKeyframe(next, lightTrackId, propertyId, atVh, Number(clamped.toFixed(4)));
+        keyed = true;
+      } else {
+        nextBase = setLightStateChannel(nextBase, propertyId, value);
+      }
+    });
+    if (nextBase !== base) patchLightBase(lightTrackId, nextBase);
+    if (!keyed) return false;
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    setHasUnsavedChanges(true);
+    if (commit) pushHistory("Set keyframe", next);
+    return true;
+  };
+
+  const keyLightChannelAtPlayhead = (lightTrackId: string, propertyId: string) => {
+    const base = getLightBase(lightTrackId);
+    if (!base) return;
+    const atVh = Number(timelineCurrentVh.toFixed(2));
+    const value = getLightStateChannel(getLightStateAtVh(lightTrackId, base, timelineCurrentVh), propertyId);
+    const next = upsertTrackKeyframe(animationTracksRef.current, lightTrackId, propertyId, atVh, Number(value.toFixed(4)));
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    pushHistory("Set keyframe", next);
+  };
+
+  const toggleLightTrack = (lightTrackId: string, propertyId: string, enabled: boolean) => {
+    if (enabled) {
+      keyLightChannelAtPlayhead(lightTrackId, propertyId);
       return;
     }
-    const candidates = track.keyframes.filter((kf) => kf.atVh > current + 1e-6);
-    const target = candidates[0] ?? track.keyframes[track.keyframes.length - 1];
-    setTimelineSeekVh(target.atVh);
+    const next = animationTracksRef.current.filter(
+      (track) => !(track.layerId === lightTrackId && track.propertyId === propertyId)
+    );
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    pushHistory("Disable animation", next);
   };
 
-  const setKeyframeEasing = (kfIds: Set<string>, easing: EasingType) => {
-    const prev = animationTracksRef.current;
-    const newTracks = prev.map((track) => {
-      const updated = track.keyframes.map((kf) => {
-        const id = makeKfId(track.layerId, track.propertyId, kf.atVh);
-        return kfIds.has(id) ? { ...kf, easing } : kf;
+  const getMaterialGroupNames = () => {
+    const names = new Set(timelineMaterialNames);
+    animationTracks.forEach((track) => {
+      if (track.layerId.startsWith(MATERIAL_TRACK_PREFIX)) names.add(track.layerId.slice(MATERIAL_TRACK_PREFIX.length));
+    });
+    return [...names].filter((name) => materialsByName.has(name));
+  };
+
+  const getMaterialBaseByName = (name: string) => {
+    const material = materialsByName.get(name)?.[0];
+    return material ? animationRuntime.getMaterialBase(material) : null;
+  };
+
+  const getMaterialStateAtVh = (materialTrackId: string, base: MaterialStateSpec, atVh: number) => {
+    const tracks = animationTracks.filter((track) => track.layerId === materialTrackId && track.keyframes.length > 0);
+    return tracks.length > 0 ? animationRuntime.evaluateMaterialState(tracks, atVh, base) : base;
+  };
+
+  // Drives every material that has tracks; materials whose tracks were all removed go back
+  // to their loaded state.
+  const applyMaterialTracksAtVh = (atVh: number) => {
+    const byId = new Map<string, AnimationTrack[]>();
+    getPlaybackTracks(animationTracksRef.current).forEach((track) => {
+      if (!track.layerId.startsWith(MATERIAL_TRACK_PREFIX) || track.keyframes.length === 0) return;
+      byId.set(track.layerId, [...(byId.get(track.layerId) ?? []), track]);
+    });
+    const ids = new Set([...animatedMaterialIdsRef.current, ...byId.keys()]);
+    ids.forEach((id) => {
+      const materials = materialsByName.get(id.slice(MATERIAL_TRACK_PREFIX.length)) ?? [];
+      materials.forEach((material) => {
+        const base = animationRuntime.getMaterialBase(material);
+        animationRuntime.applyMaterialState(
+          material,
+          animationRuntime.evaluateMaterialState(byId.get(id) ?? [], atVh, base)
+        );
       });
-      return { ...track, keyframes: updated };
     });
-    setAnimationTracks(newTracks);
-    pushHistory("Set easing", newTracks);
+    animatedMaterialIdsRef.current = new Set(byId.keys());
   };
 
-  const upsertKeyframeAtCurrentTime = (layer: LayerItem, propertyId: string, doHistory = false) => {
+  // Material channels are always keyed: the GLB's materials are not part of the saved config.
+  const setMaterialChannelsAtPlayhead = (
+    materialTrackId: string,
+    values: { propertyId: string; value: number }[],
+    commit: boolean
+  ) => {
     const atVh = Number(timelineCurrentVh.toFixed(2));
-    // Read from the live Three.js object so we never get stale React state
-    const liveObject = layerObjectMapRef.current.get(layer.id);
-    let rawValue: number;
-    if (liveObject) {
-      switch (propertyId) {
-        case "position.x": rawValue = liveObject.position.x; break;
-        case "position.y": rawValue = liveObject.position.y; break;
-        case "position.z": rawValue = liveObject.position.z; break;
-        case "rotation.x": rawValue = getObjectRotationInfo(liveObject).rotation.x; break;
-        case "rotation.y": rawValue = getObjectRotationInfo(liveObject).rotation.y; break;
-        case "rotation.z": rawValue = getObjectRotationInfo(liveObject).rotation.z; break;
-        case "scale.uniform": rawValue = liveObject.scale.x; break;
-        case "opacity": rawValue = getObjectOpacity(liveObject); break;
-        default: rawValue = getTimelinePropertyValue(layer, propertyId);
-      }
-    } else {
-      rawValue = getTimelinePropertyValue(layer, propertyId);
+    let next = animationTracksRef.current;
+    values.forEach(({ propertyId, value }) => {
+      next = upsertTrackKeyframe(next, materialTrackId, propertyId, atVh, Number(value.toFixed(4)));
+    });
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    setHasUnsavedChanges(true);
+    if (commit) pushHistory("Set keyframe", next);
+    return true;
+  };
+
+  const toggleMaterialTrack = (materialTrackId: string, propertyId: string, enabled: boolean) => {
+    const base = getMaterialBaseByName(materialTrackId.slice(MATERIAL_TRACK_PREFIX.length));
+    if (!base) return;
+    if (enabled) {
+      const value = getMaterialStateChannel(getMaterialStateAtVh(materialTrackId, base, timelineCurrentVh), propertyId);
+      setMaterialChannelsAtPlayhead(materialTrackId, [{ propertyId, value }], true);
+      return;
     }
-    const value = Number(rawValue.toFixed(4));
-    const prev = animationTracksRef.current;
-    const next = [...prev];
-    const index = next.findIndex(
-      (track) => track.layerId === layer.id && track.propertyId === propertyId
+    const next = animationTracksRef.current.filter(
+      (track) => !(track.layerId === materialTrackId && track.propertyId === propertyId)
     );
-    if (index < 0) {
-      next.push({ layerId: layer.id, propertyId, keyframes: [{ atVh, value }] });
-    } else {
-      const keyframes = [...next[index].keyframes];
-      const existing = keyframes.findIndex((kf) => Number(kf.atVh.toFixed(2)) === atVh);
-      if (existing >= 0) {
-        keyframes[existing] = { ...keyframes[existing], value }; // preserve easing
-      } else {
-        keyframes.push({ atVh, value });
-      }
-      keyframes.sort((a, b) => a.atVh - b.atVh);
-      next[index] = { ...next[index], keyframes };
-    }
-    lastUpsertTracksRef.current = next;
+    animationTracksRef.current = next;
+    setAnimationTracks(next);
+    pushHistory("Disable animation", next);
+  };
+
+  const addMaterialGroup = (name: string) => {
+    if (!name) return;
+    setTimelineMaterialNames((prev) => (prev.includes(name) ? prev : [...prev, name]));
+    setTimelineExpandedLayerIds((prev) => new Set(prev).add(getMaterialTrackId(name)));
+  };
+
+  const removeMaterialGroup = (name: string) => {
+    setTimelineMaterialNames((prev) => prev.filter((n) => n !== name));
+    const trackId = getMaterialTrackId(name);
+    if (!animationTracksRef.current.some((track) => track.layerId === trackId)) return;
+    const next = animationTracksRef.current.filter((track) => track.layerId !== trackId);
+    animationTracksRef.current = next;
     setAnimationTracks(next);
+    pushHistory("Remove material tracks", next);
+  };
+
+  const toggleClipBinding = (clip: THREE.AnimationClip, enabled: boolean) => {
+    setClipBindings((prev) => {
+      const rest = prev.filter((binding) => binding.clipName !== clip.name);
+      return enabled ? [...rest, createClipBinding(clip, timelineLengthVh)] : rest;
+    });
     setHasUnsavedChanges(true);
-    if (doHistory) {
-      pushHistory("Set keyframe", next);
-    }
   };
 
-  const getDepthShade = (depth: number) => {
-    const clamped = THREE.MathUtils.clamp(depth, 0, 8);
-    return Number((0.06 + clamped * 0.055).toFixed(3));
+  const updateClipBinding = (clipName: string, patch: Partial<ClipBindingSpec>) => {
+    const duration = modelClips.find((clip) => clip.name === clipName)?.duration ?? 0;
+    setClipBindings((prev) =>
+      prev.map((binding) =>
+        binding.clipName === clipName ? normalizeClipBinding({ ...binding, ...patch }, duration) : binding
+      )
+    );
+    setHasUnsavedChanges(true);
   };
 
-  const getTimelinePropertyValue = (layer: LayerItem, propertyId: string) => {
-    switch (propertyId) {
-      case "position.x":
-        return layer.position.x;
-      case "position.y":
-        return layer.position.y;
-      case "position.z":
-        return layer.position.z;
-      case "rotation.x":
-        return layer.rotation.x;
-      case "rotation.y":
-        return layer.rotation.y;
-      case "rotation.z":
-        return layer.rotation.z;
-      case "scale.uniform":
-        return layer.scale.x;
-      case "opacity":
-        return layer.opacity;
-      default:
-        return 0;
-    }
+  // New timed clips start at the playhead, with no tracks yet.
+  const addTimedClipAtPlayhead = () => {
+    const clip: TimedClip = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      name: `Timed clip ${timedClips.length + 1}`,
+      triggerVh: Number(timelineCurrentVhRef.current.toFixed(2)),
+      durationS: 1.5,
+      mode: "once",
+      tracks: [],
+    };
+    setTimedClipList([...timedClipsRef.current, clip], "Add timed clip");
+    setTimelineExpandedLayerIds((prev) => new Set(prev).add(TIMED_CLIPS_GROUP_ID));
+  };
+
+  // With `historyLabel` the edit records undo; typing and drags record once when done.
+  const setTimedClipList = (next: TimedClip[], historyLabel?: string) => {
+    timedClipsRef.current = next;
+    setTimedClips(next);
+    setHasUnsavedChanges(true);
+    if (historyLabel) pushHistory(historyLabel, undefined, next);
+  };
+
+  const updateTimedClip = (id: string, patch: Partial<TimedClip>, historyLabel?: string) => {
+    setTimedClipList(
+      timedClipsRef.current.map((clip) => (clip.id === id ? { ...clip, ...patch } : clip)),
+      historyLabel
+    );
+  };
+
+  const commitTimedClipTyping = () => {
+    if (!timedClipTypingRef.current) return;
+    timedClipTypingRef.current = false;
+    pushHistory("Edit timed clip");
   };
 
-  const getTimelinePropertyStep = (propertyId: string) => {
-    if (propertyId.startsWith("rotation.")) return "1";
-    if (propertyId === "opacity") return "0.01";
-    if (propertyId.startsWith("position.")) return "0.001";
-    return "0.001";
+  const removeTimedClip = (id: string) => {
+    setTimedClipList(
+      timedClipsRef.current.filter((clip) => clip.id !== id),
+      "Delete timed clip"
+    );
   };
 
-  const applyTimelinePropertyValue = (layer: LayerItem, propertyId: string, rawValue: string) => {
-    switch (propertyId) {
-      case "position.x":
-        updateLayerCoordinate(layer.id, "x", rawValue);
-        return;
-      case "position.y":
-        updateLayerCoordinate(layer.id, "y", rawValue);
-        return;
-      case "position.z":
-        updateLayerCoordinate(layer.id, "z", rawValue);
-        return;
-      case "rotation.x":
-      case "rotation.y":
-      case "rotation.z": {
-        const rotObj = layerObjectMapRef.current.get(layer.id);
-        if (!rotObj) return;
-        const rotVal = Number(rawValue);
-        if (Number.isNaN(rotVal)) return;
-        // Lazily capture the bounding-box centre (in parent-local space) and the
-        // object's base position/quaternion on the very first rotation call per
-        // layer per session. All subsequent calls reuse this fixed pivot so the
-        // position correction is deterministic and drift-free.
-        if (!rotationPivotRef.current.has(layer.id)) {
-          const bbox = new THREE.Box3().setFromObject(rotObj);
-          if (!bbox.isEmpty()) {
-            const centerWorld = new THREE.Vector3();
-            bbox.getCenter(centerWorld);
-            const centerLocal = rotObj.parent
-              ? rotObj.parent.worldToLocal(centerWorld.clone())
-              : centerWorld.clone();
-            rotationPivotRef.current.set(layer.id, {
-              centerLocal,
-              basePos: rotObj.position.clone(),
-              baseQuat: rotObj.quaternion.clone(),
-            });
-          }
-        }
-        const rotAxis = propertyId.split(".")[1] as "x" | "y" | "z";
-        const newRotX = rotAxis === "x" ? THREE.MathUtils.degToRad(rotVal) : rotObj.rotation.x;
-        const newRotY = rotAxis === "y" ? THREE.MathUtils.degToRad(rotVal) : rotObj.rotation.y;
-        const newRotZ = rotAxis === "z" ? THREE.MathUtils.degToRad(rotVal) : rotObj.rotation.z;
-        const pivotData = rotationPivotRef.current.get(layer.id);
-        if (pivotData) {
-          // Build the rotation delta from base to target, then rotate the
-          // (origin → center) offset vector by that delta and subtract from the
-          // fixed centre to get the new origin position.  This spins the object
-          // around its visual centre without touching any other state.
-          const newQuat = new THREE.Quaternion().setFromEuler(
-            new THREE.Euler(newRotX, newRotY, newRotZ, rotObj.rotation.order)
-          );
-          const deltaQuat = newQuat.clone().multiply(pivotData.baseQuat.clone().invert());
-          const V = new THREE.Vector3().subVectors(pivotData.centerLocal, pivotData.basePos);
-          const rotatedV = V.clone().applyQuaternion(deltaQuat);
-          rotObj.position.subVectors(pivotData.centerLocal, rotatedV);
-        }
-        rotObj.rotation.set(newRotX, newRotY, newRotZ, rotObj.rotation.order);
-        syncLayerTransform(layer.id);
-        return;
-      }
-      case "scale.uniform":
-        updateLayerUniformScale(layer.id, rawValue);
-        return;
-      case "opacity":
-        updateLayerOpacity(layer.id, rawValue);
-        return;
-      default:
-        return;
+  // New tracks hold the target's current value from the first to the last second.
+  const addTimedClipTrack = (clipId: string, target: string, propertyId: string) => {
+    const clip = timedClipsRef.current.find((c) => c.id === clipId);
+    if (!clip || !target || clip.tracks.some((track) => track.target === target && track.propertyId === propertyId)) {
+      return;
+    }
+    let value = 0;
+    if (isMaterialChannel(propertyId)) {
+      const base = getMaterialBaseByName(target);
+      if (base) value = getMaterialStateChannel(base, propertyId);
+    } else {
+      const object = layerObjectMapRef.current.get(target);
+      value = (object && animationRuntime.readTrackValue(object, propertyId)) ?? 0;
     }
+    value = Number(value.toFixed(4));
+    const track: TimedClipTrack = {
+      target,
+      propertyId,
+      keyframes: [
+        { atVh: 0, value, easing: "easeInOut" },
+        { atVh: clip.durationS, value, easing: "easeInOut" },
+      ],
+    };
+    updateTimedClip(clip.id, { tracks: [...clip.tracks, track] }, "Add timed clip track");
   };
 
-  const beginTimelinePropertyEdit = (layer: LayerItem, propertyId: string) => {
-    if (propertyId.startsWith("position.")) beginLayerTransform(layer.id);
-    else if (propertyId.startsWith("rotation.")) beginLayerRotation(layer.id);
-    else if (propertyId === "scale.uniform") beginLayerScale(layer.id);
+  const removeTimedClipTrack = (clipId: string, trackIndex: number) => {
+    const clip = timedClipsRef.current.find((c) => c.id === clipId);
+    if (!clip) return;
+    updateTimedClip(clip.id, { tracks: clip.tracks.filter((_, i) => i !== trackIndex) }, "Remove timed clip track");
   };
 
-  const commitTimelinePropertyEdit = (layer: LayerItem, propertyId: string) => {
-    if (propertyId.startsWith("position.")) commitLayerTransform(layer.id);
-    else if (propertyId.startsWith("rotation.")) commitLayerRotation(layer.id);
-    else if (propertyId === "scale.uniform") commitLayerScale(layer.id);
-    else if (propertyId === "opacity") commitLayerOpacity(layer.id);
-    // If a keyframe already exists at this position, save the edited value into it
-    const atVh = Number(timelineCurrentVh.toFixed(2));
-    const track = getTrack(layer.id, propertyId);
-    if (track?.keyframes.some((kf) => Number(kf.atVh.toFixed(2)) === atVh)) {
-      upsertKeyframeAtCurrentTime(layer, propertyId);
-    }
+  // `patch` null removes the keyframe; edited keyframes are kept in time order.
+  const updateTimedClipKeyframe = (
+    clipId: string,
+    trackIndex: number,
+    keyframeIndex: number,
+    patch: Partial<AnimationKeyframe> | null,
+    historyLabel?: string
+  ) => {
+    const clip = timedClipsRef.current.find((c) => c.id === clipId);
+    if (!clip) return;
+    updateTimedClip(
+      clip.id,
+      {
+        tracks: clip.tracks.map((track, i) => {
+          if (i !== trackIndex) return track;
+          const keyframes = patch
+            ? track.keyframes.map((kf, k) => (k === keyframeIndex ? { ...kf, ...patch } : kf))
+            : track.keyframes.filter((_, k) => k !== keyframeIndex);
+          return { ...track, keyframes: [...keyframes].sort((a, b) => a.atVh - b.atVh) };
+        }),
+      },
+      historyLabel
+    );
   };
 
-  useEffect(() => {
-    applyTimelinePropertyValueRef.current = applyTimelinePropertyValue;
-    commitTimelinePropertyEditRef.current = commitTimelinePropertyEdit;
-    upsertKeyframeAtCurrentTimeRef.current = upsertKeyframeAtCurrentTime;
-  });
-
-  useEffect(() => {
-    if (animationTracks.length === 0) return;
-    for (const track of animationTracks) {
-      const layer = layerItemsRef.current.find((l) => l.id === track.layerId);
-      if (!layer) continue;
-      const value = evaluateTrackAtVh(track, timelineCurrentVh);
-      applyTimelinePropertyValueRef.current(layer, track.propertyId, String(value));
+  // Keys `atSeconds` with the track's value there; by default the clip's last second if it
+  // is free, else halfway between the last two keyframes.
+  const addTimedClipKeyframe = (clipId: string, trackIndex: number, atSeconds?: number) => {
+    const clip = timedClipsRef.current.find((c) => c.id === clipId);
+    const track = clip?.tracks[trackIndex];
+    if (!clip || !track) return;
+    let atVh = atSeconds ?? clip.durationS;
+    if (atSeconds === undefined) {
+      const last = track.keyframes[track.keyframes.length - 1];
+      const previous = track.keyframes[track.keyframes.length - 2];
+      if (last && last.atVh >= clip.durationS - 1e-3) atVh = previous ? (previous.atVh + last.atVh) / 2 : last.atVh / 2;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [timelineCurrentVh, animationTracks]);
+    atVh = Number(THREE.MathUtils.clamp(atVh, 0, clip.durationS).toFixed(3));
+    if (track.keyframes.some((kf) => kf.atVh === atVh)) return;
+    const value = Number(animationRuntime.evaluateTrack(track, atVh).toFixed(4));
+    updateTimedClip(
+      clip.id,
+      {
+        tracks: clip.tracks.map((t, i) =>
+          i === trackIndex
+            ? { ...t, keyframes: [...t.keyframes, { atVh, value, easing: "easeInOut" as const }].sort((a, b) => a.atVh - b.atVh) }
+            : t
+        ),
+      },
+      "Add timed clip keyframe"
+    );
+  };
 
-  const PLAYBACK_SPEED_VH_PER_SEC = 50;
-  useEffect(() => {
-    if (!isPlaying) {
-      if (playbackRafRef.current !== null) {
-        cancelAnimationFrame(playbackRafRef.current);
-        playbackRafRef.current = null;
-      }
-      return;
-    }
-    lastPlayTimestampRef.current = performance.now();
-    const tick = (now: number) => {
-      const delta = (now - lastPlayTimestampRef.current) / 1000;
-      lastPlayTimestampRef.current = now;
-      const nextVh = Math.min(
-        timelineCurrentVhRef.current + delta * PLAYBACK_SPEED_VH_PER_SEC,
+  // Dragging a timed clip's flag moves its trigger; a click without movement opens it.
+  const startTimedClipDrag = (event: React.PointerEvent<HTMLElement>, clip: TimedClip) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    (document.activeElement as HTMLElement)?.blur();
+    setIsPlaying(false);
+    const lane = event.currentTarget.closest("[data-clip-lane]");
+    if (!lane) return;
+    const width = Math.max(1, lane.getBoundingClientRect().width);
+    const startX = event.clientX;
+    const startY = event.clientY;
+    let moved = false;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (!moved && Math.abs(moveEvent.clientX - startX) < 3) return;
+      moved = true;
+      const triggerVh = THREE.MathUtils.clamp(
+        clip.triggerVh + ((moveEvent.clientX - startX) / width) * timelineLengthVh,
+        0,
         timelineLengthVh
       );
-      timelineCurrentVhRef.current = nextVh;
-      setTimelineCurrentVh(Number(nextVh.toFixed(2)));
-      setTimelineProgress(nextVh / Math.max(1, timelineLengthVh));
-      if (nextVh >= timelineLengthVh) {
-        setIsPlaying(false);
-        return;
-      }
-      playbackRafRef.current = requestAnimationFrame(tick);
-    };
-    playbackRafRef.current = requestAnimationFrame(tick);
-    return () => {
-      if (playbackRafRef.current !== null) {
-        cancelAnimationFrame(playbackRafRef.current);
-        playbackRafRef.current = null;
-      }
+      updateTimedClip(clip.id, { triggerVh: Number(triggerVh.toFixed(2)) });
     };
-  }, [isPlaying, timelineLengthVh]);
 
-  useEffect(() => {
-    if (!timelineScrollEl) return;
-    const onWheel = (event: WheelEvent) => {
-      if (!event.ctrlKey) return;
-      event.preventDefault();
-      adjustTimelineZoom(event.deltaY < 0 ? "in" : "out");
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      if (moved) pushHistory("Move timed clip");
+      else setTimedClipMenu({ id: clip.id, x: startX, y: startY, target: "", propertyId: "" });
     };
-    timelineScrollEl.addEventListener("wheel", onWheel, { passive: false });
-    return () => timelineScrollEl.removeEventListener("wheel", onWheel);
-  }, [timelineScrollEl, timelineZoom]);
 
-  const startTimelineModifierDrag = (
-    event: React.PointerEvent<HTMLSpanElement>,
-    layer: LayerItem,
-    propertyId: string
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  // Selects a keyframe on a timed clip's track lane and drags its time; it stays between
+  // its neighbours so the selection's index holds.
+  const startTimedClipKeyframeDrag = (
+    event: React.PointerEvent<HTMLElement>,
+    clip: TimedClip,
+    trackIndex: number,
+    keyframeIndex: number
   ) => {
+    if (event.button !== 0) return;
     event.preventDefault();
     event.stopPropagation();
     (document.activeElement as HTMLElement)?.blur();
-    beginTimelinePropertyEdit(layer, propertyId);
-    timelineModifierDragRef.current = {
-      layerId: layer.id,
-      propertyId,
-      startX: event.clientX,
-      startValue: getTimelinePropertyValue(layer, propertyId),
+    setIsPlaying(false);
+    setSelectedKfIds(new Set());
+    setTimedClipSelection({ clipId: clip.id, trackIndex, keyframeIndex });
+    const lane = event.currentTarget.closest("[data-clip-lane]");
+    const keyframes = clip.tracks[trackIndex]?.keyframes;
+    const keyframe = keyframes?.[keyframeIndex];
+    if (!lane || !keyframes || !keyframe) return;
+    const width = Math.max(1, lane.getBoundingClientRect().width);
+    const minS = keyframeIndex > 0 ? keyframes[keyframeIndex - 1].atVh + 0.01 : 0;
+    const maxS = keyframeIndex < keyframes.length - 1 ? keyframes[keyframeIndex + 1].atVh - 0.01 : clip.durationS;
+    const startX = event.clientX;
+    let moved = false;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (!moved && Math.abs(moveEvent.clientX - startX) < 3) return;
+      moved = true;
+      const atSeconds = THREE.MathUtils.clamp(
+        keyframe.atVh + ((moveEvent.clientX - startX) / width) * clip.durationS,
+        minS,
+        maxS
+      );
+      updateTimedClipKeyframe(clip.id, trackIndex, keyframeIndex, { atVh: Number(atSeconds.toFixed(3)) });
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      if (moved) pushHistory("Move timed clip keyframe");
     };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
   };
 
-  const applyCameraView = (view: CameraView) => {
-    const controls = orbitControlsRef.current;
-    const camera = cameraRef.current;
-    if (!controls || !camera) return;
-    camera.position.set(view.position[0], view.position[1], view.position[2]);
-    camera.fov = view.fov;
-    camera.zoom = view.zoom;
-    camera.updateProjectionMatrix();
-    controls.target.set(view.target[0], view.target[1], view.target[2]);
-    controls.update();
+  // Drags a clip bar (`move`) or one of its edges; vh deltas follow the lane width.
+  const startClipBarDrag = (
+    event: React.PointerEvent<HTMLElement>,
+    binding: ClipBindingSpec,
+    mode: "move" | "start" | "end"
+  ) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    (document.activeElement as HTMLElement)?.blur();
+    setIsPlaying(false);
+    const lane = event.currentTarget.closest("[data-clip-lane]");
+    if (!lane) return;
+    const width = Math.max(1, lane.getBoundingClientRect().width);
+    const startX = event.clientX;
+    const round = (value: number) => Number(value.toFixed(2));
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const delta = ((moveEvent.clientX - startX) / width) * timelineLengthVh;
+      if (mode === "move") {
+        const shift = THREE.MathUtils.clamp(delta, -binding.startVh, Math.max(0, timelineLengthVh - binding.endVh));
+        updateClipBinding(binding.clipName, { startVh: round(binding.startVh + shift), endVh: round(binding.endVh + shift) });
+      } else if (mode === "start") {
+        updateClipBinding(binding.clipName, {
+          startVh: round(THREE.MathUtils.clamp(binding.startVh + delta, 0, binding.endVh - MIN_CLIP_SPAN_VH)),
+        });
+      } else {
+        updateClipBinding(binding.clipName, {
+          endVh: round(
+            THREE.MathUtils.clamp(
+              binding.endVh + delta,
+              binding.startVh + MIN_CLIP_SPAN_VH,
+              Math.max(timelineLengthVh, binding.startVh + MIN_CLIP_SPAN_VH)
+            )
+          ),
+        });
+      }
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
   };
 
   const selectLayer = (layerId: string) => {
@@ -2044,6 +5181,21 @@ export function GlbViewer() {
     setSelectedLayerId(null);
   };
 
+  // Viewport bone picks unfold the skeleton down to the bone so its row is visible.
+  const selectBoneFromViewport = (boneId: string) => {
+    setCollapsedGroupIds((prev) => {
+      const next = new Set(prev);
+      let parentId = layerItems.find((item) => item.id === boneId)?.parentId ?? null;
+      while (parentId) {
+        next.delete(parentId);
+        const currentId: string = parentId;
+        parentId = layerItems.find((item) => item.id === currentId)?.parentId ?? null;
+      }
+      return next;
+    });
+    selectLayer(boneId);
+  };
+
   const handleCanvasPointerMissed = () => {
     if (isolationStackRef.current.length > 0) {
       setIsolationStack((prev) => prev.slice(0, -1));
@@ -2078,7 +5230,10 @@ export function GlbViewer() {
         (gltf) => {
           if (loadId !== loadIdRef.current) return;
           setModelScene(gltf.scene);
-          rotationPivotRef.current.clear();
+          setModelClips(gltf.animations);
+          setClipBindings([]);
+          setTimedClips([]);
+          animationRuntime.resetPivots();
           const { items, objectMap } = getLayerItems(gltf.scene);
           setLayerItems(items);
           layerObjectMapRef.current = objectMap;
@@ -2088,10 +5243,20 @@ export function GlbViewer() {
           setRenameValue("");
           setLayerDetailsOpen({});
           setLayerSectionOpen({});
-          setCollapsedGroupIds(new Set());
+          // Each skeleton starts folded into its root bone
+          setCollapsedGroupIds(
+            new Set(
+              items
+                .filter((item) => isBoneLayer(item) && item.hasChildren && !isBoneLayer(items.find((p) => p.id === item.parentId)))
+                .map((item) => item.id)
+            )
+          );
+          setBonePickerActive(false);
           setTimelineExpandedLayerIds(new Set());
           setAnimationTracks([]);
           setPinnedCameraView(null);
+          setScenes([createTimelineScene("scene-1", "Scene 1")]);
+          setActiveSceneId("scene-1");
           setViewMode("animate");
           const emptyDeleted = new Set<string>();
           setDeletedLayerIds(emptyDeleted);
@@ -2104,6 +5269,7 @@ export function GlbViewer() {
               visible: object.visible,
               deleted: false,
               opacity: getObjectOpacity(object),
+              morphWeights: getObjectMorphWeights(object),
               position: {
                 x: object.position.x,
                 y: object.position.y,
@@ -2121,6 +5287,7 @@ export function GlbViewer() {
               },
             };
           });
+          layerRestSnapshotRef.current = initialSnapshot;
           commitHistoryState(
             [
               {
@@ -2128,6 +5295,7 @@ export function GlbViewer() {
                 label: "Initial state",
                 snapshot: initialSnapshot,
                 tracks: [],
+                timedClips: [],
               },
             ],
             0
@@ -2187,11 +5355,17 @@ export function GlbViewer() {
   };
 
   const removePointLight = (id: string) => {
+    if (pointLights.length === 1) return;
     setHasUnsavedChanges(true);
-    setPointLights((prev) => {
-      if (prev.length === 1) return prev;
-      return prev.filter((l) => l.id !== id);
-    });
+    setPointLights((prev) => prev.filter((l) => l.id !== id));
+    // Drop the light's timeline rows along with it
+    const trackId = getLightTrackId(id);
+    if (animationTracksRef.current.some((track) => track.layerId === trackId)) {
+      const next = animationTracksRef.current.filter((track) => track.layerId !== trackId);
+      animationTracksRef.current = next;
+      setAnimationTracks(next);
+      pushHistory("Delete light", next);
+    }
   };
 
   const applyConfigPayload = (text: string): { ok: boolean; message: string } => {
@@ -2207,38 +5381,162 @@ export function GlbViewer() {
 
       setSettings(mergedSettings);
       setPointLights(mergedLights.length > 0 ? mergedLights : [createDefaultPointLight(0)]);
+      setScrollSmoothing(sanitizeScrollSmoothing(parsed.scrollSmoothing));
+      setScrollSnap(sanitizeScrollSnap(parsed.scrollSnap));
 
       // Animation data — backward compat: fields are optional
-      if (parsed.pinnedCameraView && typeof parsed.pinnedCameraView === "object") {
-        const cv = parsed.pinnedCameraView;
-        const view: CameraView = {
-          position: Array.isArray(cv.position) ? cv.position as [number, number, number] : DEFAULT_CAMERA_VIEW.position,
-          target:   Array.isArray(cv.target)   ? cv.target   as [number, number, number] : DEFAULT_CAMERA_VIEW.target,
-          fov:   typeof cv.fov  === "number" ? cv.fov  : DEFAULT_CAMERA_VIEW.fov,
-          zoom:  typeof cv.zoom === "number" ? cv.zoom : DEFAULT_CAMERA_VIEW.zoom,
-        };
-        setPinnedCameraView(view);
-        applyCameraView(view);
-      }
-
-      if (typeof parsed.timelineLengthVh === "number" && parsed.timelineLengthVh > 0) {
-        setTimelineLengthVh(parsed.timelineLengthVh);
-      }
+      const currentLayers = layerItemsRef.current;
+      // If the UUID still exists in the scene use it as-is, otherwise match by the saved
+      // layer name (handles re-upload with new UUIDs)
+      const resolveLayerId = (layerId: string, name: string | undefined) =>
+        currentLayers.some((l) => l.id === layerId)
+          ? layerId
+          : (currentLayers.find((l) => l.name === name)?.id ?? layerId);
+      const remapDriver = (modifier: TrackModifier): TrackModifier =>
+        modifier.type === "driver" ? { ...modifier, source: resolveLayerId(modifier.source, modifier.sourceName) } : modifier;
+
+      const parseCameraView = (cv: CameraView): CameraView => ({
+        position: Array.isArray(cv.position) ? cv.position as [number, number, number] : DEFAULT_CAMERA_VIEW.position,
+        target:   Array.isArray(cv.target)   ? cv.target   as [number, number, number] : DEFAULT_CAMERA_VIEW.target,
+        fov:   typeof cv.fov  === "number" ? cv.fov  : DEFAULT_CAMERA_VIEW.fov,
+        zoom:  typeof cv.zoom === "number" ? cv.zoom : DEFAULT_CAMERA_VIEW.zoom,
+      });
 
-      if (Array.isArray(parsed.animationTracks)) {
-        const currentLayers = layerItemsRef.current;
-        const remapped = (parsed.animationTracks as AnimationTrack[]).map((track) => {
-          // If the UUID still exists in the scene, use as-is
-          if (currentLayers.some((l) => l.id === track.layerId)) return track;
-          // Otherwise try to match by saved layer name (handles re-upload with new UUIDs)
-          if (track.layerName) {
-            const match = currentLayers.find((l) => l.name === track.layerName);
-            if (match) return { ...track, layerId: match.id };
+      const nextBreakpoints = (Array.isArray(parsed.breakpoints) ? parsed.breakpoints : [])
+        .filter((breakpoint) => breakpoint && typeof breakpoint.id === "string")
+        .map((breakpoint, index) => ({
+          id: breakpoint.id,
+          name: typeof breakpoint.name === "string" ? breakpoint.name : `Breakpoint ${index + 1}`,
+          maxWidth: typeof breakpoint.maxWidth === "number" && breakpoint.maxWidth > 0 ? breakpoint.maxWidth : null,
+          maxAspect: typeof breakpoint.maxAspect === "number" && breakpoint.maxAspect > 0 ? breakpoint.maxAspect : null,
+        }));
+      setBreakpoints(nextBreakpoints);
+      setPreviewBreakpointId(null);
+
+      const parseScene = (config: SceneConfig): SceneData => {
+        const lengthVh =
+          typeof config.timelineLengthVh === "number" && config.timelineLengthVh > 0 ? config.timelineLengthVh : 200;
+
+        const view =
+          config.pinnedCameraView && typeof config.pinnedCameraView === "object"
+            ? parseCameraView(config.pinnedCameraView)
+            : null;
+
+        let path: CameraPath | null = null;
+        if (config.cameraPath && Array.isArray(config.cameraPath.points)) {
+          const cp = config.cameraPath;
+          const points = cp.points.filter(
+            (point) => Array.isArray(point) && point.length === 3 && point.every((v) => typeof v === "number")
+          );
+          if (points.length >= 2) {
+            let lookAtLayerId = typeof cp.lookAtLayerId === "string" ? cp.lookAtLayerId : null;
+            if (lookAtLayerId && !currentLayers.some((l) => l.id === lookAtLayerId)) {
+              lookAtLayerId = currentLayers.find((l) => l.name === cp.lookAtLayerName)?.id ?? null;
+            }
+            path = { points, closed: Boolean(cp.closed), lookAtLayerId };
           }
-          return track;
+        }
+
+        const tracks = (Array.isArray(config.animationTracks) ? config.animationTracks : []).map((saved) => {
+          const track = saved.modifiers ? { ...saved, modifiers: saved.modifiers.map(remapDriver) } : saved;
+          if (isReservedTrackId(track.layerId)) return track;
+          return { ...track, layerId: resolveLayerId(track.layerId, track.layerName) };
         });
-        setAnimationTracks(remapped);
-      }
+
+        // Bindings refer to clips by name; drop those the loaded GLB does not have
+        const bindings = (Array.isArray(config.clipBindings) ? config.clipBindings : []).flatMap((binding) => {
+          const clip = modelClips.find((c) => c.name === binding?.clipName);
+          if (!clip) return [];
+          return [normalizeClipBinding({ ...createClipBinding(clip, lengthVh), ...binding }, clip.duration)];
+        });
+
+        // Same UUID → name fallback as the tracks, for the layer and the target
+        const constraints = (Array.isArray(config.layerConstraints) ? config.layerConstraints : []).map((constraint) => {
+          const layerId = resolveLayerId(constraint.layerId, constraint.layerName);
+          if (constraint.type === "followPath" || !constraint.target) return { ...constraint, layerId };
+          return { ...constraint, layerId, target: resolveLayerId(constraint.target, constraint.targetName) };
+        });
+
+        const markers = (Array.isArray(config.timelineMarkers) ? config.timelineMarkers : [])
+          .filter((marker) => marker && typeof marker.atVh === "number")
+          .map((marker, index) => ({
+            id: typeof marker.id === "string" ? marker.id : `${Date.now()}-${index}`,
+            atVh: marker.atVh,
+            label: typeof marker.label === "string" ? marker.label : `Marker ${index + 1}`,
+            color: typeof marker.color === "string" ? marker.color : MARKER_COLORS[index % MARKER_COLORS.length],
+            ...(marker.snap === true ? { snap: true } : {}),
+          }))
+          .sort((a, b) => a.atVh - b.atVh);
+
+        // Overrides of breakpoints the project no longer has are dropped
+        const overrides = (Array.isArray(config.breakpointOverrides) ? config.breakpointOverrides : [])
+          .filter((override) => override && nextBreakpoints.some((b) => b.id === override.breakpointId))
+          .map((override) => ({
+            breakpointId: override.breakpointId,
+            camera: override.camera ? parseCameraView(override.camera) : null,
+            tracks: (Array.isArray(override.tracks) ? override.tracks : [])
+              .filter((track) => track && typeof track.value === "number")
+              .map((track) => ({
+                ...track,
+                layerId: isReservedTrackId(track.layerId)
+                  ? track.layerId
+                  : resolveLayerId(track.layerId, track.layerName),
+                mode: track.mode === "offset" ? ("offset" as const) : ("value" as const),
+              })),
+          }));
+
+        const timed = (Array.isArray(config.timedClips) ? config.timedClips : [])
+          .filter((clip) => clip && typeof clip.id === "string" && typeof clip.triggerVh === "number")
+          .map((clip, index) => ({
+            id: clip.id,
+            name: typeof clip.name === "string" ? clip.name : `Timed clip ${index + 1}`,
+            triggerVh: clip.triggerVh,
+            durationS: typeof clip.durationS === "number" && clip.durationS > 0 ? clip.durationS : 1,
+            mode: TIMED_CLIP_MODES.some((entry) => entry.mode === clip.mode) ? clip.mode : ("once" as const),
+            tracks: (Array.isArray(clip.tracks) ? clip.tracks : [])
+              .filter((track) => track && typeof track.target === "string" && Array.isArray(track.keyframes))
+              .map((track) =>
+                isMaterialChannel(track.propertyId)
+                  ? track
+                  : { ...track, target: resolveLayerId(track.target, track.targetName) }
+              ),
+          }));
+
+        return {
+          pinnedCameraView: view,
+          cameraPath: path,
+          timelineLengthVh: lengthVh,
+          animationTracks: tracks,
+          clipBindings: bindings,
+          layerConstraints: constraints,
+          timelineMarkers: markers,
+          breakpointOverrides: overrides,
+          timedClips: timed,
+        };
+      };
+
+      // Without a scene list the config is the active scene alone
+      const activeData = parseScene(parsed);
+      const sceneEntries = (Array.isArray(parsed.scenes) ? parsed.scenes : []).filter(
+        (entry) => entry && typeof entry.id === "string"
+      );
+      const current = scenes.find((scene) => scene.id === activeSceneId) ?? scenes[0];
+      const nextActiveId = sceneEntries.some((entry) => entry.id === parsed.activeSceneId)
+        ? (parsed.activeSceneId ?? current.id)
+        : (sceneEntries[0]?.id ?? current.id);
+      const nextScenes =
+        sceneEntries.length > 0
+          ? sceneEntries.map((entry, index) =>
+              createTimelineScene(entry.id, typeof entry.name === "string" ? entry.name : `Scene ${index + 1}`, {
+                pageOffsetVh: typeof entry.pageOffsetVh === "number" ? Math.max(0, entry.pageOffsetVh) : 0,
+                ...(entry.id === nextActiveId ? activeData : parseScene(entry)),
+              })
+            )
+          : [{ ...current, ...activeData }];
+      restoreConstrainedLayers();
+      setScenes(nextScenes);
+      setActiveSceneId(nextActiveId);
+      loadSceneIntoEditor(activeData);
 
       setHasUnsavedChanges(true);
       return { ok: true, message: "Config applied." };
@@ -2254,14 +5552,19 @@ export function GlbViewer() {
   };
 
   const saveToFile = () => {
-    const payload: ConfigPayload = { settings, pointLights };
-    if (pinnedCameraView) payload.pinnedCameraView = pinnedCameraView;
-    if (timelineLengthVh !== 200) payload.timelineLengthVh = timelineLengthVh;
-    if (animationTracks.length > 0) {
-      payload.animationTracks = animationTracks.map((track) => ({
-        ...track,
-        layerName: getLayerName(track.layerId),
-      }));
+    const payload: ConfigPayload = { settings, pointLights, ...toSceneConfig(getActiveSceneData(), getLayerName) };
+    if (hasSceneSetup(scenes)) {
+      payload.scenes = scenes.map(({ id, name, pageOffsetVh, ...data }) =>
+        id === activeSceneId
+          ? { id, name, pageOffsetVh }
+          : { id, name, pageOffsetVh, ...toSceneConfig(data, getLayerName) }
+      );
+      payload.activeSceneId = activeSceneId;
+    }
+    if (scrollSmoothing.type !== "none") payload.scrollSmoothing = scrollSmoothing;
+    if (breakpoints.length > 0) payload.breakpoints = breakpoints;
+    if (scrollSnap.strength !== DEFAULT_SCROLL_SNAP.strength || scrollSnap.delayMs !== DEFAULT_SCROLL_SNAP.delayMs) {
+      payload.scrollSnap = scrollSnap;
     }
     const text = JSON.stringify(payload, null, 2);
     const blob = new Blob([text], { type: "application/json" });
@@ -2277,17 +5580,58 @@ export function GlbViewer() {
     setLayerMessage("Saved.");
   };
 
+  // Layer targets by name, as the exported page and animation JSON find layers.
+  const toExportTimedClip = (clip: TimedClip): TimedClipSpec => ({
+    ...clip,
+    tracks: clip.tracks.map(({ targetName: _targetName, ...track }) =>
+      isMaterialChannel(track.propertyId) ? track : { ...track, target: getLayerName(track.target) }
+    ),
+  });
+
   const downloadAnimationJson = () => {
-    const data = {
-      version: 1,
-      pinnedCameraView: pinnedCameraView ?? null,
-      timeline: { lengthVh: timelineLengthVh },
-      tracks: animationTracks.map((t) => ({
+    const toJsonScene = (scene: SceneData) => ({
+      pinnedCameraView: scene.pinnedCameraView ?? null,
+      cameraPath: scene.cameraPath
+        ? {
+            points: scene.cameraPath.points,
+            closed: scene.cameraPath.closed,
+            lookAtLayerName: scene.cameraPath.lookAtLayerId ? getLayerName(scene.cameraPath.lookAtLayerId) : null,
+          }
+        : null,
+      timeline: { lengthVh: scene.timelineLengthVh },
+      tracks: scene.animationTracks.map((t) => ({
         layerId: t.layerId,
         layerName: getLayerName(t.layerId),
-        propertyId: t.propertyId,
-        keyframes: t.keyframes.map(({ atVh, value, easing }) => ({ atVh, value, easing: easing ?? "linear" })),
+        ...toExportTrack(t, getLayerName),
+      })),
+      clips: scene.clipBindings,
+      constraints: scene.layerConstraints.map((constraint) => ({
+        layerId: constraint.layerId,
+        ...toExportConstraint(constraint, getLayerName),
       })),
+      markers: scene.timelineMarkers,
+      breakpointOverrides: scene.breakpointOverrides.map((override) => ({
+        ...override,
+        tracks: override.tracks.map((t) => ({ ...t, layerName: getLayerName(t.layerId) })),
+      })),
+      timedClips: scene.timedClips.map(toExportTimedClip),
+    });
+    // The top-level fields stay the active scene's; `scenes` lists all of them in page order
+    const data = {
+      version: 1,
+      scrollSmoothing,
+      scrollSnap,
+      breakpoints,
+      ...toJsonScene(getActiveSceneData()),
+      ...(scenes.length > 1
+        ? {
+            scenes: getProjectScenes().map((scene) => ({
+              name: scene.name,
+              pageOffsetVh: scene.pageOffsetVh,
+              ...toJsonScene(scene),
+            })),
+          }
+        : {}),
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -2303,8 +5647,65 @@ export function GlbViewer() {
 
   const exportHtmlAnimation = () => {
     if (!modelScene) return;
+    const projectScenes = getProjectScenes();
+    // The parts of a scene a breakpoint override can change.
+    const toExportVariant = (tracks: AnimationTrack[], view: CameraView | null): ExportSceneVariant => {
+      const getLightExportTracks = (lightTrackId: string) =>
+        tracks
+          .filter((t) => t.layerId === lightTrackId && t.keyframes.length > 0)
+          .map((t) => toExportTrack(t, getLayerName));
+      return {
+        directionalLight: settings.useDirectionalLight
+          ? { base: getDirectionalLightBase(settings), tracks: getLightExportTracks(DIRECTIONAL_LIGHT_TRACK_ID) }
+          : null,
+        pointLights: pointLights
+          .filter((l) => l.enabled)
+          .map((l) => ({ base: getPointLightBase(l), tracks: getLightExportTracks(getLightTrackId(l.id)) })),
+        pinnedCamera: view ? { position: view.position, target: view.target, fov: view.fov, zoom: view.zoom } : null,
+        tracks: tracks
+          .filter((t) => !isReservedTrackId(t.layerId))
+          .map((t) => ({ layerName: getLayerName(t.layerId), ...toExportTrack(t, getLayerName) })),
+        cameraTracks: tracks
+          .filter((t) => t.layerId === CAMERA_TRACK_ID && t.keyframes.length > 0)
+          .map((t) => toExportTrack(t, getLayerName)),
+        materialTracks: tracks
+          .filter((t) => t.layerId.startsWith(MATERIAL_TRACK_PREFIX) && t.keyframes.length > 0)
+          .map((t) => ({ materialName: t.layerId.slice(MATERIAL_TRACK_PREFIX.length), ...toExportTrack(t, getLayerName) })),
+      };
+    };
+    const toExportScene = (scene: TimelineScene): ExportScene => {
+      const { cameraPath: path } = scene;
+      const variants: Record<string, ExportSceneVariant> = {};
+      scene.breakpointOverrides.forEach((override) => {
+        if (!breakpoints.some((breakpoint) => breakpoint.id === override.breakpointId)) return;
+        const { tracks, camera } = applyBreakpointOverride(scene, override);
+        variants[override.breakpointId] = toExportVariant(tracks, camera);
+      });
+      return {
+        name: scene.name,
+        pageOffsetVh: scene.pageOffsetVh,
+        ...toExportVariant(scene.animationTracks, scene.pinnedCameraView),
+        timelineLengthVh: scene.timelineLengthVh,
+        variants,
+        cameraPath: path
+          ? {
+              points: path.points,
+              closed: path.closed,
+              lookAtLayerName: path.lookAtLayerId ? getLayerName(path.lookAtLayerId) : null,
+            }
+          : null,
+        clips: scene.clipBindings,
+        timedClips: scene.timedClips.map(toExportTimedClip),
+        constraints: scene.layerConstraints.map((constraint) => toExportConstraint(constraint, getLayerName)),
+        markers: scene.timelineMarkers,
+      };
+    };
     const exporter = new GLTFExporter();
-    const clone = modelScene.clone(true);
+    // Clone the rest pose (bound clips stopped) so the exported clips start from it;
+    // the skeleton-aware clone keeps skinned meshes bound to the cloned bones.
+    clipMixer?.stopAllAction();
+    const clone = cloneSkinned(modelScene);
+    if (clipMixer) animationRuntime.applyClips(clipMixer, modelClips, clipBindings, timelineCurrentVh);
     exporter.parse(
       clone,
       (result) => {
@@ -2319,18 +5720,10 @@ export function GlbViewer() {
           backgroundColor: settings.backgroundColor,
           useAmbientLight: settings.useAmbientLight,
           ambientIntensity: settings.ambientIntensity,
-          pointLights: pointLights
-            .filter((l) => l.enabled)
-            .map((l) => ({ color: l.color, intensity: l.intensity, x: l.x, y: l.y, z: l.z })),
-          pinnedCamera: pinnedCameraView
-            ? { position: pinnedCameraView.position, target: pinnedCameraView.target, fov: pinnedCameraView.fov, zoom: pinnedCameraView.zoom }
-            : null,
-          timelineLengthVh,
-          tracks: animationTracks.map((t) => ({
-            layerName: getLayerName(t.layerId),
-            propertyId: t.propertyId,
-            keyframes: t.keyframes.map(({ atVh, value, easing }) => ({ atVh, value, easing: easing ?? "linear" })),
-          })),
+          scrollSmoothing,
+          scrollSnap,
+          breakpoints,
+          scenes: projectScenes.map(toExportScene),
         };
         const html = generateAnimationHtml(glbDataUrl, cfg);
         const blob2 = new Blob([html], { type: "text/html" });
@@ -2345,7 +5738,13 @@ export function GlbViewer() {
         setLayerMessage("HTML animation exported.");
       },
       () => { setLayerMessage("Failed to export HTML."); },
-      { binary: true, onlyVisible: true }
+      {
+        binary: true,
+        onlyVisible: true,
+        animations: modelClips.filter((clip) =>
+          projectScenes.some((scene) => scene.clipBindings.some((binding) => binding.clipName === clip.name))
+        ),
+      }
     );
   };
 
@@ -2431,6 +5830,7 @@ export function GlbViewer() {
         visible: object.visible,
         deleted: deletedLayerIdsRef.current.has(id),
         opacity: getObjectOpacity(object),
+        morphWeights: getObjectMorphWeights(object),
         position: {
           x: object.position.x,
           y: object.position.y,
@@ -2461,6 +5861,7 @@ export function GlbViewer() {
           name: object.name.trim() || layer.name,
           visible: object.visible,
           opacity: getObjectOpacity(object),
+          morphWeights: getObjectMorphWeights(object),
           ...getObjectPositionInfo(object),
           ...getObjectRotationInfo(object),
           ...getObjectScaleInfo(object),
@@ -2469,12 +5870,13 @@ export function GlbViewer() {
     );
   };
 
-  const pushHistory = (label: string, newTracks?: AnimationTrack[]) => {
+  const pushHistory = (label: string, newTracks?: AnimationTrack[], newTimedClips?: TimedClip[]) => {
     const snapshot = captureLayerSnapshot();
     const tracks = (newTracks ?? animationTracksRef.current).map((t) => ({
       ...t,
       keyframes: [...t.keyframes],
     }));
+    const timedClips = newTimedClips ?? timedClipsRef.current;
     const base = historyEntriesRef.current.slice(0, historyIndexRef.current + 1);
     let next = [
       ...base,
@@ -2483,6 +5885,7 @@ export function GlbViewer() {
         label,
         snapshot,
         tracks,
+        timedClips,
       },
     ];
     const maxEntries = 40;
@@ -2500,7 +5903,10 @@ export function GlbViewer() {
       if (!object) return;
       object.name = value.name || object.name;
       object.visible = value.visible;
-      setObjectOpacity(object, value.opacity ?? 1);
+      animationRuntime.setObjectOpacity(object, value.opacity ?? 1);
+      Object.entries(value.morphWeights ?? {}).forEach(([name, weight]) =>
+        animationRuntime.setObjectMorphWeight(object, name, weight)
+      );
       object.position.set(value.position.x, value.position.y, value.position.z);
       object.rotation.set(
         value.rotation?.x ?? object.rotation.x,
@@ -2530,6 +5936,8 @@ export function GlbViewer() {
     setHistoryIndex(index);
     applyLayerSnapshot(entry.snapshot);
     setAnimationTracks(entry.tracks ?? []);
+    timedClipsRef.current = entry.timedClips ?? [];
+    setTimedClips(timedClipsRef.current);
     setIsolationStack([]);
   };
 
@@ -2556,7 +5964,8 @@ export function GlbViewer() {
     setIsPlaying(false);
     setMoveToolActive(false);
     setIsolationStack([]);
-    if (pinnedCameraView) applyCameraView(pinnedCameraView);
+    const view = getCameraViewAtVh(timelineCurrentVh);
+    if (view) applyCameraView(view);
     setViewMode("preview");
   };
 
@@ -2641,6 +6050,19 @@ export function GlbViewer() {
 
       if (key === "escape") {
         setSelectedKfIds(new Set());
+        setTimedClipSelection(null);
+        return;
+      }
+
+      if ((key === "delete" || key === "backspace") && selectedKfIds.size === 0 && timedClipSelection) {
+        event.preventDefault();
+        const { clipId, trackIndex, keyframeIndex } = timedClipSelection;
+        const track = timedClipsRef.current.find((clip) => clip.id === clipId)?.tracks[trackIndex];
+        // A track keeps at least one keyframe; remove the track itself to drop it
+        if (track && track.keyframes.length > 1) {
+          updateTimedClipKeyframe(clipId, trackIndex, keyframeIndex, null, "Delete timed clip keyframe");
+        }
+        setTimedClipSelection(null);
         return;
       }
 
@@ -2668,7 +6090,7 @@ export function GlbViewer() {
           for (const kf of track.keyframes) {
             if (selectedKfIds.has(makeKfId(track.layerId, track.propertyId, kf.atVh))) {
               if (kf.atVh < anchor) anchor = kf.atVh;
-              entries.push({ layerId: track.layerId, propertyId: track.propertyId, relVh: kf.atVh, value: kf.value, easing: kf.easing });
+              entries.push({ layerId: track.layerId, propertyId: track.propertyId, relVh: kf.atVh, keyframe: kf });
             }
           }
         }
@@ -2684,16 +6106,17 @@ export function GlbViewer() {
         for (const entry of clipboardKfsRef.current) {
           const atVh = Number((anchorVh + entry.relVh).toFixed(2));
           if (atVh < 0 || atVh > timelineLengthVh) continue;
+          const pasted = { ...entry.keyframe, atVh };
           const idx = next.findIndex(
             (t) => t.layerId === entry.layerId && t.propertyId === entry.propertyId
           );
           if (idx < 0) {
-            next.push({ layerId: entry.layerId, propertyId: entry.propertyId, keyframes: [{ atVh, value: entry.value, easing: entry.easing }] });
+            next.push({ layerId: entry.layerId, propertyId: entry.propertyId, keyframes: [pasted] });
           } else {
             const kfs = [...next[idx].keyframes];
             const existing = kfs.findIndex((kf) => Number(kf.atVh.toFixed(2)) === atVh);
-            if (existing >= 0) kfs[existing] = { ...kfs[existing], value: entry.value, easing: entry.easing };
-            else kfs.push({ atVh, value: entry.value, easing: entry.easing });
+            if (existing >= 0) kfs[existing] = pasted;
+            else kfs.push(pasted);
             kfs.sort((a, b) => a.atVh - b.atVh);
             next[idx] = { ...next[idx], keyframes: kfs };
           }
@@ -2719,6 +6142,16 @@ export function GlbViewer() {
         togglePlayRef.current();
         return;
       }
+      if (key === "m" && !mod) {
+        event.preventDefault();
+        addMarkerRef.current();
+        return;
+      }
+      if (key === "[" || key === "]") {
+        event.preventDefault();
+        navigateMarkerRef.current(key === "[" ? "prev" : "next");
+        return;
+      }
       if (key === "g" && selectedLayerId) {
         event.preventDefault();
         setMoveToolActive((prev) => !prev);
@@ -2727,7 +6160,7 @@ export function GlbViewer() {
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [viewMode, selectedKfIds, animationTracks, timelineCurrentVh, timelineLengthVh, stepVhBackward, stepVhForward, selectedLayerId]);
+  }, [viewMode, selectedKfIds, timedClipSelection, animationTracks, timelineCurrentVh, timelineLengthVh, stepVhBackward, stepVhForward, selectedLayerId]);
 
   const deleteLayer = (layerId: string) => {
     const object = layerObjectMapRef.current.get(layerId);
@@ -2906,7 +6339,17 @@ export function GlbViewer() {
     if (!object) return;
     const value = Number(rawValue);
     if (Number.isNaN(value)) return;
-    setObjectUniformScaleFromCenter(object, value);
+    animationRuntime.setObjectUniformScaleFromCenter(object, value);
+    syncLayerTransform(layerId);
+    setHasUnsavedChanges(true);
+  };
+
+  const updateLayerAxisScale = (layerId: string, axis: "x" | "y" | "z", rawValue: string) => {
+    const object = layerObjectMapRef.current.get(layerId);
+    if (!object) return;
+    const value = Number(rawValue);
+    if (Number.isNaN(value)) return;
+    animationRuntime.setObjectAxisScaleFromCenter(object, axis, value);
     syncLayerTransform(layerId);
     setHasUnsavedChanges(true);
   };
@@ -2927,7 +6370,7 @@ export function GlbViewer() {
       y: axis === "y" ? rounded : current.y,
       z: axis === "z" ? rounded : current.z,
     };
-    setObjectRotationFromCenter(object, nextRotation);
+    animationRuntime.setObjectRotationFromCenter(object, nextRotation);
     syncLayerTransform(layerId);
     setHasUnsavedChanges(true);
   };
@@ -2938,7 +6381,7 @@ export function GlbViewer() {
     const value = Number(rawValue);
     if (Number.isNaN(value)) return;
     const opacity = THREE.MathUtils.clamp(value, 0, 1);
-    setObjectOpacity(object, opacity);
+    animationRuntime.setObjectOpacity(object, opacity);
     object.updateMatrixWorld();
     setLayerItems((prev) =>
       prev.map((layer) =>
@@ -2947,8 +6390,23 @@ export function GlbViewer() {
     );
   };
 
-  const commitLayerOpacity = (layerId: string) => {
-    pushHistory(`Opacity: ${getLayerName(layerId)}`);
+  const commitLayerOpacity = (layerId: string) => {
+    pushHistory(`Opacity: ${getLayerName(layerId)}`);
+  };
+
+  const updateLayerMorphWeight = (layerId: string, name: string, rawValue: string) => {
+    const object = layerObjectMapRef.current.get(layerId);
+    if (!object) return;
+    const value = Number(rawValue);
+    if (Number.isNaN(value)) return;
+    animationRuntime.setObjectMorphWeight(object, name, value);
+    const morphWeights = getObjectMorphWeights(object);
+    setLayerItems((prev) => prev.map((layer) => (layer.id === layerId ? { ...layer, morphWeights } : layer)));
+    setHasUnsavedChanges(true);
+  };
+
+  const commitLayerMorphWeight = (layerId: string) => {
+    pushHistory(`Morph: ${getLayerName(layerId)}`);
   };
 
   const beginLayerTransform = (layerId: string) => {
@@ -3052,6 +6510,141 @@ export function GlbViewer() {
     );
   };
 
+  // Animated tracks with no glTF channel: they are left out of the baked clip
+  // Constraints are not baked; their channels are listed with the constraints instead.
+  const unbakeableTracks = animationTracks.filter(
+    (track) =>
+      track.keyframes.length > 0 &&
+      !track.propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX) &&
+      (isReservedTrackId(track.layerId) || !isBakeableProperty(track.propertyId)) &&
+      !(bakeSettings.animationPointer && isPointerProperty(track.propertyId))
+  );
+
+  // Materials, lights and the camera for the KHR_animation_pointer channels. Lights and
+  // the camera are added to `clone` under a group at the model's centre, which is where
+  // <Center> puts the editor's world origin.
+  const getPointerBakeInput = (clone: THREE.Object3D, copyByLayerId: Map<string, THREE.Object3D>) => {
+    const getTracks = (trackId: string) =>
+      animationTracks.filter((track) => track.layerId === trackId && track.keyframes.length > 0);
+    const rig = new THREE.Group();
+    rig.name = "Scroll Timeline Rig";
+    clone.updateMatrixWorld(true);
+    new THREE.Box3().setFromObject(clone).getCenter(rig.position);
+    clone.worldToLocal(rig.position);
+
+    const input: PointerBakeInput = { materials: [], lights: [], camera: null };
+    getMaterialGroupNames().forEach((name) => {
+      const tracks = getTracks(getMaterialTrackId(name));
+      if (tracks.length === 0) return;
+      (materialsByName.get(name) ?? []).forEach((material) =>
+        input.materials.push({ material, base: animationRuntime.getMaterialBase(material), tracks })
+      );
+    });
+    const addLight = (light: THREE.DirectionalLight | THREE.PointLight, base: LightStateSpec, tracks: AnimationTrack[]) => {
+      if (tracks.length === 0) return;
+      rig.add(light);
+      input.lights.push({ light, base, tracks });
+    };
+    if (settings.useDirectionalLight) {
+      const light = new THREE.DirectionalLight();
+      light.name = "Directional Light";
+      // glTF directional lights shine down their node's -Z
+      light.add(light.target);
+      light.target.position.set(0, 0, -1);
+      addLight(light, getDirectionalLightBase(settings), getTracks(DIRECTIONAL_LIGHT_TRACK_ID));
+    }
+    pointLights
+      .filter((config) => config.enabled)
+      .forEach((config, index) => {
+        const light = new THREE.PointLight();
+        light.name = `Point Light ${index + 1}`;
+        addLight(light, getPointLightBase(config), getTracks(getLightTrackId(config.id)));
+      });
+    if (isCameraAnimated()) {
+      const camera = new THREE.PerspectiveCamera(45, window.innerWidth / Math.max(1, window.innerHeight), 0.1, 1000);
+      camera.name = "Scroll Camera";
+      rig.add(camera);
+      input.camera = {
+        camera,
+        base: pinnedCameraView ?? DEFAULT_CAMERA_VIEW,
+        tracks: getTracks(CAMERA_TRACK_ID),
+        rig: {
+          path: cameraPath,
+          lookAtObject: cameraPath?.lookAtLayerId ? (copyByLayerId.get(cameraPath.lookAtLayerId) ?? null) : null,
+        },
+      };
+    }
+    if (rig.children.length > 0) clone.add(rig);
+    return input;
+  };
+
+  const exportBakedModel = () => {
+    if (!modelScene) return;
+    clipMixer?.stopAllAction();
+    const clone = cloneSkinned(modelScene);
+    if (clipMixer) animationRuntime.applyClips(clipMixer, modelClips, clipBindings, timelineCurrentVh);
+    // The skeleton-aware clone keeps the hierarchy, so traversal order pairs each object with its copy
+    const originals: THREE.Object3D[] = [];
+    const copies: THREE.Object3D[] = [];
+    modelScene.traverse((object) => originals.push(object));
+    clone.traverse((object) => copies.push(object));
+    const copyByLayerId = new Map(originals.map((object, index) => [object.uuid, copies[index]]));
+    const bakeTracks: BakeTrack[] = [];
+    animationTracks.forEach((track) => {
+      if (track.keyframes.length === 0 || isReservedTrackId(track.layerId)) return;
+      const object = copyByLayerId.get(track.layerId);
+      if (object) bakeTracks.push({ ...toExportTrack(track, getLayerName), object });
+    });
+    const { animationPointer, ...rate } = bakeSettings;
+    const { clip, pointerChannels, sampleCount } = bakeTimelineClip(
+      clone,
+      bakeTracks,
+      modelClips,
+      clipBindings,
+      { name: "ScrollTimeline", lengthVh: timelineLengthVh, ...rate },
+      animationPointer ? getPointerBakeInput(clone, copyByLayerId) : null,
+      {
+        getTrack: (layerId, propertyId) =>
+          animationTracks.find((track) => track.layerId === layerId && track.propertyId === propertyId),
+        getObject: (layerId) => copyByLayerId.get(layerId),
+      }
+    );
+    const channelCount = clip.tracks.length + pointerChannels.length;
+    if (channelCount === 0) {
+      setLayerMessage("Nothing to bake: no track changes anything glTF can animate.");
+      return;
+    }
+    const exporter = new GLTFExporter();
+    if (pointerChannels.length > 0) exporter.register(createAnimationPointerPlugin(clip.name, pointerChannels));
+    exporter.parse(
+      clone,
+      (result) => {
+        const blob =
+          result instanceof ArrayBuffer
+            ? new Blob([result], { type: "model/gltf-binary" })
+            : new Blob([JSON.stringify(result)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = result instanceof ArrayBuffer ? "model-baked.glb" : "model-baked.gltf";
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+        setBakeModalOpen(false);
+        const skippedCount = unbakeableTracks.length + layerConstraints.length;
+        const skipped = skippedCount > 0 ? ` ${skippedCount} track(s) / constraint(s) skipped.` : "";
+        setLayerMessage(
+          `Baked ${channelCount} channel(s), ${sampleCount} keys, ${(timelineLengthVh / rate.vhPerSecond).toFixed(2)}s.${skipped}`
+        );
+      },
+      () => {
+        setLayerMessage("Failed to export baked model.");
+      },
+      { binary: true, onlyVisible: true, includeCustomExtensions: true, animations: [clip, ...modelClips] }
+    );
+  };
+
   const uploadPanel = (
     <div
       className={cn(
@@ -3250,17 +6843,19 @@ export function GlbViewer() {
                       checked={layer.visible}
                       onCheckedChange={(checked) => setLayerVisibility(layer.id, checked)}
                     />
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="outline"
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        deleteLayer(layer.id);
-                      }}
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </Button>
+                    {isBoneLayer(layer) ? null : (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          deleteLayer(layer.id);
+                        }}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
                   </div>
                 </div>
                 {layerDetailsOpen[layer.id] ? (
@@ -3386,37 +6981,126 @@ export function GlbViewer() {
                       </div>
                     ) : null}
 
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="secondary"
-                      className="mt-1 w-full justify-between"
-                      onClick={() =>
-                        setLayerSectionOpen((prev) => ({
-                          ...prev,
-                          [`${layer.id}:scale`]: !prev[`${layer.id}:scale`],
-                        }))
-                      }
-                    >
-                      <span className="text-xs">Scale</span>
-                      {layerSectionOpen[`${layer.id}:scale`] ? (
-                        <ChevronDown className="h-3.5 w-3.5" />
-                      ) : (
-                        <ChevronRight className="h-3.5 w-3.5" />
-                      )}
-                    </Button>
-                    {layerSectionOpen[`${layer.id}:scale`] ? (
-                      <div className="space-y-2 pt-1">
-                        <ScrubbableNumberField
-                          label="Uniform"
-                          value={layer.scale.x}
-                          onBeginChange={() => beginLayerScale(layer.id)}
-                          onEndChange={() => commitLayerScale(layer.id)}
-                          onValueChange={(next) =>
-                            updateLayerUniformScale(layer.id, next.toString())
+                    {isBoneLayer(layer) ? null : (
+                      <>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          className="mt-1 w-full justify-between"
+                          onClick={() =>
+                            setLayerSectionOpen((prev) => ({
+                              ...prev,
+                              [`${layer.id}:scale`]: !prev[`${layer.id}:scale`],
+                            }))
                           }
-                        />
-                      </div>
+                        >
+                          <span className="text-xs">Scale</span>
+                          {layerSectionOpen[`${layer.id}:scale`] ? (
+                            <ChevronDown className="h-3.5 w-3.5" />
+                          ) : (
+                            <ChevronRight className="h-3.5 w-3.5" />
+                          )}
+                        </Button>
+                        {layerSectionOpen[`${layer.id}:scale`] ? (
+                          <div className="space-y-2 pt-1">
+                            <ScrubbableNumberField
+                              label="Uniform"
+                              value={layer.scale.x}
+                              onBeginChange={() => beginLayerScale(layer.id)}
+                              onEndChange={() => commitLayerScale(layer.id)}
+                              onValueChange={(next) =>
+                                updateLayerUniformScale(layer.id, next.toString())
+                              }
+                            />
+                            <div className="grid grid-cols-3 gap-1">
+                              {(["x", "y", "z"] as const).map((axis) => (
+                                <ScrubbableNumberField
+                                  key={axis}
+                                  label={axis.toUpperCase()}
+                                  value={layer.scale[axis]}
+                                  onBeginChange={() => beginLayerScale(layer.id)}
+                                  onEndChange={() => commitLayerScale(layer.id)}
+                                  onValueChange={(next) => updateLayerAxisScale(layer.id, axis, next.toString())}
+                                />
+                              ))}
+                            </div>
+                          </div>
+                        ) : null}
+
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          className="mt-1 w-full justify-between"
+                          onClick={() =>
+                            setLayerSectionOpen((prev) => ({
+                              ...prev,
+                              [`${layer.id}:opacity`]: !prev[`${layer.id}:opacity`],
+                            }))
+                          }
+                        >
+                          <span className="text-xs">Opacity</span>
+                          {layerSectionOpen[`${layer.id}:opacity`] ? (
+                            <ChevronDown className="h-3.5 w-3.5" />
+                          ) : (
+                            <ChevronRight className="h-3.5 w-3.5" />
+                          )}
+                        </Button>
+                        {layerSectionOpen[`${layer.id}:opacity`] ? (
+                          <div className="space-y-2 pt-1">
+                            <SliderField
+                              label="Opacity"
+                              value={layer.opacity}
+                              min={0}
+                              max={1}
+                              step={0.01}
+                              onChange={(next) => updateLayerOpacity(layer.id, next.toString())}
+                              onCommit={() => commitLayerOpacity(layer.id)}
+                            />
+                          </div>
+                        ) : null}
+                      </>
+                    )}
+
+                    {Object.keys(layer.morphWeights).length > 0 ? (
+                      <>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          className="mt-1 w-full justify-between"
+                          onClick={() =>
+                            setLayerSectionOpen((prev) => ({
+                              ...prev,
+                              [`${layer.id}:morph`]: !prev[`${layer.id}:morph`],
+                            }))
+                          }
+                        >
+                          <span className="text-xs">Morph targets</span>
+                          {layerSectionOpen[`${layer.id}:morph`] ? (
+                            <ChevronDown className="h-3.5 w-3.5" />
+                          ) : (
+                            <ChevronRight className="h-3.5 w-3.5" />
+                          )}
+                        </Button>
+                        {layerSectionOpen[`${layer.id}:morph`] ? (
+                          <div className="space-y-2 pt-1">
+                            {Object.entries(layer.morphWeights).map(([name, weight]) => (
+                              <SliderField
+                                key={name}
+                                label={name}
+                                value={weight}
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                onChange={(next) => updateLayerMorphWeight(layer.id, name, next.toString())}
+                                onCommit={() => commitLayerMorphWeight(layer.id)}
+                              />
+                            ))}
+                          </div>
+                        ) : null}
+                      </>
                     ) : null}
 
                     <Button
@@ -3427,28 +7111,39 @@ export function GlbViewer() {
                       onClick={() =>
                         setLayerSectionOpen((prev) => ({
                           ...prev,
-                          [`${layer.id}:opacity`]: !prev[`${layer.id}:opacity`],
+                          [`${layer.id}:constraints`]: !prev[`${layer.id}:constraints`],
                         }))
                       }
                     >
-                      <span className="text-xs">Opacity</span>
-                      {layerSectionOpen[`${layer.id}:opacity`] ? (
+                      <span className="text-xs">
+                        Constraints
+                        {layerConstraints.some((c) => c.layerId === layer.id)
+                          ? ` (${layerConstraints.filter((c) => c.layerId === layer.id).length})`
+                          : ""}
+                      </span>
+                      {layerSectionOpen[`${layer.id}:constraints`] ? (
                         <ChevronDown className="h-3.5 w-3.5" />
                       ) : (
                         <ChevronRight className="h-3.5 w-3.5" />
                       )}
                     </Button>
-                    {layerSectionOpen[`${layer.id}:opacity`] ? (
+                    {layerSectionOpen[`${layer.id}:constraints`] ? (
                       <div className="space-y-2 pt-1">
-                        <SliderField
-                          label="Opacity"
-                          value={layer.opacity}
-                          min={0}
-                          max={1}
-                          step={0.01}
-                          onChange={(next) => updateLayerOpacity(layer.id, next.toString())}
-                          onCommit={() => commitLayerOpacity(layer.id)}
-                        />
+                        {layerConstraints
+                          .filter((constraint) => constraint.layerId === layer.id)
+                          .map((constraint) => renderLayerConstraint(constraint))}
+                        <select
+                          value=""
+                          onChange={(event) => addLayerConstraint(layer.id, event.target.value as LayerConstraintType)}
+                          className="h-7 w-full rounded-md border border-input bg-background px-2 text-[11px]"
+                        >
+                          <option value="">Add constraint…</option>
+                          {LAYER_CONSTRAINT_TYPES.map((entry) => (
+                            <option key={entry.type} value={entry.type}>
+                              {entry.label}
+                            </option>
+                          ))}
+                        </select>
                       </div>
                     ) : null}
                   </div>
@@ -3461,6 +7156,12 @@ export function GlbViewer() {
     </div>
   );
 
+  const directionalLightState = getLightStateAtVh(
+    DIRECTIONAL_LIGHT_TRACK_ID,
+    getDirectionalLightBase(settings),
+    timelineCurrentVh
+  );
+
   return (
     <div
       ref={viewerRef}
@@ -3475,7 +7176,14 @@ export function GlbViewer() {
       onDragLeave={() => setIsDragging(false)}
       onDrop={onDrop}
     >
-      <div className="absolute inset-0">
+      <div
+        className="absolute inset-0"
+        style={
+          previewFrameWidth === null
+            ? undefined
+            : { left: "50%", right: "auto", width: previewFrameWidth, transform: "translateX(-50%)" }
+        }
+      >
         {hasModel ? (
           <>
           <Canvas onPointerMissed={viewMode === "animate" ? handleCanvasPointerMissed : undefined}>
@@ -3492,22 +7200,25 @@ export function GlbViewer() {
             {settings.useAmbientLight ? <ambientLight intensity={settings.ambientIntensity} /> : null}
             {settings.useDirectionalLight ? (
               <directionalLight
-                position={[settings.directionalX, settings.directionalY, settings.directionalZ]}
-                intensity={settings.directionalIntensity}
+                position={directionalLightState.position}
+                intensity={directionalLightState.intensity}
+                color={rgbToHex(directionalLightState.color)}
               />
             ) : null}
-            {pointLights.map((light) =>
-              light.enabled ? (
+            {pointLights.map((light) => {
+              if (!light.enabled) return null;
+              const state = getLightStateAtVh(getLightTrackId(light.id), getPointLightBase(light), timelineCurrentVh);
+              return (
                 <pointLight
                   key={light.id}
-                  position={[light.x, light.y, light.z]}
-                  intensity={light.intensity}
-                  distance={light.distance}
-                  decay={light.decay}
-                  color={light.color}
+                  position={state.position}
+                  intensity={state.intensity}
+                  distance={state.distance}
+                  decay={state.decay}
+                  color={rgbToHex(state.color)}
                 />
-              ) : null
-            )}
+              );
+            })}
 
             <SceneGrid
               show={settings.showGrid && viewMode !== "preview"}
@@ -3536,12 +7247,47 @@ export function GlbViewer() {
               />
             )}
 
+            {bonePickerActive && modelScene && viewMode === "animate" ? (
+              <BonePickerGizmo
+                root={modelScene}
+                bones={skeletonBones}
+                selectedId={selectedLayerId}
+                onSelect={selectBoneFromViewport}
+              />
+            ) : null}
+
+            {cameraPath && viewMode === "animate" ? (
+              <CameraPathGizmo
+                path={cameraPath}
+                selectedIndex={selectedPathPointIndex}
+                onSelect={setSelectedPathPointIndex}
+                onPointMove={setCameraPathPoint}
+                onPointCommit={() => setHasUnsavedChanges(true)}
+              />
+            ) : null}
+            {(() => {
+              const constraint = editingConstraintPath
+                ? layerConstraints.find((c) => c.id === editingConstraintPath.id)
+                : undefined;
+              if (!editingConstraintPath || constraint?.type !== "followPath" || viewMode !== "animate") return null;
+              return (
+                <CameraPathGizmo
+                  path={constraint.path}
+                  selectedIndex={editingConstraintPath.pointIndex}
+                  onSelect={(pointIndex) => setEditingConstraintPath({ id: constraint.id, pointIndex })}
+                  onPointMove={(index, point) => setConstraintPathPoint(constraint.id, index, point)}
+                  onPointCommit={() => setHasUnsavedChanges(true)}
+                />
+              );
+            })()}
+
             <Bounds fit clip={false} observe={false} margin={1.1}>
               <Center>
                 <primitive
                   object={modelScene}
                   dispose={null}
-                  onClick={viewMode === "animate" ? handleMeshClick : undefined}
+                  // While picking bones the markers take the clicks, even where the skin covers them
+                  onClick={viewMode === "animate" && !bonePickerActive ? handleMeshClick : undefined}
                   onDoubleClick={viewMode === "animate" ? handleMeshDoubleClick : undefined}
                 />
               </Center>
@@ -3670,6 +7416,15 @@ export function GlbViewer() {
                   <Code2 className="mr-2 h-4 w-4" />
                   Export HTML Page
                 </button>
+                <button
+                  type="button"
+                  className="flex w-full items-center rounded-sm px-3 py-1.5 text-left text-sm hover:bg-muted disabled:cursor-not-allowed disabled:opacity-40"
+                  disabled={!hasModel || animationTracks.length === 0}
+                  onClick={() => { setFileMenuOpen(false); setBakeModalOpen(true); }}
+                >
+                  <Film className="mr-2 h-4 w-4" />
+                  Bake to GLB…
+                </button>
                 <div className="my-1 border-t border-border" />
                 <button
                   type="button"
@@ -3737,6 +7492,26 @@ export function GlbViewer() {
             )}
           </div>
 
+          {viewMode === "animate" && skeletonBones.length > 0 ? (
+            <>
+              <div className="mx-1 h-4 w-px bg-border/60" />
+              <button
+                type="button"
+                title={bonePickerActive ? "Hide bones" : "Show bones — click a joint to select it"}
+                className={cn(
+                  "flex items-center gap-1.5 rounded-md border px-2.5 py-1 text-sm font-medium transition-colors",
+                  bonePickerActive
+                    ? "border-primary bg-primary/15 text-primary"
+                    : "border-transparent text-muted-foreground hover:border-border/50 hover:bg-muted/60 hover:text-foreground"
+                )}
+                onClick={() => setBonePickerActive((v) => !v)}
+              >
+                <Bone className="h-3.5 w-3.5" />
+                Bones
+              </button>
+            </>
+          ) : null}
+
           {viewMode === "animate" && selectedLayerId ? (
             <>
               <div className="mx-1 h-4 w-px bg-border/60" />
@@ -3777,6 +7552,23 @@ export function GlbViewer() {
           <span className="w-24 text-center font-mono text-xs tabular-nums text-muted-foreground">
             {timelineCurrentVh.toFixed(1)} / {timelineLengthVh} vh
           </span>
+          {breakpoints.length > 0 ? (
+            <select
+              value={previewBreakpointId ?? ""}
+              onChange={(event) => setPreviewBreakpointId(event.target.value || null)}
+              className="h-6 max-w-[160px] rounded-full border border-input bg-background px-2 text-xs"
+              title="Breakpoint shown in Preview"
+            >
+              <option value="">
+                Auto{previewBreakpointId === null && previewBreakpoint ? ` (${previewBreakpoint.name})` : ""}
+              </option>
+              {breakpoints.map((breakpoint) => (
+                <option key={breakpoint.id} value={breakpoint.id}>
+                  {breakpoint.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
           {/* Exit button */}
           <button
             type="button"
@@ -3833,21 +7625,26 @@ export function GlbViewer() {
               }
               title={pinnedCameraView ? "Update saved preview camera" : "Save current view as preview camera"}
               onClick={() => {
-                const controls = orbitControlsRef.current;
-                const camera = cameraRef.current;
-                if (!controls || !camera) return;
-                setPinnedCameraView({
-                  position: [camera.position.x, camera.position.y, camera.position.z],
-                  target: [controls.target.x, controls.target.y, controls.target.z],
-                  fov: camera.fov,
-                  zoom: camera.zoom,
-                });
+                const view = readLiveCameraView();
+                if (view) setPinnedCameraView(view);
               }}
             >
               <Camera className="mr-1.5 h-3.5 w-3.5" />
               Set Preview Camera
             </Button>
           ) : null}
+          {viewMode === "animate" ? (
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-muted-foreground"
+              title="Key the current view on the Camera timeline row at the playhead"
+              onClick={pinCameraViewAtPlayhead}
+            >
+              <Pin className="mr-1.5 h-3.5 w-3.5" />
+              Pin View at playhead
+            </Button>
+          ) : null}
           {viewMode === "animate" && pinnedCameraView ? (
             <Button
               size="sm"
@@ -3943,6 +7740,346 @@ export function GlbViewer() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg font-bold">
+                  <Spline className="h-5 w-5" />
+                  Camera Path
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <ToggleField label="Fly along path" checked={cameraPath !== null} onChange={toggleCameraPath} />
+                {cameraPath ? (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      Key <span className="font-medium">Path Progress</span> (0–1) on the Camera timeline row to
+                      move along the spline. Click a point in the viewport to drag it.
+                    </p>
+                    <div className="space-y-1">
+                      {cameraPath.points.map((point, index) => (
+                        <div key={index} className="flex items-center gap-1">
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant={selectedPathPointIndex === index ? "default" : "ghost"}
+                            className="h-7 w-8 shrink-0 p-0 text-[11px]"
+                            onClick={() => setSelectedPathPointIndex(index)}
+                            title="Select point"
+                          >
+                            P{index + 1}
+                          </Button>
+                          {point.map((component, axis) => (
+                            <Input
+                              key={axis}
+                              type="number"
+                              step={0.1}
+                              value={component}
+                              onChange={(event) => {
+                                const parsed = Number(event.target.value);
+                                if (Number.isNaN(parsed)) return;
+                                const next = [...point] as [number, number, number];
+                                next[axis] = parsed;
+                                setCameraPathPoint(index, next);
+                              }}
+                              className="h-7 w-20 px-1 text-[11px]"
+                            />
+                          ))}
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 shrink-0 p-0"
+                            disabled={cameraPath.points.length <= 2}
+                            onClick={() => removeCameraPathPoint(index)}
+                            title="Remove point"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button size="sm" variant="secondary" className="w-full" onClick={addCameraPathPointFromView}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add point from current view
+                    </Button>
+                    <ToggleField
+                      label="Closed loop"
+                      checked={cameraPath.closed}
+                      onChange={(closed) => updateCameraPath({ closed })}
+                    />
+                    <div className="space-y-1">
+                      <Label htmlFor="camera-path-look-at" className="text-xs text-muted-foreground">
+                        Look at
+                      </Label>
+                      <select
+                        id="camera-path-look-at"
+                        value={cameraPath.lookAtLayerId ?? ""}
+                        onChange={(event) => updateCameraPath({ lookAtLayerId: event.target.value || null })}
+                        className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+                      >
+                        <option value="">Target point (Camera row)</option>
+                        {layerItems.map((layer) => (
+                          <option key={layer.id} value={layer.id}>
+                            {"\u00a0".repeat(layer.depth * 2)}
+                            {layer.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                ) : null}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg font-bold">
+                  <Waves className="h-5 w-5" />
+                  Scrolling
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="scroll-smoothing">Smoothing</Label>
+                  <select
+                    id="scroll-smoothing"
+                    value={scrollSmoothing.type}
+                    onChange={(event) =>
+                      updateScrollSmoothing(SCROLL_SMOOTHING_PRESETS[event.target.value as ScrollSmoothingSpec["type"]])
+                    }
+                    className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+                  >
+                    <option value="none">None (follow scroll exactly)</option>
+                    <option value="damped">Damped (half-life)</option>
+                    <option value="spring">Spring</option>
+                  </select>
+                </div>
+                {scrollSmoothing.type === "damped" ? (
+                  <SliderField
+                    label="Half-life (ms)"
+                    value={scrollSmoothing.halfLifeMs}
+                    min={10}
+                    max={1000}
+                    step={10}
+                    onChange={(halfLifeMs) => updateScrollSmoothing({ ...scrollSmoothing, halfLifeMs })}
+                  />
+                ) : null}
+                {scrollSmoothing.type === "spring" ? (
+                  <>
+                    <SliderField
+                      label="Stiffness"
+                      value={scrollSmoothing.stiffness}
+                      min={10}
+                      max={500}
+                      step={5}
+                      onChange={(stiffness) => updateScrollSmoothing({ ...scrollSmoothing, stiffness })}
+                    />
+                    <SliderField
+                      label="Damping"
+                      value={scrollSmoothing.damping}
+                      min={1}
+                      max={60}
+                      step={0.5}
+                      onChange={(damping) => updateScrollSmoothing({ ...scrollSmoothing, damping })}
+                    />
+                  </>
+                ) : null}
+                {scrollSmoothing.type !== "none" ? (
+                  <p className="text-xs text-muted-foreground">
+                    Eases how the animation catches up with the scroll position in Preview and the exported page.
+                  </p>
+                ) : null}
+                <SliderField
+                  label="Snap strength"
+                  value={scrollSnap.strength}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onChange={(strength) => updateScrollSnap({ ...scrollSnap, strength })}
+                />
+                <SliderField
+                  label="Snap delay (ms)"
+                  value={scrollSnap.delayMs}
+                  min={0}
+                  max={2000}
+                  step={50}
+                  onChange={(delayMs) => updateScrollSnap({ ...scrollSnap, delayMs })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  When scrolling stops near a marker set to <span className="font-medium">Snap here</span>, the page
+                  settles onto it after the delay. Strength is the reach, up to half a viewport.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2 text-lg font-bold">
+                  <Smartphone className="h-5 w-5" />
+                  Breakpoints
+                </CardTitle>
+                <Button size="sm" variant="secondary" onClick={addBreakpoint}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add breakpoint
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {breakpoints.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Breakpoints swap the camera or adjust tracks when the page is narrow or tall. The most specific
+                    matching breakpoint wins.
+                  </p>
+                ) : null}
+                {breakpoints.map((breakpoint) => {
+                  const override = breakpointOverrides.find((o) => o.breakpointId === breakpoint.id);
+                  const overriddenKeys = new Set(override?.tracks.map((t) => `${t.layerId}|${t.propertyId}`));
+                  const availableTracks = animationTracks.filter(
+                    (t) =>
+                      t.keyframes.length > 0 &&
+                      t.propertyId !== ROTATION_PROPERTY_ID &&
+                      !overriddenKeys.has(`${t.layerId}|${t.propertyId}`)
+                  );
+                  return (
+                    <Card key={breakpoint.id} className="border-border/80">
+                      <CardHeader className="flex-row items-center justify-between space-y-0">
+                        <Input
+                          value={breakpoint.name}
+                          onChange={(event) => updateBreakpoint(breakpoint.id, { name: event.target.value })}
+                          className="mr-2 h-8 text-sm font-semibold"
+                        />
+                        <Button size="sm" variant="secondary" onClick={() => removeBreakpoint(breakpoint.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Max width (px)</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="Any"
+                              value={breakpoint.maxWidth ?? ""}
+                              onChange={(event) =>
+                                updateBreakpoint(breakpoint.id, {
+                                  maxWidth: event.target.value === "" ? null : Math.max(0, Number(event.target.value)),
+                                })
+                              }
+                              className="h-8 text-xs"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Max aspect (w/h)</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              step={0.05}
+                              placeholder="Any"
+                              value={breakpoint.maxAspect ?? ""}
+                              onChange={(event) =>
+                                updateBreakpoint(breakpoint.id, {
+                                  maxAspect: event.target.value === "" ? null : Math.max(0, Number(event.target.value)),
+                                })
+                              }
+                              className="h-8 text-xs"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs text-muted-foreground">
+                            Camera: {override?.camera ? "overridden" : "same as scene"}
+                          </span>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => setBreakpointCameraFromView(breakpoint.id)}
+                              disabled={!hasModel}
+                            >
+                              <Camera className="mr-1 h-3.5 w-3.5" />
+                              Use current view
+                            </Button>
+                            {override?.camera ? (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() =>
+                                  updateBreakpointOverride(breakpoint.id, (current) => ({ ...current, camera: null }))
+                                }
+                              >
+                                <X className="h-3.5 w-3.5" />
+                              </Button>
+                            ) : null}
+                          </div>
+                        </div>
+                        {override?.tracks.map((trackOverride, index) => (
+                          <div
+                            key={`${trackOverride.layerId}|${trackOverride.propertyId}`}
+                            className="space-y-1 rounded-md border border-border/80 p-2"
+                          >
+                            <div className="flex items-center justify-between gap-2 text-xs">
+                              <span className="truncate">
+                                {getLayerName(trackOverride.layerId)} · {getTrackPropertyLabel(trackOverride.propertyId)}
+                              </span>
+                              <button
+                                type="button"
+                                className="text-muted-foreground hover:text-foreground"
+                                onClick={() => updateTrackOverride(breakpoint.id, index, null)}
+                              >
+                                <X className="h-3.5 w-3.5" />
+                              </button>
+                            </div>
+                            <div className="flex gap-2">
+                              <select
+                                value={trackOverride.mode}
+                                onChange={(event) =>
+                                  updateTrackOverride(breakpoint.id, index, {
+                                    mode: event.target.value as TrackOverride["mode"],
+                                  })
+                                }
+                                className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-xs"
+                              >
+                                <option value="offset">Offset keyframes by</option>
+                                <option value="value">Hold constant at</option>
+                              </select>
+                              <Input
+                                type="number"
+                                step={0.1}
+                                value={trackOverride.value}
+                                onChange={(event) =>
+                                  updateTrackOverride(breakpoint.id, index, { value: Number(event.target.value) || 0 })
+                                }
+                                className="h-8 w-24 text-xs"
+                              />
+                            </div>
+                          </div>
+                        ))}
+                        {availableTracks.length > 0 ? (
+                          <select
+                            value=""
+                            onChange={(event) => addTrackOverride(breakpoint.id, event.target.value)}
+                            className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+                          >
+                            <option value="">Override a track…</option>
+                            {availableTracks.map((t) => (
+                              <option key={`${t.layerId}|${t.propertyId}`} value={`${t.layerId}|${t.propertyId}`}>
+                                {getLayerName(t.layerId)} · {getTrackPropertyLabel(t.propertyId)}
+                              </option>
+                            ))}
+                          </select>
+                        ) : null}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+                {breakpoints.length > 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Overrides belong to the active scene. Pick a breakpoint in Preview to check them.
+                  </p>
+                ) : null}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader className="flex-row items-center justify-between space-y-0">
                 <CardTitle className="flex items-center gap-2 text-lg font-bold">
@@ -3981,6 +8118,11 @@ export function GlbViewer() {
                   step={0.05}
                   onChange={(v) => patchSettings({ directionalIntensity: v })}
                 />
+                <ColorField
+                  label="Directional color"
+                  value={settings.directionalColor}
+                  onChange={(value) => patchSettings({ directionalColor: value })}
+                />
                 <SliderField
                   label="Directional X"
                   value={settings.directionalX}
@@ -4179,6 +8321,36 @@ export function GlbViewer() {
               <div className="flex items-center justify-between gap-3">
                 <div className="flex items-center gap-2">
                   <div className="text-xs font-medium">Timeline</div>
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={activeSceneId}
+                      onChange={(event) => switchScene(event.target.value)}
+                      className="h-7 max-w-[140px] rounded-md border border-input bg-background px-2 text-[11px]"
+                      title="Scene"
+                    >
+                      {scenes.map((scene) => (
+                        <option key={scene.id} value={scene.id}>
+                          {scene.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={addScene} title="Add scene">
+                      <Plus className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={sceneMenu ? "default" : "outline"}
+                      className="h-7 w-7 p-0"
+                      onPointerDown={(event) => event.stopPropagation()}
+                      onClick={(event) => {
+                        const rect = event.currentTarget.getBoundingClientRect();
+                        setSceneMenu(sceneMenu ? null : { x: rect.left, y: rect.top });
+                      }}
+                      title="Scene settings"
+                    >
+                      <Settings2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
                   <Button
                     size="sm"
                     variant="outline"
@@ -4186,8 +8358,38 @@ export function GlbViewer() {
                     onClick={() => togglePlayRef.current()}
                     title={isPlaying ? "Pause (Space)" : "Play (Space)"}
                   >
-                    {isPlaying ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                    {isPlaying ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={timelineView === "graph" ? "default" : "outline"}
+                    className="h-7 w-7 p-0"
+                    onClick={() => setTimelineView((prev) => (prev === "graph" ? "keys" : "graph"))}
+                    title={timelineView === "graph" ? "Show keyframe rows" : "Show value graph"}
+                  >
+                    <ChartSpline className="h-3.5 w-3.5" />
                   </Button>
+                  {timelineView === "graph" ? (
+                    <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                      <Switch checked={graphNormalize} onCheckedChange={setGraphNormalize} />
+                      Normalize
+                    </label>
+                  ) : (
+                    <select
+                      value=""
+                      onChange={(event) => addMaterialGroup(event.target.value)}
+                      disabled={materialsByName.size === 0}
+                      className="h-7 rounded-md border border-input bg-background px-2 text-[11px]"
+                      title={materialsByName.size === 0 ? "The model has no named materials" : "Animate a material"}
+                    >
+                      <option value="">Add material…</option>
+                      {[...materialsByName.keys()].map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <Label htmlFor="timeline-current-vh" className="text-xs text-muted-foreground">
@@ -4227,6 +8429,37 @@ export function GlbViewer() {
                       <ChevronRight className="h-3.5 w-3.5" />
                     </Button>
                   </div>
+                  <div className="flex items-center">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-6 p-0"
+                      onClick={() => navigateMarker("prev")}
+                      disabled={timelineMarkers.length === 0}
+                      title="Previous marker ([)"
+                    >
+                      <ChevronsLeft className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 w-8 p-0"
+                      onClick={addMarkerAtPlayhead}
+                      title="Add marker at playhead (M)"
+                    >
+                      <Flag className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-6 p-0"
+                      onClick={() => navigateMarker("next")}
+                      disabled={timelineMarkers.length === 0}
+                      title="Next marker (])"
+                    >
+                      <ChevronsRight className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
                   <Label htmlFor="timeline-length" className="text-xs text-muted-foreground">
                     Length (vh)
                   </Label>
@@ -4313,6 +8546,40 @@ export function GlbViewer() {
                                 </div>
                               );
                             })}
+                            {timelineMarkers.map((marker) => {
+                              const openMenu = (event: React.MouseEvent<HTMLElement>) => {
+                                event.preventDefault();
+                                event.stopPropagation();
+                                setMarkerMenu({ id: marker.id, x: event.clientX, y: event.clientY });
+                              };
+                              return (
+                                <div
+                                  key={marker.id}
+                                  className="absolute bottom-0 top-0"
+                                  style={{ left: `${(marker.atVh / timelineLengthVh) * 100}%` }}
+                                >
+                                  <span
+                                    className="pointer-events-none absolute bottom-0 top-0 w-px"
+                                    style={{ backgroundColor: marker.color }}
+                                  />
+                                  <button
+                                    type="button"
+                                    className="absolute bottom-0 z-10 max-w-[120px] cursor-grab truncate whitespace-nowrap rounded-r-sm px-1 text-[9px] leading-3 text-black"
+                                    style={{ backgroundColor: marker.color }}
+                                    onPointerDown={(event) => {
+                                      event.stopPropagation();
+                                      startMarkerDrag(event, marker);
+                                    }}
+                                    onContextMenu={openMenu}
+                                    onDoubleClick={openMenu}
+                                    title={`${marker.label} · ${marker.atVh}vh${marker.snap ? " · snap point" : ""} — drag to move, double-click to edit`}
+                                  >
+                                    {marker.snap ? <Magnet className="mr-0.5 inline h-2.5 w-2.5 align-[-1px]" /> : null}
+                                    {marker.label}
+                                  </button>
+                                </div>
+                              );
+                            })}
                             <span
                               className="pointer-events-none absolute bottom-0 top-0 w-[2px] bg-primary"
                               style={{ left: `${Math.max(0, Math.min(1, timelineProgress)) * 100}%` }}
@@ -4344,7 +8611,43 @@ export function GlbViewer() {
                           </div>
                         </div>
 
-                        {timelineRows.map((row) => (
+                        {timelineView === "keys" ? renderCameraRows() : null}
+                        {timelineView === "keys" ? renderLightRows() : null}
+                        {timelineView === "keys" ? renderMaterialRows() : null}
+                        {timelineView === "keys" ? renderClipRows() : null}
+                        {timelineView === "keys" ? renderTimedClipRows() : null}
+                        {timelineView === "graph" ? (
+                          <TrackGraphEditor
+                            tracks={getGraphTracks()}
+                            lengthVh={timelineLengthVh}
+                            width={trackWidth}
+                            height={Math.max(120, timelinePanelHeight - 40)}
+                            currentVh={timelineCurrentVh}
+                            normalize={graphNormalize}
+                            evaluate={animationRuntime.evaluateTrack}
+                            getTangents={animationRuntime.getKeyframeTangents}
+                            isKeyframeSelected={(track, kf) =>
+                              selectedKfIds.has(`${track.id}::${kf.atVh.toFixed(2)}`)
+                            }
+                            onKeyframeValueChange={setKeyframeValue}
+                            onKeyframeTangentChange={(trackId, index, patch, commit) => {
+                              const track = animationTracksRef.current.find(
+                                (t) => `${t.layerId}::${t.propertyId}` === trackId
+                              );
+                              const kf = track?.keyframes[index];
+                              if (!track || !kf) return;
+                              setKeyframeTangents(
+                                new Set([makeKfId(track.layerId, track.propertyId, kf.atVh)]),
+                                patch,
+                                commit
+                              );
+                            }}
+                            onSeek={(vh) => {
+                              setIsPlaying(false);
+                              setTimelineSeekVh(vh);
+                            }}
+                          />
+                        ) : timelineRows.map((row) => (
                           <div
                             key={row.key}
                             className="grid grid-cols-[320px_12px_1fr] border-b last:border-b-0"
@@ -4540,17 +8843,29 @@ export function GlbViewer() {
                                     className={cn(
                                       "inline-flex min-w-0 items-center gap-1 truncate whitespace-nowrap",
                                       row.layer.depth > 0 ? "border-l-2 border-slate-500/70 pl-2" : "",
-                                      "cursor-ew-resize select-none"
+                                      row.propertyId === ROTATION_PROPERTY_ID ||
+                                        row.propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX)
+                                        ? "select-none"
+                                        : "cursor-ew-resize select-none"
                                     )}
                                     style={{ marginLeft: `${Math.min(row.layer.depth + 1, 7) * 10}px` }}
-                                    title="Drag left/right to change value"
-                                    onPointerDown={(event) =>
-                                      startTimelineModifierDrag(event, row.layer, row.propertyId)
+                                    title={
+                                      row.propertyId === ROTATION_PROPERTY_ID
+                                        ? "Keys the current orientation; slerps between keyframes"
+                                        : row.propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX)
+                                          ? "Type a value (0–1) to key it at the playhead"
+                                          : "Drag left/right to change value"
                                     }
+                                    onPointerDown={(event) => {
+                                      if (row.propertyId === ROTATION_PROPERTY_ID) return;
+                                      if (row.propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX)) return;
+                                      startTimelineModifierDrag(event, row.layer, row.propertyId);
+                                    }}
                                   >
                                     <span className="truncate whitespace-nowrap">{row.label}</span>
                                   </span>
                                 </div>
+                                {renderModifierBadges(row.layer.id, row.propertyId)}
                                 <div className="flex w-[54px] shrink-0 items-center justify-end gap-0.5">
                                   {hasTrackKeyframes(row.layer.id, row.propertyId) ? (
                                     <>
@@ -4601,186 +8916,68 @@ export function GlbViewer() {
                                     </>
                                   ) : null}
                                 </div>
-                                <Input
-                                  type="number"
-                                  step={getTimelinePropertyStep(row.propertyId)}
-                                  value={getTimelinePropertyValue(row.layer, row.propertyId)}
-                                  onFocus={() => beginTimelinePropertyEdit(row.layer, row.propertyId)}
-                                  onBlur={() => {
-                                    modifierInputTypingRef.current = false;
-                                    commitTimelinePropertyEdit(row.layer, row.propertyId);
-                                  }}
-                                  onKeyDown={(event) => {
-                                    const isTypingKey =
-                                      /^[0-9.\-eE]$/.test(event.key) ||
-                                      event.key === "Backspace" ||
-                                      event.key === "Delete";
-                                    modifierInputTypingRef.current = isTypingKey;
-                                    if (event.key === "Enter") event.currentTarget.blur();
-                                  }}
-                                  onChange={(event) => {
-                                    applyTimelinePropertyValue(row.layer, row.propertyId, event.target.value);
-                                    if (!modifierInputTypingRef.current) {
-                                      upsertKeyframeAtCurrentTime(row.layer, row.propertyId, true);
-                                    }
-                                    modifierInputTypingRef.current = false;
-                                  }}
-                                  className="h-6 w-24 shrink-0 text-[11px]"
-                                />
+                                {row.propertyId === ROTATION_PROPERTY_ID ? (
+                                  <span
+                                    className="w-24 shrink-0 truncate text-right font-mono text-[10px] text-foreground"
+                                    title="Set the orientation with the Rotation fields, then key it with ◆"
+                                  >
+                                    {row.layer.rotation.x}°, {row.layer.rotation.y}°, {row.layer.rotation.z}°
+                                  </span>
+                                ) : row.propertyId.startsWith(CONSTRAINT_PROPERTY_PREFIX) ? (
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    max={1}
+                                    step={0.01}
+                                    value={getConstraintChannelValue(row.layer.id, row.propertyId)}
+                                    onChange={(event) => {
+                                      const parsed = Number(event.target.value);
+                                      if (event.target.value === "" || Number.isNaN(parsed)) return;
+                                      constraintTypingRef.current = true;
+                                      setConstraintChannelAtPlayhead(row.layer.id, row.propertyId, parsed, false);
+                                    }}
+                                    onBlur={() => {
+                                      if (!constraintTypingRef.current) return;
+                                      constraintTypingRef.current = false;
+                                      pushHistory("Set keyframe", animationTracksRef.current);
+                                    }}
+                                    className="h-6 w-24 shrink-0 text-[11px]"
+                                  />
+                                ) : (
+                                  <Input
+                                    type="number"
+                                    step={getTimelinePropertyStep(row.propertyId)}
+                                    value={getTimelinePropertyValue(row.layer, row.propertyId)}
+                                    onFocus={() => beginTimelinePropertyEdit(row.layer, row.propertyId)}
+                                    onBlur={() => {
+                                      modifierInputTypingRef.current = false;
+                                      commitTimelinePropertyEdit(row.layer, row.propertyId);
+                                    }}
+                                    onKeyDown={(event) => {
+                                      const isTypingKey =
+                                        /^[0-9.\-eE]$/.test(event.key) ||
+                                        event.key === "Backspace" ||
+                                        event.key === "Delete";
+                                      modifierInputTypingRef.current = isTypingKey;
+                                      if (event.key === "Enter") event.currentTarget.blur();
+                                    }}
+                                    onChange={(event) => {
+                                      applyTimelinePropertyValue(row.layer, row.propertyId, event.target.value);
+                                      if (!modifierInputTypingRef.current) {
+                                        upsertKeyframeAtCurrentTime(row.layer, row.propertyId, true);
+                                      }
+                                      modifierInputTypingRef.current = false;
+                                    }}
+                                    className="h-6 w-24 shrink-0 text-[11px]"
+                                  />
+                                )}
                               </div>
                             )}
 
                             <div className="border-r border-border/40 bg-muted/50" />
-                            <div
-                              {...(row.kind === "property"
-                                ? { "data-track-row-id": `${row.layer.id}::${row.propertyId}` }
-                                : { "data-track-layer-id": row.layer.id })}
-                              className={cn(
-                                "relative",
-                                row.kind === "layer"
-                                  ? "h-8 bg-[linear-gradient(to_right,transparent_0,transparent_calc(25%-1px),rgba(148,163,184,0.2)_25%,transparent_calc(25%+1px),transparent_calc(50%-1px),rgba(148,163,184,0.2)_50%,transparent_calc(50%+1px),transparent_calc(75%-1px),rgba(148,163,184,0.2)_75%,transparent_calc(75%+1px),transparent_100%)]"
-                                  : "h-7 bg-[linear-gradient(to_right,transparent_0,transparent_calc(25%-1px),rgba(148,163,184,0.16)_25%,transparent_calc(25%+1px),transparent_calc(50%-1px),rgba(148,163,184,0.16)_50%,transparent_calc(50%+1px),transparent_calc(75%-1px),rgba(148,163,184,0.16)_75%,transparent_calc(75%+1px),transparent_100%)]"
-                              )}
-                              style={{
-                                backgroundColor:
-                                  selectedLayerId === row.layer.id
-                                    ? "hsl(var(--primary) / 0.08)"
-                                    : row.kind === "layer"
-                                    ? `rgba(100, 116, 139, ${getDepthShade(row.layer.depth) * 0.85})`
-                                    : `rgba(241, 245, 249, ${Math.max(0.12, getDepthShade(row.layer.depth) * 0.22)})`,
-                              }}
-                              onPointerDown={(event) => {
-                                if (event.button !== 0) return;
-                                event.preventDefault();
-                                (document.activeElement as HTMLElement)?.blur();
-                                setIsPlaying(false);
-                                const rect = event.currentTarget.getBoundingClientRect();
-                                const ratio = THREE.MathUtils.clamp(
-                                  (event.clientX - rect.left) / Math.max(1, rect.width),
-                                  0,
-                                  1
-                                );
-                                const startVh = ratio * timelineLengthVh;
-                                rubberBandRef.current = { startVh, startX: event.clientX, startY: event.clientY };
-                                timelineSeekDragRef.current = true;
-                                setTimelineSeekVh(snapKeyframeVhRef.current(startVh, event.shiftKey));
-                              }}
-                              onDragStart={(e) => e.preventDefault()}
-                            >
-                              {row.kind === "property"
-                                ? (() => {
-                                    const track = getTrack(row.layer.id, row.propertyId);
-                                    if (!track || track.keyframes.length === 0) return null;
-                                    return track.keyframes.map((kf, idx) => {
-                                      const kfId = makeKfId(track.layerId, track.propertyId, kf.atVh);
-                                      const isSelected = selectedKfIds.has(kfId);
-                                      const isAtPlayhead = Number(kf.atVh.toFixed(2)) === Number(timelineCurrentVh.toFixed(2));
-                                      return (
-                                        <span
-                                          key={`kf-${row.layer.id}-${row.propertyId}-${idx}`}
-                                          className="absolute top-1/2 h-2.5 w-2.5 -translate-y-1/2 -translate-x-1/2"
-                                          style={{
-                                            left: `${THREE.MathUtils.clamp(
-                                              kf.atVh / Math.max(1, timelineLengthVh),
-                                              0,
-                                              1
-                                            ) * 100}%`,
-                                            zIndex: hoveredKfId === kfId ? 40 : isSelected ? 10 : undefined,
-                                          }}
-                                          onPointerEnter={() => setHoveredKfId(kfId)}
-                                          onPointerLeave={() => setHoveredKfId(null)}
-                                          onContextMenu={(event) => {
-                                            event.preventDefault();
-                                            event.stopPropagation();
-                                            // Include this keyframe plus any already-selected ones
-                                            const ids = selectedKfIds.has(kfId)
-                                              ? new Set(selectedKfIds)
-                                              : new Set([kfId]);
-                                            setKfContextMenu({ kfIds: ids, x: event.clientX, y: event.clientY });
-                                          }}
-                                          onPointerDown={(event) => {
-                                            setHoveredKfId(null);
-                                            event.stopPropagation();
-                                            event.preventDefault();
-                                            (document.activeElement as HTMLElement)?.blur();
-                                            let nextSelected: Set<string>;
-                                            if (event.shiftKey || event.ctrlKey || event.metaKey) {
-                                              // Toggle this keyframe in/out of the selection
-                                              nextSelected = new Set(selectedKfIds);
-                                              if (nextSelected.has(kfId)) nextSelected.delete(kfId);
-                                              else nextSelected.add(kfId);
-                                            } else if (selectedKfIds.has(kfId)) {
-                                              // Clicking an already-selected keyframe preserves the
-                                              // full selection so a drag will move all of them
-                                              nextSelected = new Set(selectedKfIds);
-                                            } else {
-                                              // Clicking an unselected keyframe replaces selection
-                                              nextSelected = new Set([kfId]);
-                                            }
-                                            setSelectedKfIds(nextSelected);
-                                            // Start retime drag with snapshot of all selected
-                                            const snapshot: { id: string; layerId: string; propertyId: string; origAtVh: number }[] = [];
-                                            for (const t of animationTracksRef.current) {
-                                              for (const k of t.keyframes) {
-                                                const kid = makeKfId(t.layerId, t.propertyId, k.atVh);
-                                                if (nextSelected.has(kid)) {
-                                                  snapshot.push({ id: kid, layerId: t.layerId, propertyId: t.propertyId, origAtVh: k.atVh });
-                                                }
-                                              }
-                                            }
-                                            retimeDragRef.current = {
-                                              startX: event.clientX,
-                                              snapshot,
-                                              baselineTracks: animationTracksRef.current.map((t) => ({
-                                                ...t,
-                                                keyframes: [...t.keyframes],
-                                              })),
-                                              latestTracks: animationTracksRef.current,
-                                            };
-                                          }}
-                                        >
-                                          {/* Visual diamond */}
-                                          <span className={cn(
-                                            "absolute inset-0 rotate-45 border",
-                                            isSelected
-                                              ? "border-primary bg-primary/60"
-                                              : isAtPlayhead
-                                                ? "border-primary bg-primary"
-                                                : "border-muted-foreground/70 bg-background/95"
-                                          )} />
-                                          {/* Non-linear easing dot */}
-                                          {kf.easing && kf.easing !== "linear" && (
-                                            <span
-                                              className="pointer-events-none absolute rounded-full bg-amber-400"
-                                              style={{ width: 4, height: 4, bottom: -5, left: "50%", transform: "translateX(-50%)" }}
-                                            />
-                                          )}
-                                          {/* Hover tooltip */}
-                                          {hoveredKfId === kfId && (
-                                            <div className="pointer-events-none absolute bottom-full left-1/2 z-50 mb-2 -translate-x-1/2 whitespace-nowrap rounded border border-border bg-card px-2 py-1 text-[11px] shadow-md">
-                                              <span className="font-mono text-foreground">{kf.atVh.toFixed(2)} vh</span>
-                                              <span className="mx-1 text-border">·</span>
-                                              <span className="font-mono text-foreground">{Number(kf.value.toFixed(4))}</span>
-                                              <span className="mx-1 text-border">·</span>
-                                              <span className="text-muted-foreground">{kf.easing ?? "linear"}</span>
-                                            </div>
-                                          )}
-                                        </span>
-                                      );
-                                    });
-                                  })()
-                                : null}
-                              <span
-                                className="pointer-events-none absolute bottom-0 top-0 w-[2px] bg-primary"
-                                style={{ left: `${Math.max(0, Math.min(1, timelineProgress)) * 100}%` }}
-                              />
-                              {retimeIndicatorVh !== null && (
-                                <span
-                                  className="pointer-events-none absolute bottom-0 top-0 w-px bg-amber-400/80"
-                                  style={{ left: `${THREE.MathUtils.clamp(retimeIndicatorVh / Math.max(1, timelineLengthVh), 0, 1) * 100}%` }}
-                                />
-                              )}
-                            </div>
+                            {row.kind === "property"
+                              ? renderTrackLane(row.layer.id, row.propertyId, row.layer.depth)
+                              : renderTrackLane(row.layer.id, undefined, row.layer.depth)}
                           </div>
                         ))}
                       </div>
@@ -4788,128 +8985,941 @@ export function GlbViewer() {
                   );
                 })()}
               </div>
-            </CardContent>
-          </Card>
-        </aside>
-      ) : null}
+            </CardContent>
+          </Card>
+        </aside>
+      ) : null}
+
+      {layerContextMenu ? (() => {
+        const contextLayerItem = layerItems.find((l) => l.id === layerContextMenu.layerId);
+        const isMultiSelect =
+          selectedLayerIds.size > 1 && selectedLayerIds.has(layerContextMenu.layerId);
+        const canGroup =
+          isMultiSelect &&
+          [...selectedLayerIds].every((id) => {
+            const item = layerItems.find((l) => l.id === id);
+            return item?.parentId === contextLayerItem?.parentId && !isBoneLayer(item);
+          });
+        const isBone = isBoneLayer(contextLayerItem);
+        const canUngroup = !!contextLayerItem && contextLayerItem.parentId !== null && !isBone;
+        return (
+          <div
+            ref={layerMenuRef}
+            className="fixed z-50 min-w-[180px] rounded-md border border-border bg-card p-1 shadow-lg"
+            style={{ left: layerContextMenu.x, top: layerContextMenu.y }}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            {canGroup && (
+              <>
+                <button
+                  type="button"
+                  className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                  onClick={() => {
+                    groupSelectedLayers([...selectedLayerIds]);
+                    setLayerContextMenu(null);
+                  }}
+                >
+                  Group selected ({selectedLayerIds.size})
+                </button>
+                <div className="my-1 border-t border-border" />
+              </>
+            )}
+            {isBone ? (
+              <p className="px-2 py-1.5 text-xs text-muted-foreground">
+                Bones can be posed and animated; the skeleton itself stays as loaded.
+              </p>
+            ) : (
+              <button
+                type="button"
+                className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                onClick={() => {
+                  duplicateLayer(layerContextMenu.layerId);
+                  setLayerContextMenu(null);
+                }}
+              >
+                Duplicate layer
+              </button>
+            )}
+            {canUngroup && (
+              <button
+                type="button"
+                className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                onClick={() => {
+                  ungroupLayer(layerContextMenu.layerId);
+                  setLayerContextMenu(null);
+                }}
+              >
+                Ungroup
+              </button>
+            )}
+            {isBone ? null : (
+              <button
+                type="button"
+                className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-destructive hover:bg-muted"
+                onClick={() => {
+                  deleteLayer(layerContextMenu.layerId);
+                  setLayerContextMenu(null);
+                }}
+              >
+                Delete layer
+              </button>
+            )}
+          </div>
+        );
+      })() : null}
+
+      {kfContextMenu ? (() => {
+        const EASING_OPTIONS: { value: EasingType; label: string; description: string }[] = [
+          { value: "linear",         label: "Linear",            description: "Constant speed" },
+          { value: "easeIn",         label: "Ease In",           description: "Slow start, fast end" },
+          { value: "easeOut",        label: "Ease Out",          description: "Fast start, slow end" },
+          { value: "easeInOut",      label: "Ease In/Out",       description: "Slow at both ends" },
+          { value: "easeInOutCubic", label: "Ease In/Out Cubic", description: "Stronger slow at both ends" },
+          { value: "cubicBezier",    label: "Cubic Bezier",      description: "Custom curve (CSS cubic-bezier)" },
+          { value: "spring",         label: "Spring",            description: "Overshoot and settle (stiffness/damping)" },
+          { value: "bounce",         label: "Bounce",            description: "Drop onto the value and bounce" },
+          { value: "elastic",        label: "Elastic",           description: "Wobble around the value" },
+          { value: "back",           label: "Back",              description: "Overshoot once, then return" },
+        ];
+        // Detect the current easing of the right-clicked keyframes (first one wins)
+        let currentKf: AnimationKeyframe | null = null;
+        outer: for (const track of animationTracksRef.current) {
+          for (const kf of track.keyframes) {
+            if (kfContextMenu.kfIds.has(makeKfId(track.layerId, track.propertyId, kf.atVh))) {
+              currentKf = kf;
+              break outer;
+            }
+          }
+        }
+        const rotationKf =
+          animationTracksRef.current
+            .filter((track) => track.propertyId === ROTATION_PROPERTY_ID)
+            .flatMap((track) =>
+              track.keyframes.filter((kf) => kfContextMenu.kfIds.has(makeKfId(track.layerId, track.propertyId, kf.atVh)))
+            )[0] ?? null;
+        const currentEasing: EasingType | null = currentKf ? currentKf.easing ?? "linear" : null;
+        const currentInterpolation: InterpolationType = currentKf?.interpolation ?? "eased";
+        const INTERPOLATION_OPTIONS: { value: InterpolationType; label: string; title: string }[] = [
+          { value: "eased",  label: "Eased",  title: "Ease between values using the curve below" },
+          { value: "hold",   label: "Hold",   title: "Keep this value until the next keyframe" },
+          { value: "bezier", label: "Bezier", title: "Smooth curve through keyframes with velocity handles" },
+        ];
+        return (
+          <div
+            ref={kfMenuRef}
+            className={cn(
+              "fixed z-50 max-h-[calc(100vh-16px)] overflow-y-auto rounded-md border border-border bg-card p-1 shadow-lg",
+              currentInterpolation === "eased" &&
+                currentEasing &&
+                (currentEasing === "cubicBezier" || hasEasingParams(currentEasing))
+                ? "w-56"
+                : "w-48"
+            )}
+            // Keyframes live in the bottom timeline, so open upwards from the lower half
+            style={
+              kfContextMenu.y > window.innerHeight / 2
+                ? { left: kfContextMenu.x, bottom: window.innerHeight - kfContextMenu.y }
+                : { left: kfContextMenu.x, top: kfContextMenu.y }
+            }
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            <p className="px-2 py-1 text-xs font-medium text-muted-foreground">
+              Interpolation — {kfContextMenu.kfIds.size} keyframe{kfContextMenu.kfIds.size !== 1 ? "s" : ""}
+            </p>
+            <div className="grid grid-cols-3 gap-1 px-1 pb-1">
+              {INTERPOLATION_OPTIONS.map((opt) => (
+                <Button
+                  key={opt.value}
+                  size="sm"
+                  variant={currentInterpolation === opt.value ? "default" : "outline"}
+                  className="h-6 px-1 text-[11px]"
+                  title={opt.title}
+                  onClick={() => {
+                    setKeyframeInterpolation(kfContextMenu.kfIds, opt.value);
+                    if (opt.value === "hold") setKfContextMenu(null);
+                  }}
+                >
+                  {opt.label}
+                </Button>
+              ))}
+            </div>
+            {rotationKf ? (
+              <>
+                <div className="my-1 border-t border-border" />
+                <div className="flex items-center justify-between gap-2 px-2 py-1">
+                  <Label className="text-xs text-muted-foreground" title="Whole turns added to the rotation to the next keyframe; negative spins the other way">
+                    Extra turns
+                  </Label>
+                  <Input
+                    type="number"
+                    step={1}
+                    value={rotationKf.spins ?? 0}
+                    onChange={(event) => {
+                      const parsed = Math.round(Number(event.target.value));
+                      if (Number.isNaN(parsed)) return;
+                      spinsTypingRef.current = true;
+                      setKeyframeSpins(kfContextMenu.kfIds, parsed, false);
+                    }}
+                    onBlur={() => {
+                      if (!spinsTypingRef.current) return;
+                      spinsTypingRef.current = false;
+                      pushHistory("Set spins", animationTracksRef.current);
+                    }}
+                    className="h-6 w-16 px-1 text-[11px]"
+                  />
+                </div>
+              </>
+            ) : null}
+            {currentKf && currentInterpolation === "bezier" ? (
+              <>
+                <div className="my-1 border-t border-border" />
+                <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Velocity (value / vh)</p>
+                <div className="grid grid-cols-2 gap-1 px-2">
+                  {(["inTangent", "outTangent"] as const).map((side) => (
+                    <div key={side} className="space-y-0.5">
+                      <Label className="text-[10px] text-muted-foreground">{side === "inTangent" ? "In" : "Out"}</Label>
+                      <Input
+                        type="number"
+                        step={0.01}
+                        placeholder="auto"
+                        value={currentKf[side] ?? ""}
+                        onChange={(event) => {
+                          const raw = event.target.value;
+                          const parsed = Number(raw);
+                          if (raw !== "" && Number.isNaN(parsed)) return;
+                          tangentTypingRef.current = true;
+                          setKeyframeTangents(kfContextMenu.kfIds, { [side]: raw === "" ? undefined : parsed }, false);
+                        }}
+                        onBlur={() => {
+                          if (!tangentTypingRef.current) return;
+                          tangentTypingRef.current = false;
+                          setKeyframeTangents(kfContextMenu.kfIds, {}, true);
+                        }}
+                        className="h-6 px-1 text-[11px]"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  className="mt-1 w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                  onClick={() => setKeyframeTangents(kfContextMenu.kfIds, { inTangent: undefined, outTangent: undefined }, true)}
+                >
+                  Auto velocity
+                </button>
+                <button
+                  type="button"
+                  className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                  onClick={() => setKeyframeTangents(kfContextMenu.kfIds, { inTangent: 0, outTangent: 0 }, true)}
+                >
+                  Flatten (ease to a stop)
+                </button>
+              </>
+            ) : null}
+            {currentInterpolation === "eased" ? (
+              <>
+                <div className="my-1 border-t border-border" />
+                {EASING_OPTIONS.map((opt) => {
+                  const isActive = currentEasing === opt.value;
+                  return (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      className="flex w-full items-start gap-2 rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                      onClick={() => {
+                        setKeyframeEasing(kfContextMenu.kfIds, opt.value);
+                        // Keep the menu open so the curve can be shaped right away
+                        if (opt.value !== "cubicBezier" && !hasEasingParams(opt.value)) setKfContextMenu(null);
+                      }}
+                    >
+                      <span className="mt-0.5 w-3 shrink-0 text-primary">{isActive ? "✓" : ""}</span>
+                      <span>
+                        <span className="font-medium">{opt.label}</span>
+                        <span className="block text-xs text-muted-foreground">{opt.description}</span>
+                      </span>
+                    </button>
+                  );
+                })}
+                {currentKf && currentEasing === "cubicBezier" ? (
+                  <>
+                    <div className="my-1 border-t border-border" />
+                    <div className="px-2 py-1">
+                      <BezierCurveEditor
+                        value={currentKf.bezier ?? DEFAULT_BEZIER}
+                        onChange={(bezier) => setKeyframeBezier(kfContextMenu.kfIds, bezier, false)}
+                        onCommit={(bezier) => setKeyframeBezier(kfContextMenu.kfIds, bezier, true)}
+                      />
+                    </div>
+                  </>
+                ) : null}
+                {currentKf && currentEasing && hasEasingParams(currentEasing) ? (
+                  <>
+                    <div className="my-1 border-t border-border" />
+                    <div className="px-2 py-1">
+                      <EasingParamsEditor
+                        easing={currentEasing}
+                        value={currentKf.easingParams ?? {}}
+                        defaults={animationRuntime.easingParamDefaults}
+                        sample={(t, easingParams) =>
+                          animationRuntime.applyEasing(t, { easing: currentEasing, easingParams })
+                        }
+                        onChange={(params) => setKeyframeEasingParams(kfContextMenu.kfIds, params, false)}
+                        onCommit={(params) => setKeyframeEasingParams(kfContextMenu.kfIds, params, true)}
+                      />
+                    </div>
+                  </>
+                ) : null}
+              </>
+            ) : null}
+          </div>
+        );
+      })() : null}
+
+      {clipContextMenu ? (() => {
+        const binding = clipBindings.find((b) => b.clipName === clipContextMenu.clipName);
+        const clip = modelClips.find((c) => c.name === clipContextMenu.clipName);
+        if (!binding || !clip) return null;
+        const FIELDS: { key: "startVh" | "endVh" | "clipIn" | "clipOut" | "speed"; label: string; step: number }[] = [
+          { key: "startVh", label: "Start (vh)", step: 1 },
+          { key: "endVh", label: "End (vh)", step: 1 },
+          { key: "clipIn", label: "In (s)", step: 0.01 },
+          { key: "clipOut", label: "Out (s)", step: 0.01 },
+          { key: "speed", label: "Speed (passes)", step: 0.1 },
+        ];
+        return (
+          <div
+            className="fixed z-50 w-56 rounded-md border border-border bg-card p-1 shadow-lg"
+            style={
+              clipContextMenu.y > window.innerHeight / 2
+                ? { left: clipContextMenu.x, bottom: window.innerHeight - clipContextMenu.y }
+                : { left: clipContextMenu.x, top: clipContextMenu.y }
+            }
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            <p className="truncate px-2 py-1 text-xs font-medium text-muted-foreground">
+              {clip.name} — {Number(clip.duration.toFixed(2))}s
+            </p>
+            {FIELDS.map((field) => (
+              <div key={field.key} className="flex items-center justify-between gap-2 px-2 py-1">
+                <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                <Input
+                  type="number"
+                  step={field.step}
+                  min={0}
+                  value={binding[field.key]}
+                  onChange={(event) => {
+                    const parsed = Number(event.target.value);
+                    if (event.target.value === "" || Number.isNaN(parsed)) return;
+                    updateClipBinding(binding.clipName, { [field.key]: parsed });
+                  }}
+                  className="h-6 w-20 px-1 text-[11px]"
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Reverse</Label>
+              <Switch
+                checked={binding.reverse}
+                onCheckedChange={(checked) => updateClipBinding(binding.clipName, { reverse: checked })}
+              />
+            </div>
+            <div className="my-1 border-t border-border" />
+            <button
+              type="button"
+              className="w-full rounded px-2 py-1 text-left text-xs hover:bg-muted"
+              onClick={() => {
+                toggleClipBinding(clip, false);
+                setClipContextMenu(null);
+              }}
+            >
+              Unbind clip
+            </button>
+          </div>
+        );
+      })() : null}
 
-      {layerContextMenu ? (() => {
-        const contextLayerItem = layerItems.find((l) => l.id === layerContextMenu.layerId);
-        const isMultiSelect =
-          selectedLayerIds.size > 1 && selectedLayerIds.has(layerContextMenu.layerId);
-        const canGroup =
-          isMultiSelect &&
-          [...selectedLayerIds].every(
-            (id) => layerItems.find((l) => l.id === id)?.parentId === contextLayerItem?.parentId
+      {modifierMenu ? (() => {
+        const track = animationTracks.find(
+          (t) => t.layerId === modifierMenu.layerId && t.propertyId === modifierMenu.propertyId
+        );
+        if (!track) return null;
+        const modifiers = track.modifiers ?? [];
+        const modifier = modifierMenu.index === null ? null : modifiers[modifierMenu.index];
+        const commitEdit = () => {
+          if (!modifierTypingRef.current) return;
+          modifierTypingRef.current = false;
+          pushHistory("Edit modifier", animationTracksRef.current);
+        };
+        const hasLoop = modifiers.some((m) => m.type === "cycle" || m.type === "pingpong");
+        const hasDriver = modifiers.some((m) => m.type === "driver");
+        const updateDriver = (patch: Partial<TrackDriver>) => {
+          if (modifier?.type !== "driver") return;
+          const next = { ...modifier, ...patch };
+          if (
+            next.source &&
+            createsDriverCycle(animationTracksRef.current, track.layerId, track.propertyId, next.source, next.sourcePropertyId)
+          ) {
+            setLayerMessage("That driver would depend on its own track.");
+            return;
+          }
+          setTrackModifiers(
+            track.layerId,
+            track.propertyId,
+            modifiers.map((m, i) => (i === modifierMenu.index ? next : m)),
+            "Edit driver"
           );
-        const canUngroup = !!contextLayerItem && contextLayerItem.parentId !== null;
+        };
+        const driverSourceLayer =
+          modifier?.type === "driver" ? layerItems.find((layer) => layer.id === modifier.source) : undefined;
+        const driverSourceProperties = driverSourceLayer
+          ? [
+              ...(isBoneLayer(driverSourceLayer) ? BONE_TIMELINE_PROPERTIES : TIMELINE_PROPERTIES)
+                .filter((property) => property.id !== ROTATION_PROPERTY_ID)
+                .map((property) => ({ id: property.id as string, label: property.label as string })),
+              ...Object.keys(driverSourceLayer.morphWeights).map((name) => ({
+                id: getMorphPropertyId(name),
+                label: `Morph: ${name}`,
+              })),
+            ]
+          : [];
         return (
           <div
-            ref={layerMenuRef}
-            className="fixed z-50 min-w-[180px] rounded-md border border-border bg-card p-1 shadow-lg"
-            style={{ left: layerContextMenu.x, top: layerContextMenu.y }}
+            className="fixed z-50 w-56 rounded-md border border-border bg-card p-1 shadow-lg"
+            style={
+              modifierMenu.y > window.innerHeight / 2
+                ? { left: modifierMenu.x, bottom: window.innerHeight - modifierMenu.y + 24 }
+                : { left: modifierMenu.x, top: modifierMenu.y }
+            }
             onPointerDown={(event) => event.stopPropagation()}
           >
-            {canGroup && (
-              <>
+            <p className="truncate px-2 py-1 text-xs font-medium text-muted-foreground">
+              {getLayerName(track.layerId)} · {getTrackPropertyLabel(track.propertyId)}
+            </p>
+            {modifier === null ? (
+              TRACK_MODIFIER_TYPES.map((entry) => (
                 <button
+                  key={entry.type}
                   type="button"
-                  className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+                  className="w-full rounded px-2 py-1 text-left text-xs hover:bg-muted disabled:cursor-not-allowed disabled:opacity-40"
+                  disabled={
+                    entry.loop
+                      ? hasLoop
+                      : track.propertyId === ROTATION_PROPERTY_ID || (entry.type === "driver" && hasDriver)
+                  }
                   onClick={() => {
-                    groupSelectedLayers([...selectedLayerIds]);
-                    setLayerContextMenu(null);
+                    const next = [...modifiers, createTrackModifier(entry.type, track.propertyId)];
+                    setTrackModifiers(track.layerId, track.propertyId, next, `Add ${entry.label.toLowerCase()}`);
+                    setModifierMenu({ ...modifierMenu, index: next.length - 1 });
                   }}
                 >
-                  Group selected ({selectedLayerIds.size})
+                  {entry.label}
                 </button>
+              ))
+            ) : modifier ? (
+              <>
+                {modifier.type === "driver" ? (
+                  <div className="space-y-1 px-2 py-1">
+                    <select
+                      value={modifier.source}
+                      onChange={(event) => {
+                        const layer = layerItems.find((item) => item.id === event.target.value);
+                        updateDriver({ source: event.target.value, sourceName: layer?.name });
+                      }}
+                      className="h-7 w-full rounded-md border border-input bg-background px-2 text-[11px]"
+                    >
+                      <option value="">Source layer…</option>
+                      {layerItems.map((layer) => (
+                        <option key={layer.id} value={layer.id}>
+                          {layer.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={modifier.sourcePropertyId}
+                      onChange={(event) => updateDriver({ sourcePropertyId: event.target.value })}
+                      disabled={!driverSourceLayer}
+                      className="h-7 w-full rounded-md border border-input bg-background px-2 text-[11px]"
+                    >
+                      {driverSourceProperties.length === 0 ? (
+                        <option value={modifier.sourcePropertyId}>{getTrackPropertyLabel(modifier.sourcePropertyId)}</option>
+                      ) : (
+                        driverSourceProperties.map((property) => (
+                          <option key={property.id} value={property.id}>
+                            {property.label}
+                          </option>
+                        ))
+                      )}
+                    </select>
+                  </div>
+                ) : null}
+                {(TRACK_MODIFIER_FIELDS[modifier.type] ?? []).map((field) => (
+                  <div key={field.key} className="flex items-center justify-between gap-2 px-2 py-1">
+                    <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                    <Input
+                      type="number"
+                      step={field.step}
+                      value={(modifier as Record<string, unknown>)[field.key] as number}
+                      onChange={(event) => {
+                        const parsed = Number(event.target.value);
+                        if (event.target.value === "" || Number.isNaN(parsed)) return;
+                        const value = field.key === "seed" || field.key === "octaves" ? Math.round(parsed) : parsed;
+                        modifierTypingRef.current = true;
+                        setTrackModifiers(
+                          track.layerId,
+                          track.propertyId,
+                          modifiers.map((m, i) => (i === modifierMenu.index ? ({ ...m, [field.key]: value } as TrackModifier) : m))
+                        );
+                      }}
+                      onBlur={commitEdit}
+                      className="h-6 w-20 px-1 text-[11px]"
+                    />
+                  </div>
+                ))}
+                {modifier.type === "driver" ? (
+                  <>
+                    <div className="flex items-center justify-between gap-2 px-2 py-1">
+                      <Label className="text-xs text-muted-foreground">Remap range</Label>
+                      <Switch
+                        checked={Boolean(modifier.remap)}
+                        onCheckedChange={(checked) => updateDriver({ remap: checked ? [0, 1, 0, 1] : null })}
+                      />
+                    </div>
+                    {modifier.remap
+                      ? (["In", "Out"] as const).map((label, row) => (
+                          <div key={label} className="flex items-center justify-between gap-1 px-2 py-1">
+                            <Label className="text-xs text-muted-foreground">{label}</Label>
+                            {[0, 1].map((column) => {
+                              const slot = row * 2 + column;
+                              return (
+                                <Input
+                                  key={slot}
+                                  type="number"
+                                  step={0.1}
+                                  value={modifier.remap?.[slot] ?? 0}
+                                  onChange={(event) => {
+                                    const parsed = Number(event.target.value);
+                                    if (event.target.value === "" || Number.isNaN(parsed) || !modifier.remap) return;
+                                    const remap = [...modifier.remap] as [number, number, number, number];
+                                    remap[slot] = parsed;
+                                    modifierTypingRef.current = true;
+                                    setTrackModifiers(
+                                      track.layerId,
+                                      track.propertyId,
+                                      modifiers.map((m, i) => (i === modifierMenu.index ? { ...modifier, remap } : m))
+                                    );
+                                  }}
+                                  onBlur={commitEdit}
+                                  className="h-6 w-16 px-1 text-[11px]"
+                                />
+                              );
+                            })}
+                          </div>
+                        ))
+                      : null}
+                    <p className="px-2 py-1 text-[11px] text-muted-foreground">
+                      Replaces the keyed value; other modifiers still apply on top.
+                    </p>
+                  </>
+                ) : null}
+                {modifier.type === "cycle" || modifier.type === "pingpong" ? (
+                  <p className="px-2 py-1 text-[11px] text-muted-foreground">
+                    {modifier.type === "cycle" ? "Repeats" : "Plays back and forth"} the keyed range after the last
+                    keyframe.
+                  </p>
+                ) : null}
                 <div className="my-1 border-t border-border" />
+                <button
+                  type="button"
+                  className="w-full rounded px-2 py-1 text-left text-xs hover:bg-muted"
+                  onClick={() => {
+                    commitEdit();
+                    setTrackModifiers(
+                      track.layerId,
+                      track.propertyId,
+                      modifiers.filter((_, i) => i !== modifierMenu.index),
+                      "Remove modifier"
+                    );
+                    setModifierMenu(null);
+                  }}
+                >
+                  Remove modifier
+                </button>
               </>
-            )}
+            ) : null}
+          </div>
+        );
+      })() : null}
+
+      {markerMenu ? (() => {
+        const marker = timelineMarkers.find((m) => m.id === markerMenu.id);
+        if (!marker) return null;
+        const slug = animationRuntime.getMarkerAnchors(timelineMarkers).find((entry) => entry.marker === marker)?.slug;
+        return (
+          <div
+            className="fixed z-50 w-56 space-y-1 rounded-md border border-border bg-card p-1 shadow-lg"
+            style={{ left: markerMenu.x, top: markerMenu.y + 8 }}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Label</Label>
+              <Input
+                value={marker.label}
+                onChange={(event) => updateTimelineMarker(marker.id, { label: event.target.value })}
+                className="h-6 w-32 px-1 text-[11px]"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">At (vh)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={timelineLengthVh}
+                step={1}
+                value={marker.atVh}
+                onChange={(event) => {
+                  const parsed = Number(event.target.value);
+                  if (event.target.value === "" || Number.isNaN(parsed)) return;
+                  updateTimelineMarker(marker.id, { atVh: THREE.MathUtils.clamp(parsed, 0, timelineLengthVh) });
+                }}
+                className="h-6 w-20 px-1 text-[11px]"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Color</Label>
+              <input
+                type="color"
+                value={marker.color}
+                onChange={(event) => updateTimelineMarker(marker.id, { color: event.target.value })}
+                className="h-6 w-10 cursor-pointer rounded border border-border bg-transparent"
+              />
+            </div>
+            <div
+              className="flex items-center justify-between gap-2 px-2 py-1"
+              title="Scrolling that stops nearby settles on this marker (Customize → Scrolling)"
+            >
+              <Label className="text-xs text-muted-foreground">Snap here</Label>
+              <Switch
+                checked={Boolean(marker.snap)}
+                onCheckedChange={(snap) => updateTimelineMarker(marker.id, { snap: snap || undefined })}
+              />
+            </div>
+            {slug ? (
+              <p className="truncate px-2 py-1 font-mono text-[11px] text-muted-foreground" title="Anchor in the exported page">
+                #{slug}
+              </p>
+            ) : null}
+            <div className="my-1 border-t border-border" />
             <button
               type="button"
-              className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
+              className="w-full rounded px-2 py-1 text-left text-xs hover:bg-muted"
               onClick={() => {
-                duplicateLayer(layerContextMenu.layerId);
-                setLayerContextMenu(null);
+                removeTimelineMarker(marker.id);
+                setMarkerMenu(null);
               }}
             >
-              Duplicate layer
+              Delete marker
             </button>
-            {canUngroup && (
-              <button
-                type="button"
-                className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
-                onClick={() => {
-                  ungroupLayer(layerContextMenu.layerId);
-                  setLayerContextMenu(null);
+          </div>
+        );
+      })() : null}
+
+      {timedClipMenu ? (() => {
+        const clip = timedClips.find((c) => c.id === timedClipMenu.id);
+        if (!clip) return null;
+        const isMaterialTarget = timedClipMenu.target.startsWith(MATERIAL_TRACK_PREFIX);
+        const draftTarget = isMaterialTarget ? timedClipMenu.target.slice(MATERIAL_TRACK_PREFIX.length) : timedClipMenu.target;
+        const draftLayer = isMaterialTarget ? undefined : layerItems.find((layer) => layer.id === draftTarget);
+        const draftProperties: { id: string; label: string }[] = isMaterialTarget
+          ? [...MATERIAL_PROPERTIES]
+          : draftLayer
+          ? [
+              ...(isBoneLayer(draftLayer) ? BONE_TIMELINE_PROPERTIES : TIMELINE_PROPERTIES).filter(
+                (property) => property.id !== ROTATION_PROPERTY_ID
+              ),
+              ...Object.keys(draftLayer.morphWeights).map((name) => ({
+                id: getMorphPropertyId(name),
+                label: `Morph: ${name}`,
+              })),
+            ]
+          : [];
+        return (
+          <div
+            className="fixed z-50 max-h-[70vh] w-80 space-y-1 overflow-y-auto rounded-md border border-border bg-card p-1 shadow-lg"
+            style={{ left: Math.min(timedClipMenu.x, window.innerWidth - 330), bottom: window.innerHeight - timedClipMenu.y + 8 }}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Name</Label>
+              <Input
+                value={clip.name}
+                onChange={(event) => {
+                  timedClipTypingRef.current = true;
+                  updateTimedClip(clip.id, { name: event.target.value });
+                }}
+                onBlur={commitTimedClipTyping}
+                className="h-6 w-40 px-1 text-[11px]"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Starts at (vh)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={timelineLengthVh}
+                step={1}
+                value={clip.triggerVh}
+                onChange={(event) => {
+                  const parsed = Number(event.target.value);
+                  if (event.target.value === "" || Number.isNaN(parsed)) return;
+                  timedClipTypingRef.current = true;
+                  updateTimedClip(clip.id, { triggerVh: THREE.MathUtils.clamp(parsed, 0, timelineLengthVh) });
+                }}
+                onBlur={commitTimedClipTyping}
+                className="h-6 w-20 px-1 text-[11px]"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Duration (s)</Label>
+              <Input
+                type="number"
+                min={0.05}
+                step={0.1}
+                value={clip.durationS}
+                onChange={(event) => {
+                  const parsed = Number(event.target.value);
+                  if (event.target.value === "" || Number.isNaN(parsed) || parsed <= 0) return;
+                  timedClipTypingRef.current = true;
+                  updateTimedClip(clip.id, { durationS: parsed });
                 }}
+                onBlur={commitTimedClipTyping}
+                className="h-6 w-20 px-1 text-[11px]"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Mode</Label>
+              <select
+                value={clip.mode}
+                onChange={(event) =>
+                  updateTimedClip(clip.id, { mode: event.target.value as TimedClipMode }, "Timed clip mode")
+                }
+                className="h-6 w-40 rounded border border-input bg-background px-1 text-[11px]"
               >
-                Ungroup
-              </button>
-            )}
+                {TIMED_CLIP_MODES.map((entry) => (
+                  <option key={entry.mode} value={entry.mode}>
+                    {entry.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {clip.tracks.map((track, trackIndex) => (
+              <div key={`${track.target}|${track.propertyId}`} className="mx-1 space-y-1 rounded border border-border/80 p-1.5">
+                <div className="flex items-center justify-between gap-2 text-[11px]">
+                  <span className="min-w-0 truncate">
+                    {getTimedClipTrackLabel(track)}
+                  </span>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      type="button"
+                      className="rounded px-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                      onClick={() => addTimedClipKeyframe(clip.id, trackIndex)}
+                      title="Add a keyframe"
+                    >
+                      <Diamond className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded px-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                      onClick={() => removeTimedClipTrack(clip.id, trackIndex)}
+                      title="Remove track"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+                {track.keyframes.map((kf, keyframeIndex) => (
+                  <div key={keyframeIndex} className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={clip.durationS}
+                      step={0.05}
+                      value={kf.atVh}
+                      onChange={(event) => {
+                        const parsed = Number(event.target.value);
+                        if (event.target.value === "" || Number.isNaN(parsed)) return;
+                        timedClipTypingRef.current = true;
+                        updateTimedClipKeyframe(clip.id, trackIndex, keyframeIndex, {
+                          atVh: THREE.MathUtils.clamp(parsed, 0, clip.durationS),
+                        });
+                      }}
+                      onBlur={commitTimedClipTyping}
+                      className="h-6 w-16 px-1 text-[11px]"
+                      title="Time (s)"
+                    />
+                    <Input
+                      type="number"
+                      step={0.1}
+                      value={kf.value}
+                      onChange={(event) => {
+                        const parsed = Number(event.target.value);
+                        if (event.target.value === "" || Number.isNaN(parsed)) return;
+                        timedClipTypingRef.current = true;
+                        updateTimedClipKeyframe(clip.id, trackIndex, keyframeIndex, { value: parsed });
+                      }}
+                      onBlur={commitTimedClipTyping}
+                      className="h-6 w-20 px-1 text-[11px]"
+                      title="Value"
+                    />
+                    <select
+                      value={kf.easing ?? "linear"}
+                      onChange={(event) =>
+                        updateTimedClipKeyframe(
+                          clip.id,
+                          trackIndex,
+                          keyframeIndex,
+                          { easing: event.target.value as EasingType },
+                          "Timed clip easing"
+                        )
+                      }
+                      className="h-6 min-w-0 flex-1 rounded border border-input bg-background px-1 text-[11px]"
+                      title="Easing toward the next keyframe"
+                    >
+                      {TIMED_CLIP_EASINGS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="rounded px-1 text-muted-foreground hover:bg-muted hover:text-foreground disabled:opacity-40"
+                      onClick={() =>
+                        updateTimedClipKeyframe(clip.id, trackIndex, keyframeIndex, null, "Delete timed clip keyframe")
+                      }
+                      disabled={track.keyframes.length <= 1}
+                      title="Remove keyframe"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))}
+            <div className="flex items-center gap-1 px-2 py-1">
+              <select
+                value={timedClipMenu.target}
+                onChange={(event) => setTimedClipMenu({ ...timedClipMenu, target: event.target.value, propertyId: "" })}
+                className="h-6 min-w-0 flex-1 rounded border border-input bg-background px-1 text-[11px]"
+              >
+                <option value="">Animate…</option>
+                <optgroup label="Layers">
+                  {layerItems.map((layer) => (
+                    <option key={layer.id} value={layer.id}>
+                      {"\u00a0".repeat(layer.depth * 2)}
+                      {layer.name}
+                    </option>
+                  ))}
+                </optgroup>
+                {materialsByName.size > 0 ? (
+                  <optgroup label="Materials">
+                    {[...materialsByName.keys()].map((name) => (
+                      <option key={name} value={getMaterialTrackId(name)}>
+                        {name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
+              </select>
+              <select
+                value={timedClipMenu.propertyId}
+                disabled={draftProperties.length === 0}
+                onChange={(event) => {
+                  addTimedClipTrack(clip.id, draftTarget, event.target.value);
+                  setTimedClipMenu({ ...timedClipMenu, propertyId: "" });
+                }}
+                className="h-6 min-w-0 flex-1 rounded border border-input bg-background px-1 text-[11px]"
+              >
+                <option value="">Property…</option>
+                {draftProperties.map((property) => (
+                  <option
+                    key={property.id}
+                    value={property.id}
+                    disabled={clip.tracks.some((t) => t.target === draftTarget && t.propertyId === property.id)}
+                  >
+                    {property.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="px-2 pb-1 text-[11px] text-muted-foreground">
+              Keyframe times are seconds from the trigger. Timed clips run in Preview and while the timeline plays.
+            </p>
+            <div className="my-1 border-t border-border" />
             <button
               type="button"
-              className="w-full rounded-sm px-2 py-1.5 text-left text-sm text-destructive hover:bg-muted"
+              className="w-full rounded px-2 py-1 text-left text-xs hover:bg-muted"
               onClick={() => {
-                deleteLayer(layerContextMenu.layerId);
-                setLayerContextMenu(null);
+                removeTimedClip(clip.id);
+                setTimedClipMenu(null);
               }}
             >
-              Delete layer
+              Delete timed clip
             </button>
           </div>
         );
       })() : null}
 
-      {kfContextMenu ? (() => {
-        const EASING_OPTIONS: { value: EasingType; label: string; description: string }[] = [
-          { value: "linear",         label: "Linear",            description: "Constant speed" },
-          { value: "easeIn",         label: "Ease In",           description: "Slow start, fast end" },
-          { value: "easeOut",        label: "Ease Out",          description: "Fast start, slow end" },
-          { value: "easeInOut",      label: "Ease In/Out",       description: "Slow at both ends" },
-          { value: "easeInOutCubic", label: "Ease In/Out Cubic", description: "Stronger slow at both ends" },
-        ];
-        // Detect the current easing of the right-clicked keyframes (first one wins)
-        let currentEasing: EasingType | null = null;
-        outer: for (const track of animationTracksRef.current) {
-          for (const kf of track.keyframes) {
-            if (kfContextMenu.kfIds.has(makeKfId(track.layerId, track.propertyId, kf.atVh))) {
-              currentEasing = kf.easing ?? "linear";
-              break outer;
-            }
-          }
-        }
+      {sceneMenu ? (() => {
+        const scene = scenes.find((s) => s.id === activeSceneId);
+        if (!scene) return null;
+        const index = scenes.indexOf(scene);
         return (
           <div
-            ref={kfMenuRef}
-            className="fixed z-50 w-44 rounded-md border border-border bg-card p-1 shadow-lg"
-            style={{ left: kfContextMenu.x, top: kfContextMenu.y }}
+            className="fixed z-50 w-60 space-y-1 rounded-md border border-border bg-card p-1 shadow-lg"
+            style={{ left: sceneMenu.x, bottom: window.innerHeight - sceneMenu.y + 8 }}
             onPointerDown={(event) => event.stopPropagation()}
           >
-            <p className="px-2 py-1 text-xs font-medium text-muted-foreground">
-              Easing — {kfContextMenu.kfIds.size} keyframe{kfContextMenu.kfIds.size !== 1 ? "s" : ""}
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <Label className="text-xs text-muted-foreground">Name</Label>
+              <Input
+                value={scene.name}
+                onChange={(event) => updateActiveScene({ name: event.target.value })}
+                className="h-6 w-36 px-1 text-[11px]"
+              />
+            </div>
+            <div
+              className="flex items-center justify-between gap-2 px-2 py-1"
+              title="Page content above this scene's canvas in the exported page"
+            >
+              <Label className="text-xs text-muted-foreground">Page offset (vh)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={10}
+                value={scene.pageOffsetVh}
+                onChange={(event) => {
+                  const parsed = Number(event.target.value);
+                  if (event.target.value === "" || Number.isNaN(parsed)) return;
+                  updateActiveScene({ pageOffsetVh: Math.max(0, parsed) });
+                }}
+                className="h-6 w-20 px-1 text-[11px]"
+              />
+            </div>
+            <p className="px-2 py-1 text-[11px] text-muted-foreground">
+              Scene {index + 1} of {scenes.length} on the page
             </p>
             <div className="my-1 border-t border-border" />
-            {EASING_OPTIONS.map((opt) => {
-              const isActive = currentEasing === opt.value;
-              return (
-                <button
-                  key={opt.value}
-                  type="button"
-                  className="flex w-full items-start gap-2 rounded-sm px-2 py-1.5 text-left text-sm text-foreground hover:bg-muted"
-                  onClick={() => {
-                    setKeyframeEasing(kfContextMenu.kfIds, opt.value);
-                    setKfContextMenu(null);
-                  }}
-                >
-                  <span className="mt-0.5 w-3 shrink-0 text-primary">{isActive ? "✓" : ""}</span>
-                  <span>
-                    <span className="font-medium">{opt.label}</span>
-                    <span className="block text-xs text-muted-foreground">{opt.description}</span>
-                  </span>
-                </button>
-              );
-            })}
+            <button
+              type="button"
+              className="w-full rounded px-2 py-1 text-left text-xs hover:bg-muted disabled:pointer-events-none disabled:opacity-50"
+              disabled={scenes.length < 2}
+              onClick={() => {
+                removeActiveScene();
+                setSceneMenu(null);
+              }}
+            >
+              Delete scene
+            </button>
           </div>
         );
       })() : null}
@@ -4951,6 +9961,132 @@ export function GlbViewer() {
         </div>
       ) : null}
 
+      {bakeModalOpen ? (
+        <div
+          className="fixed inset-0 z-[110] flex items-center justify-center bg-black/60"
+          onPointerDown={() => setBakeModalOpen(false)}
+        >
+          <div
+            className="w-[420px] rounded-xl border border-border bg-card p-6 shadow-2xl"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-base font-semibold">Bake to GLB</h2>
+              <button
+                type="button"
+                className="rounded p-1 hover:bg-muted"
+                onClick={() => setBakeModalOpen(false)}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Writes the timeline into the GLB as an animation clip, easing included. Scroll distance becomes
+                clip time.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="bake-rate" className="text-xs">vh per second</Label>
+                  <Input
+                    id="bake-rate"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={bakeSettings.vhPerSecond}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (Number.isFinite(value) && value > 0) setBakeSettings((prev) => ({ ...prev, vhPerSecond: value }));
+                    }}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="bake-fps" className="text-xs">Samples per second</Label>
+                  <Input
+                    id="bake-fps"
+                    type="number"
+                    min={1}
+                    max={120}
+                    step={1}
+                    value={bakeSettings.fps}
+                    onChange={(e) => {
+                      const value = Math.round(Number(e.target.value));
+                      if (Number.isFinite(value) && value > 0) {
+                        setBakeSettings((prev) => ({ ...prev, fps: Math.min(120, value) }));
+                      }
+                    }}
+                    className="h-8"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Clip length: {(timelineLengthVh / bakeSettings.vhPerSecond).toFixed(2)}s for {timelineLengthVh} vh.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant={bakeSettings.mode === "keyframes" ? "default" : "outline"}
+                  onClick={() => setBakeSettings((prev) => ({ ...prev, mode: "keyframes" }))}
+                >
+                  Keyframe-exact
+                </Button>
+                <Button
+                  size="sm"
+                  variant={bakeSettings.mode === "sampled" ? "default" : "outline"}
+                  onClick={() => setBakeSettings((prev) => ({ ...prev, mode: "sampled" }))}
+                >
+                  Sampled
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {bakeSettings.mode === "keyframes"
+                  ? "Keys land on your keyframes; eased and pivoted segments are sampled in between."
+                  : "Keys every sample across the whole timeline."}
+              </p>
+              <div className="space-y-1">
+                <ToggleField
+                  label="KHR_animation_pointer"
+                  checked={bakeSettings.animationPointer}
+                  onChange={(animationPointer) => setBakeSettings((prev) => ({ ...prev, animationPointer }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Also bakes opacity, materials, lights and the camera. Viewers without the extension ignore
+                  those channels; turn it off for a plain glTF 2.0 file.
+                </p>
+              </div>
+              {unbakeableTracks.length > 0 || layerConstraints.length > 0 ? (
+                <div className="space-y-1 rounded-md border border-amber-500/40 bg-amber-500/10 p-2">
+                  <p className="text-xs font-medium">Not representable in glTF, skipped:</p>
+                  <ul className="max-h-32 space-y-0.5 overflow-y-auto text-xs text-muted-foreground">
+                    {unbakeableTracks.map((track) => (
+                      <li key={`${track.layerId}::${track.propertyId}`}>
+                        {getLayerName(track.layerId)} · {getTrackPropertyLabel(track.propertyId)}
+                      </li>
+                    ))}
+                    {layerConstraints.map((constraint) => (
+                      <li key={constraint.id}>
+                        {getLayerName(constraint.layerId)} ·{" "}
+                        {LAYER_CONSTRAINT_TYPES.find((entry) => entry.type === constraint.type)?.label} constraint
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              <div className="flex justify-end gap-2 pt-1">
+                <Button size="sm" variant="outline" onClick={() => setBakeModalOpen(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={exportBakedModel}>
+                  <Download className="mr-1 h-4 w-4" />
+                  Export GLB
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
       {/* ── Save-confirm dialog ──────────────────────────────────── */}
       {saveConfirmOpen ? (
         <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/60">
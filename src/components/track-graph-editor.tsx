@@ -0,0 +1,345 @@
+import { useState } from "react";
+
+import type { AnimationKeyframe, KeyframeTrack } from "@/lib/animation-runtime";
+
+export type GraphTrack = KeyframeTrack & {
+  id: string;
+  label: string;
+  color: string;
+};
+
+type ValueRange = { min: number; max: number };
+
+const PLOT_PAD_Y = 14;
+const TICK_COUNT = 5;
+const HANDLE_LENGTH_PX = 36;
+
+export type TangentPatch = { inTangent?: number; outTangent?: number };
+
+// Auto-fit a value range from the sampled curve (so overshoot stays visible), with
+// headroom; a flat curve gets a unit-wide window so it doesn't collapse to a line.
+function fitRange(values: number[]): ValueRange {
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return { min: 0, max: 1 };
+  if (max - min < 1e-6) {
+    min -= 0.5;
+    max += 0.5;
+  }
+  const pad = (max - min) * 0.1;
+  return { min: min - pad, max: max + pad };
+}
+
+function formatTick(value: number) {
+  const abs = Math.abs(value);
+  return Number(value.toFixed(abs >= 100 ? 0 : abs >= 1 ? 2 : 3)).toString();
+}
+
+// After Effects–style value graph for a set of tracks. Renders one full timeline row
+// (legend/axis column, gutter, plot) using the same grid template as the track rows,
+// so the plot's x axis lines up with the ruler above it.
+export function TrackGraphEditor({
+  tracks,
+  lengthVh,
+  width,
+  height,
+  currentVh,
+  normalize,
+  evaluate,
+  getTangents,
+  isKeyframeSelected,
+  onKeyframeValueChange,
+  onKeyframeTangentChange,
+  onSeek,
+}: {
+  tracks: GraphTrack[];
+  lengthVh: number;
+  width: number;
+  height: number;
+  currentVh: number;
+  normalize: boolean;
+  evaluate: (track: KeyframeTrack, atVh: number) => number;
+  getTangents: (keyframes: AnimationKeyframe[], index: number) => { in: number; out: number };
+  isKeyframeSelected: (track: GraphTrack, kf: AnimationKeyframe) => boolean;
+  onKeyframeValueChange: (trackId: string, index: number, value: number, commit: boolean) => void;
+  onKeyframeTangentChange: (trackId: string, index: number, patch: TangentPatch, commit: boolean) => void;
+  onSeek: (vh: number) => void;
+}) {
+  // While a keyframe is dragged the ranges are frozen; re-fitting mid-drag would
+  // move the axis under the cursor and make the drag run away.
+  const [frozenRanges, setFrozenRanges] = useState<Map<string, ValueRange> | null>(null);
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+
+  const sampleStepVh = Math.max(0.25, lengthVh / Math.max(1, width / 3));
+  const samples = tracks.map((track) => {
+    const points: { vh: number; value: number }[] = [];
+    for (let vh = 0; vh < lengthVh; vh += sampleStepVh) {
+      points.push({ vh, value: evaluate(track, vh) });
+    }
+    points.push({ vh: lengthVh, value: evaluate(track, lengthVh) });
+    // Sample just before and at every keyframe so hold steps render as sharp jumps
+    track.keyframes.forEach((kf) => {
+      points.push({ vh: kf.atVh - 1e-3, value: evaluate(track, kf.atVh - 1e-3) });
+      points.push({ vh: kf.atVh, value: evaluate(track, kf.atVh) });
+    });
+    return points.sort((a, b) => a.vh - b.vh);
+  });
+
+  const ranges = new Map<string, ValueRange>();
+  if (frozenRanges) {
+    frozenRanges.forEach((range, id) => ranges.set(id, range));
+  } else if (normalize) {
+    tracks.forEach((track, i) => {
+      ranges.set(track.id, fitRange([
+        ...samples[i].map((p) => p.value),
+        ...track.keyframes.map((kf) => kf.value),
+      ]));
+    });
+  } else {
+    const shared = fitRange([
+      ...samples.flatMap((points) => points.map((p) => p.value)),
+      ...tracks.flatMap((track) => track.keyframes.map((kf) => kf.value)),
+    ]);
+    tracks.forEach((track) => ranges.set(track.id, shared));
+  }
+
+  const plotHeight = Math.max(1, height - PLOT_PAD_Y * 2);
+  const toX = (vh: number) => (Math.min(Math.max(vh, 0), lengthVh) / Math.max(1, lengthVh)) * width;
+  const toY = (value: number, range: ValueRange) =>
+    PLOT_PAD_Y + (1 - (value - range.min) / Math.max(1e-9, range.max - range.min)) * plotHeight;
+
+  const pxPerVh = width / Math.max(1, lengthVh);
+  const pxPerValue = (range: ValueRange) => plotHeight / Math.max(1e-9, range.max - range.min);
+
+  // Screen-space offset of a tangent handle: a fixed-length stub along the slope.
+  const handleOffset = (slope: number, range: ValueRange, side: -1 | 1) => {
+    const dx = pxPerVh;
+    const dy = -slope * pxPerValue(range);
+    const len = Math.hypot(dx, dy) || 1;
+    return { x: (side * dx * HANDLE_LENGTH_PX) / len, y: (side * dy * HANDLE_LENGTH_PX) / len };
+  };
+
+  const axisRange = !normalize && tracks.length > 0 ? ranges.get(tracks[0].id) ?? null : null;
+  const ticks = Array.from({ length: TICK_COUNT }, (_, i) => i / (TICK_COUNT - 1));
+
+  const startKeyframeDrag = (
+    event: React.PointerEvent<SVGCircleElement>,
+    track: GraphTrack,
+    index: number
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const range = ranges.get(track.id);
+    if (!range) return;
+    const frozen = new Map(ranges);
+    setFrozenRanges(frozen);
+    const startY = event.clientY;
+    const startValue = track.keyframes[index].value;
+    const unitsPerPx = (range.max - range.min) / plotHeight;
+    let latest = startValue;
+    let moved = false;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const dy = moveEvent.clientY - startY;
+      // Shift = fine adjust
+      const scale = moveEvent.shiftKey ? 0.1 : 1;
+      latest = Number((startValue - dy * unitsPerPx * scale).toFixed(4));
+      moved = true;
+      onKeyframeValueChange(track.id, index, latest, false);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      setFrozenRanges(null);
+      if (moved) onKeyframeValueChange(track.id, index, latest, true);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  // Dragging a handle sets the velocity from the cursor's slope relative to the key.
+  // Both sides move together (continuous tangent) unless Alt is held to break them.
+  const startTangentDrag = (
+    event: React.PointerEvent<SVGCircleElement>,
+    track: GraphTrack,
+    index: number,
+    side: -1 | 1
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const range = ranges.get(track.id);
+    const svg = event.currentTarget.ownerSVGElement;
+    if (!range || !svg) return;
+    setFrozenRanges(new Map(ranges));
+    const rect = svg.getBoundingClientRect();
+    const kf = track.keyframes[index];
+    const originX = toX(kf.atVh);
+    const originY = toY(kf.value, range);
+    let latest: TangentPatch | null = null;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const dx = (moveEvent.clientX - rect.left - originX) * side;
+      const dy = moveEvent.clientY - rect.top - originY;
+      if (dx < 1) return;
+      const slope = Number(((-dy * side) / pxPerValue(range) / (dx / pxPerVh)).toFixed(4));
+      latest = moveEvent.altKey
+        ? side === 1 ? { outTangent: slope } : { inTangent: slope }
+        : { inTangent: slope, outTangent: slope };
+      onKeyframeTangentChange(track.id, index, latest, false);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      setFrozenRanges(null);
+      if (latest) onKeyframeTangentChange(track.id, index, latest, true);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  return (
+    <div className="grid grid-cols-[320px_12px_1fr]">
+      <div className="sticky left-0 z-20 border-r bg-card" style={{ height }}>
+        <div className="space-y-0.5 px-2 py-1.5 pr-12">
+          {tracks.length === 0 ? (
+            <p className="text-[11px] text-muted-foreground">
+              Select keyframes, or a layer with animated properties, to graph their values.
+            </p>
+          ) : (
+            tracks.map((track) => (
+              <div key={track.id} className="flex min-w-0 items-center gap-1.5 text-[11px]">
+                <span className="h-0.5 w-3 shrink-0 rounded" style={{ backgroundColor: track.color }} />
+                <span className="truncate">{track.label}</span>
+              </div>
+            ))
+          )}
+        </div>
+        {axisRange
+          ? ticks.map((ratio) => {
+              const value = axisRange.max - ratio * (axisRange.max - axisRange.min);
+              return (
+                <span
+                  key={ratio}
+                  className="pointer-events-none absolute right-1 -translate-y-1/2 font-mono text-[10px] text-muted-foreground"
+                  style={{ top: PLOT_PAD_Y + ratio * plotHeight }}
+                >
+                  {formatTick(value)}
+                </span>
+              );
+            })
+          : null}
+      </div>
+      <div className="border-r border-border/40 bg-muted/50" />
+      <svg
+        width={width}
+        height={height}
+        className="block bg-background/40"
+        onPointerDown={(event) => {
+          if (event.button !== 0) return;
+          const rect = event.currentTarget.getBoundingClientRect();
+          const ratio = Math.min(Math.max((event.clientX - rect.left) / Math.max(1, rect.width), 0), 1);
+          onSeek(ratio * lengthVh);
+        }}
+      >
+        {ticks.map((ratio) => (
+          <line
+            key={ratio}
+            x1={0}
+            x2={width}
+            y1={PLOT_PAD_Y + ratio * plotHeight}
+            y2={PLOT_PAD_Y + ratio * plotHeight}
+            stroke="rgba(148,163,184,0.18)"
+          />
+        ))}
+        {tracks.map((track, i) => {
+          const range = ranges.get(track.id)!;
+          const d = samples[i]
+            .map((p, j) => `${j === 0 ? "M" : "L"} ${toX(p.vh).toFixed(1)} ${toY(p.value, range).toFixed(1)}`)
+            .join(" ");
+          return <path key={track.id} d={d} fill="none" stroke={track.color} strokeWidth={1.5} />;
+        })}
+        <line
+          x1={toX(currentVh)}
+          x2={toX(currentVh)}
+          y1={0}
+          y2={height}
+          className="pointer-events-none stroke-primary"
+          strokeWidth={2}
+        />
+        {tracks.map((track) => {
+          const range = ranges.get(track.id)!;
+          return track.keyframes.map((kf, index) => {
+            const key = `${track.id}::${index}`;
+            const selected = isKeyframeSelected(track, kf);
+            const cx = toX(kf.atVh);
+            const cy = toY(kf.value, range);
+            // Tangent handles on selected keys, for each side that borders a bezier segment
+            const tangents = selected ? getTangents(track.keyframes, index) : null;
+            const handles: { side: -1 | 1; slope: number }[] = [];
+            if (tangents && index > 0 && track.keyframes[index - 1].interpolation === "bezier") {
+              handles.push({ side: -1, slope: tangents.in });
+            }
+            if (tangents && index < track.keyframes.length - 1 && kf.interpolation === "bezier") {
+              handles.push({ side: 1, slope: tangents.out });
+            }
+            return (
+              <g key={key}>
+                {handles.map(({ side, slope }) => {
+                  const offset = handleOffset(slope, range, side);
+                  return (
+                    <g key={side}>
+                      <line
+                        x1={cx}
+                        y1={cy}
+                        x2={cx + offset.x}
+                        y2={cy + offset.y}
+                        stroke={track.color}
+                        strokeOpacity={0.6}
+                        className="pointer-events-none"
+                      />
+                      <circle
+                        cx={cx + offset.x}
+                        cy={cy + offset.y}
+                        r={3}
+                        fill={track.color}
+                        className="cursor-grab"
+                        onPointerDown={(event) => startTangentDrag(event, track, index, side)}
+                      >
+                        <title>Drag to set velocity (Alt = break tangent)</title>
+                      </circle>
+                    </g>
+                  );
+                })}
+                <circle
+                  cx={cx}
+                  cy={cy}
+                  r={hoveredKey === key ? 5 : 4}
+                  fill={selected ? track.color : "hsl(var(--background))"}
+                  stroke={track.color}
+                  strokeWidth={1.5}
+                  className="cursor-ns-resize"
+                  onPointerEnter={() => setHoveredKey(key)}
+                  onPointerLeave={() => setHoveredKey(null)}
+                  onPointerDown={(event) => startKeyframeDrag(event, track, index)}
+                />
+                {hoveredKey === key ? (
+                  <text
+                    x={cx + 8}
+                    y={cy - 8}
+                    className="pointer-events-none fill-foreground font-mono text-[10px]"
+                  >
+                    {kf.atVh.toFixed(2)} vh · {Number(kf.value.toFixed(4))}
+                  </text>
+                ) : null}
+              </g>
+            );
+          });
+        })}
+      </svg>
+    </div>
+  );
+}
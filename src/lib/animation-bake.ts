@@ -0,0 +1,363 @@
+import * as THREE from "three";
+
+import { isPointerProperty, type PointerChannel } from "@/lib/animation-pointer";
+import {
+  createAnimationRuntime,
+  type AnimationKeyframe,
+  type CameraRig,
+  type CameraViewSpec,
+  type ClipBindingSpec,
+  type DriverSources,
+  type KeyframeTrack,
+  type LightStateSpec,
+  type MaterialStateSpec,
+} from "@/lib/animation-runtime";
+
+// `sampled`: the whole timeline at a fixed rate. `keyframes`: keyframe times exactly, with
+// extra samples only inside segments glTF's linear interpolation cannot reproduce.
+export type BakeMode = "sampled" | "keyframes";
+
+export type BakeOptions = {
+  name: string;
+  lengthVh: number;
+  vhPerSecond: number; // timeline distance that becomes one second of clip time
+  fps: number;
+  mode: BakeMode;
+};
+
+// A layer track resolved onto an object of the scene being exported.
+export type BakeTrack = KeyframeTrack & { object: THREE.Object3D };
+
+// Scene state baked into KHR_animation_pointer channels. Lights and the camera are
+// children of a group whose local space is the editor's world space.
+export type PointerBakeInput = {
+  materials: { material: THREE.Material; base: MaterialStateSpec; tracks: KeyframeTrack[] }[];
+  lights: { light: THREE.DirectionalLight | THREE.PointLight; base: LightStateSpec; tracks: KeyframeTrack[] }[];
+  camera: { camera: THREE.PerspectiveCamera; base: CameraViewSpec; tracks: KeyframeTrack[]; rig: CameraRig } | null;
+};
+
+export type BakeResult = { clip: THREE.AnimationClip; pointerChannels: PointerChannel[]; sampleCount: number };
+
+// A hold key keeps its value until just before the next key, then jumps.
+const HOLD_EPSILON_VH = 0.001;
+const REST_TOLERANCE = 1e-6;
+
+// glTF animation channels carry node translation/rotation/scale and morph weights only;
+// opacity, materials, lights and the camera have no core channel.
+export function isBakeableProperty(propertyId: string) {
+  return (
+    propertyId.startsWith("position.") ||
+    propertyId.startsWith("rotation") ||
+    propertyId.startsWith("scale.") ||
+    propertyId.startsWith("morph.")
+  );
+}
+
+// Plain lerps of a channel glTF stores as-is. Rotation and scale move the object around
+// its bounding-box pivot, which changes its translation along a curve, so they are sampled.
+function isLinearSegment(propertyId: string, kf: AnimationKeyframe) {
+  if (!propertyId.startsWith("position.") && !propertyId.startsWith("morph.")) return false;
+  return (kf.interpolation ?? "eased") === "eased" && (kf.easing ?? "linear") === "linear";
+}
+
+function getSampleTimesVh(tracks: KeyframeTrack[], bindings: ClipBindingSpec[], options: BakeOptions) {
+  const length = Math.max(0, options.lengthVh);
+  const step = options.vhPerSecond / Math.max(1, options.fps);
+  const times = new Set<number>();
+  const add = (vh: number) => times.add(Number(vh.toFixed(4)));
+  const addRange = (from: number, to: number) => {
+    add(from);
+    for (let vh = from + step; vh < to; vh += step) add(vh);
+    add(to);
+  };
+
+  if (options.mode === "sampled") {
+    addRange(0, length);
+  } else {
+    add(0);
+    add(length);
+    tracks.forEach((track) => {
+      // Modifiers move the value between and past the keys
+      if (track.modifiers && track.modifiers.length > 0) {
+        addRange(0, length);
+        return;
+      }
+      const kfs = [...track.keyframes].sort((a, b) => a.atVh - b.atVh);
+      kfs.forEach((kf, index) => {
+        add(kf.atVh);
+        const next = kfs[index + 1];
+        if (!next) return;
+        if (kf.interpolation === "hold") add(Math.max(kf.atVh, next.atVh - HOLD_EPSILON_VH));
+        else if (!isLinearSegment(track.propertyId, kf)) addRange(kf.atVh, next.atVh);
+      });
+    });
+    // Clip content is arbitrary motion: sample the whole bound range
+    bindings.forEach((binding) => addRange(binding.startVh, binding.endVh));
+  }
+  return [...times].filter((vh) => vh >= 0 && vh <= length).sort((a, b) => a - b);
+}
+
+// Orients a camera or directional light (both look down -Z) from its position toward `target`.
+function lookAtLocal(object: THREE.Object3D, target: THREE.Vector3) {
+  const matrix = new THREE.Matrix4().lookAt(object.position, target, object.up);
+  object.quaternion.setFromRotationMatrix(matrix);
+}
+
+function getMaterialChannels(material: THREE.Material) {
+  const standard = material as Partial<THREE.MeshStandardMaterial>;
+  return {
+    baseColor: [...(standard.color?.toArray() ?? [1, 1, 1]), material.opacity],
+    emissive: standard.emissive?.toArray() ?? [0, 0, 0],
+    emissiveIntensity: [standard.emissiveIntensity ?? 1],
+    metalness: [standard.metalness ?? 0],
+    roughness: [standard.roughness ?? 1],
+  };
+}
+
+// Bakes the timeline into one clip on `root` (the copy being exported): every sample
+// runs the same runtime as the editor, then node transforms and morph weights are
+// recorded. Channels that never leave the rest pose are dropped; `root` is restored.
+// With `pointer`, opacity, material, light and camera state is recorded as well.
+// `drivers` resolves driver sources, whose objects should be the ones under `root`.
+export function bakeTimelineClip(
+  root: THREE.Object3D,
+  tracks: BakeTrack[],
+  clips: THREE.AnimationClip[],
+  bindings: ClipBindingSpec[],
+  options: BakeOptions,
+  pointer: PointerBakeInput | null = null,
+  drivers: DriverSources | null = null
+): BakeResult {
+  // Own runtime, so bounding-box pivots are captured on `root` rather than the editor scene
+  const runtime = createAnimationRuntime(THREE);
+  runtime.setDriverSources(drivers);
+  const layerTracks = runtime.orderTracksForApply(
+    tracks.filter(
+      (track) => isBakeableProperty(track.propertyId) || (pointer !== null && track.propertyId === "opacity")
+    )
+  );
+  const pointerLights = pointer?.lights ?? [];
+  const pointerCamera = pointer?.camera ?? null;
+  const cameraTarget = new THREE.Vector3();
+  const poseLight = (entry: PointerBakeInput["lights"][number], state: LightStateSpec) => {
+    runtime.applyLightState(entry.light, state);
+    // Directional lights shine toward the world origin, as in the editor
+    if ((entry.light as THREE.DirectionalLight).isDirectionalLight) lookAtLocal(entry.light, cameraTarget.set(0, 0, 0));
+  };
+  const poseCamera = (camera: THREE.PerspectiveCamera, view: CameraViewSpec, rig: CameraRig) => {
+    camera.position.fromArray(view.position);
+    camera.fov = view.fov;
+    camera.zoom = view.zoom;
+    cameraTarget.fromArray(view.target);
+    // A look-at layer's centre comes back in world space
+    if (rig.lookAtObject && camera.parent) camera.parent.worldToLocal(cameraTarget);
+    lookAtLocal(camera, cameraTarget);
+  };
+  pointerLights.forEach((entry) => poseLight(entry, entry.base));
+  if (pointerCamera) {
+    root.updateMatrixWorld(true);
+    poseCamera(pointerCamera.camera, runtime.evaluateCameraView([], 0, pointerCamera.base, pointerCamera.rig), pointerCamera.rig);
+  }
+  const boundClips = clips.filter((clip) => bindings.some((binding) => binding.clipName === clip.name));
+  const mixer = boundClips.length > 0 ? new THREE.AnimationMixer(root) : null;
+
+  const nodes = new Set<THREE.Object3D>();
+  const morphMeshes = new Set<THREE.Mesh>();
+  layerTracks.forEach((track) => {
+    if (track.propertyId.startsWith("morph.")) runtime.getMorphTargetMeshes(track.object).forEach((mesh) => morphMeshes.add(mesh));
+    else if (track.propertyId !== "opacity") nodes.add(track.object);
+  });
+  pointerLights.forEach((entry) => nodes.add(entry.light));
+  if (pointerCamera) nodes.add(pointerCamera.camera);
+  boundClips.forEach((clip) =>
+    clip.tracks.forEach((track) => {
+      const binding = THREE.PropertyBinding.parseTrackName(track.name);
+      const node = THREE.PropertyBinding.findNode(root, binding.nodeName) as THREE.Object3D | null;
+      if (!node) return;
+      if (binding.propertyName === "morphTargetInfluences") morphMeshes.add(node as THREE.Mesh);
+      else nodes.add(node);
+    })
+  );
+
+  const nodeRecords = [...nodes].map((node) => ({
+    node,
+    rest: { position: node.position.toArray(), quaternion: node.quaternion.clone(), scale: node.scale.toArray() },
+    position: [] as number[],
+    quaternion: [] as number[],
+    scale: [] as number[],
+  }));
+  const morphRecords = [...morphMeshes].map((mesh) => ({
+    mesh,
+    rest: [...(mesh.morphTargetInfluences ?? [])],
+    values: [] as number[],
+  }));
+
+  const materials = new Set<THREE.Material>(pointer?.materials.map((entry) => entry.material) ?? []);
+  layerTracks.forEach((track) => {
+    if (track.propertyId !== "opacity") return;
+    track.object.traverse((child) => {
+      const { material } = child as THREE.Mesh;
+      if (material) (Array.isArray(material) ? material : [material]).forEach((item) => materials.add(item));
+    });
+  });
+  const materialRecords = [...materials].map((material) => ({
+    material,
+    transparent: material.transparent,
+    rest: getMaterialChannels(material),
+    samples: [] as ReturnType<typeof getMaterialChannels>[],
+  }));
+  const lightRecords = pointerLights.map((entry) => ({
+    light: entry.light,
+    rest: { intensity: entry.light.intensity, color: entry.light.color.clone() },
+    intensity: [] as number[],
+    color: [] as number[],
+    range: [] as number[],
+  }));
+  const yfov: number[] = [];
+
+  const pointerTracks: KeyframeTrack[] = [
+    ...(pointer?.materials.flatMap((entry) => entry.tracks) ?? []),
+    ...pointerLights.flatMap((entry) => entry.tracks),
+    ...(pointerCamera?.tracks ?? []),
+  ].filter((track) => isPointerProperty(track.propertyId));
+  const timesVh = getSampleTimesVh([...layerTracks, ...pointerTracks], bindings, options);
+  const previous = new THREE.Quaternion();
+  timesVh.forEach((vh) => {
+    if (mixer) runtime.applyClips(mixer, boundClips, bindings, vh);
+    // Materials before layers, as in the editor, so a layer's opacity wins over its material's
+    pointer?.materials.forEach((entry) =>
+      runtime.applyMaterialState(entry.material, runtime.evaluateMaterialState(entry.tracks, vh, entry.base))
+    );
+    layerTracks.forEach((track) => runtime.applyTrack(track.object, track, vh));
+    pointerLights.forEach((entry) => poseLight(entry, runtime.evaluateLightState(entry.tracks, vh, entry.base)));
+    if (pointerCamera) {
+      const { camera, tracks: cameraTracks, base, rig } = pointerCamera;
+      root.updateMatrixWorld(true);
+      poseCamera(camera, runtime.evaluateCameraView(cameraTracks, vh, base, rig), rig);
+      // glTF has no zoom: fold it into the vertical field of view
+      const halfFov = THREE.MathUtils.degToRad(camera.fov) / 2;
+      yfov.push(2 * Math.atan(Math.tan(halfFov) / camera.zoom));
+    }
+
+    nodeRecords.forEach((record) => {
+      const { node } = record;
+      record.position.push(...node.position.toArray());
+      // Keep consecutive quaternions in the same hemisphere so interpolation takes the short way
+      const quat = node.quaternion.clone();
+      const count = record.quaternion.length;
+      if (count > 0 && previous.fromArray(record.quaternion, count - 4).dot(quat) < 0) {
+        quat.set(-quat.x, -quat.y, -quat.z, -quat.w);
+      }
+      record.quaternion.push(...quat.toArray());
+      record.scale.push(...node.scale.toArray());
+    });
+    morphRecords.forEach((record) => record.values.push(...(record.mesh.morphTargetInfluences ?? [])));
+    materialRecords.forEach((record) => record.samples.push(getMaterialChannels(record.material)));
+    lightRecords.forEach((record) => {
+      record.intensity.push(record.light.intensity);
+      record.color.push(...record.light.color.toArray());
+      record.range.push((record.light as THREE.PointLight).distance ?? 0);
+    });
+  });
+
+  // Back to the rest pose: that is the static scene the clip is exported with
+  mixer?.stopAllAction();
+  mixer?.uncacheRoot(root);
+  nodeRecords.forEach(({ node, rest }) => {
+    node.position.fromArray(rest.position);
+    node.quaternion.copy(rest.quaternion);
+    node.scale.fromArray(rest.scale);
+  });
+  morphRecords.forEach(({ mesh, rest }) => {
+    const influences = mesh.morphTargetInfluences;
+    if (influences) rest.forEach((weight, index) => (influences[index] = weight));
+  });
+  materialRecords.forEach(({ material, transparent, rest }) => {
+    const standard = material as Partial<THREE.MeshStandardMaterial>;
+    standard.color?.fromArray(rest.baseColor);
+    standard.emissive?.fromArray(rest.emissive);
+    if (standard.emissiveIntensity !== undefined) standard.emissiveIntensity = rest.emissiveIntensity[0];
+    if (standard.metalness !== undefined) standard.metalness = rest.metalness[0];
+    if (standard.roughness !== undefined) standard.roughness = rest.roughness[0];
+    material.opacity = rest.baseColor[3];
+    material.transparent = transparent;
+    material.needsUpdate = true;
+  });
+  lightRecords.forEach(({ light, rest }) => {
+    light.intensity = rest.intensity;
+    light.color.copy(rest.color);
+  });
+  if (pointerCamera) {
+    pointerCamera.camera.fov = pointerCamera.base.fov;
+    pointerCamera.camera.zoom = pointerCamera.base.zoom;
+    pointerCamera.camera.updateProjectionMatrix();
+  }
+  root.updateMatrixWorld(true);
+
+  const times = timesVh.map((vh) => vh / Math.max(1e-6, options.vhPerSecond));
+  const leavesRest = (values: number[], rest: number[]) =>
+    values.some((value, index) => Math.abs(value - rest[index % rest.length]) > REST_TOLERANCE);
+  // q and -q are the same orientation, so compare by the angle between them
+  const leavesRestOrientation = (values: number[], rest: THREE.Quaternion) => {
+    for (let i = 0; i < values.length; i += 4) {
+      if (Math.abs(previous.fromArray(values, i).dot(rest)) < 1 - REST_TOLERANCE) return true;
+    }
+    return false;
+  };
+  const keyframeTracks: THREE.KeyframeTrack[] = [];
+  nodeRecords.forEach((record) => {
+    const { uuid } = record.node;
+    if (leavesRest(record.position, record.rest.position)) {
+      keyframeTracks.push(new THREE.VectorKeyframeTrack(`${uuid}.position`, times, record.position));
+    }
+    if (leavesRestOrientation(record.quaternion, record.rest.quaternion)) {
+      keyframeTracks.push(new THREE.QuaternionKeyframeTrack(`${uuid}.quaternion`, times, record.quaternion));
+    }
+    if (leavesRest(record.scale, record.rest.scale)) {
+      keyframeTracks.push(new THREE.VectorKeyframeTrack(`${uuid}.scale`, times, record.scale));
+    }
+  });
+  morphRecords.forEach((record) => {
+    if (record.rest.length === 0 || !leavesRest(record.values, record.rest)) return;
+    keyframeTracks.push(new THREE.NumberKeyframeTrack(`${record.mesh.uuid}.morphTargetInfluences`, times, record.values));
+  });
+
+  const pointerChannels: PointerChannel[] = [];
+  const addPointerChannel = (target: PointerChannel["target"], path: string, values: number[], rest: number[]) => {
+    if (leavesRest(values, rest)) pointerChannels.push({ target, path, times, values, itemSize: rest.length });
+  };
+  materialRecords.forEach(({ material, rest, samples }) => {
+    const channel = (key: keyof typeof rest) => samples.flatMap((sample) => sample[key]);
+    addPointerChannel(material, "pbrMetallicRoughness/baseColorFactor", channel("baseColor"), rest.baseColor);
+    addPointerChannel(material, "emissiveFactor", channel("emissive"), rest.emissive);
+    addPointerChannel(
+      material,
+      "extensions/KHR_materials_emissive_strength/emissiveStrength",
+      channel("emissiveIntensity"),
+      rest.emissiveIntensity
+    );
+    if ((material as THREE.MeshStandardMaterial).isMeshStandardMaterial) {
+      addPointerChannel(material, "pbrMetallicRoughness/metallicFactor", channel("metalness"), rest.metalness);
+      addPointerChannel(material, "pbrMetallicRoughness/roughnessFactor", channel("roughness"), rest.roughness);
+    }
+  });
+  lightRecords.forEach(({ light, rest, intensity, color, range }) => {
+    addPointerChannel(light, "intensity", intensity, [rest.intensity]);
+    addPointerChannel(light, "color", color, rest.color.toArray());
+    // Zero distance means unlimited in three.js; glTF ranges must be positive
+    if ((light as THREE.PointLight).isPointLight && range.every((value) => value > 0)) {
+      addPointerChannel(light, "range", range, [(light as THREE.PointLight).distance]);
+    }
+  });
+  if (pointerCamera && yfov.length > 0) {
+    const { base } = pointerCamera;
+    const restFov = 2 * Math.atan(Math.tan(THREE.MathUtils.degToRad(base.fov) / 2) / base.zoom);
+    addPointerChannel(pointerCamera.camera, "perspective/yfov", yfov, [restFov]);
+  }
+
+  return {
+    clip: new THREE.AnimationClip(options.name, -1, keyframeTracks),
+    pointerChannels,
+    sampleCount: times.length,
+  };
+}
@@ -0,0 +1,435 @@
+import {
+  createAnimationRuntime,
+  type BreakpointSpec,
+  type ClipBindingSpec,
+  type KeyframeTrack,
+  type LayerConstraintSpec,
+  type LightStateSpec,
+  type ScrollSmoothingSpec,
+  type ScrollSnapSpec,
+  type TimedClipSpec,
+  type TimelineMarkerSpec,
+} from "@/lib/animation-runtime";
+
+// Configured light plus its `light.*` tracks, evaluated with `runtime.evaluateLightState`.
+type ExportLight = { base: LightStateSpec; tracks: KeyframeTrack[] };
+
+export type ExportScene = {
+  name: string;
+  // Height of the regular page content between the previous scene (or the page top) and
+  // this scene's canvas.
+  pageOffsetVh: number;
+  directionalLight: ExportLight | null;
+  pointLights: ExportLight[];
+  pinnedCamera: { position: [number, number, number]; target: [number, number, number]; fov: number; zoom: number } | null;
+  timelineLengthVh: number;
+  tracks: (KeyframeTrack & { layerName: string })[];
+  cameraTracks: KeyframeTrack[];
+  materialTracks: (KeyframeTrack & { materialName: string })[];
+  cameraPath: { points: [number, number, number][]; closed: boolean; lookAtLayerName: string | null } | null;
+  // Embedded GLB clips scrubbed by scroll; the clips themselves ship inside the GLB.
+  clips: ClipBindingSpec[];
+  // Clips on the clock, started by the scroll position; layer targets by name.
+  timedClips: TimedClipSpec[];
+  // Layer and target layers by name; a look-at with a null target aims at the camera.
+  constraints: (LayerConstraintSpec & { layerName: string })[];
+  // Chapters: an anchor per marker (`#<slug>` scrolls to it) and `chapterenter` /
+  // `chapterleave` events on `window` ({ id, label, slug, atVh, scene } in `detail`).
+  markers: TimelineMarkerSpec[];
+  // Breakpoint id -> the fields above as that breakpoint's overrides leave them. Only
+  // breakpoints that override something in this scene are listed.
+  variants: Record<string, ExportSceneVariant>;
+};
+
+export type ExportSceneVariant = Pick<
+  ExportScene,
+  "directionalLight" | "pointLights" | "pinnedCamera" | "tracks" | "cameraTracks" | "materialTracks"
+>;
+
+export type ExportConfig = {
+  backgroundColor: string;
+  useAmbientLight: boolean;
+  ambientIntensity: number;
+  // Eases each scene's rendered vh toward its scroll position (`stepScrollSmoothing`).
+  scrollSmoothing: ScrollSmoothingSpec;
+  // Reach and idle delay of the markers flagged `snap` (`getSnapTarget`).
+  scrollSnap: ScrollSnapSpec;
+  // Matched against the window on load and resize (`matchBreakpoint`) to pick scene variants.
+  breakpoints: BreakpointSpec[];
+  // In page order; each scene scrolls its own sticky canvas.
+  scenes: ExportScene[];
+};
+
+export function generateAnimationHtml(glbDataUrl: string, cfg: ExportConfig): string {
+  const cfgJson = JSON.stringify(cfg);
+  // Placeholder blocks stand in for the page content around the scenes.
+  const sections = cfg.scenes
+    .map(
+      (scene) =>
+        (scene.pageOffsetVh > 0 ? `<div class="page-content" style="height: ${scene.pageOffsetVh}vh"></div>\n` : "") +
+        `<section class="scroll-scene" style="height: ${scene.timelineLengthVh + 100}vh">` +
+        `<div class="canvas-wrap"><canvas></canvas></div></section>`
+    )
+    .join("\n");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>Animation</title>
+<style>
+* { margin: 0; padding: 0; box-sizing: border-box; }
+html { overflow-x: hidden; }
+body { background: ${cfg.backgroundColor}; }
+.scroll-scene { position: relative; }
+.canvas-wrap { position: sticky; top: 0; height: 100vh; }
+canvas { display: block; width: 100% !important; height: 100% !important; }
+</style>
+<script type="importmap">
+{
+  "imports": {
+    "three": "https://cdn.jsdelivr.net/npm/three@0.182.0/build/three.module.js",
+    "three/addons/": "https://cdn.jsdelivr.net/npm/three@0.182.0/examples/jsm/"
+  }
+}
+</script>
+</head>
+<body>
+${sections}
+<script type="module">
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+
+const CFG = ${cfgJson};
+const GLB_DATA_URL = '${glbDataUrl}';
+
+// Same evaluate/apply code the editor runs in Animate and Preview mode. Each scene gets
+// its own runtime: driver sources are registered per runtime.
+const createRuntime = (${createAnimationRuntime.toString()});
+
+const loader = new GLTFLoader();
+const anchorIds = new Set();
+
+function mountScene(SCENE, section) {
+  const runtime = createRuntime(THREE);
+  const canvas = section.querySelector('canvas');
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+  renderer.setPixelRatio(window.devicePixelRatio);
+  renderer.setClearColor(CFG.backgroundColor);
+  renderer.shadowMap.enabled = true;
+
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(CFG.backgroundColor);
+
+  const camera = new THREE.PerspectiveCamera(
+    SCENE.pinnedCamera ? SCENE.pinnedCamera.fov : 45,
+    window.innerWidth / window.innerHeight, 0.001, 100000
+  );
+  // Camera tracks animate over the pinned view (the editor's default view when unpinned).
+  let CAMERA_BASE = null;
+
+  if (CFG.useAmbientLight) {
+    scene.add(new THREE.AmbientLight(0xffffff, CFG.ambientIntensity));
+  }
+  // Every variant has the same lights, in the same order; only their bases and tracks differ.
+  const lights = (SCENE.directionalLight ? [new THREE.DirectionalLight()] : []).concat(
+    SCENE.pointLights.map(function() { return new THREE.PointLight(); })
+  );
+  lights.forEach(function(light) { scene.add(light); });
+  let animatedLights = [];
+
+  function onResize() {
+    camera.aspect = window.innerWidth / window.innerHeight;
+    camera.updateProjectionMatrix();
+    renderer.setSize(window.innerWidth, window.innerHeight, false);
+  }
+  onResize();
+  window.addEventListener('resize', onResize);
+
+  // The canvas stays pinned while its section scrolls past: 1vh of timeline is 1vh of page.
+  // Scroll sets the target; the rendered vh follows it each frame under CFG.scrollSmoothing.
+  let targetVh = 0;
+  let inRange = false;
+  const follow = { vh: 0, velocity: 0 };
+  let currentVh = 0;
+  function onScroll() {
+    const maxScroll = (SCENE.timelineLengthVh / 100) * window.innerHeight;
+    const scrolled = window.scrollY - section.offsetTop;
+    inRange = scrolled >= 0 && scrolled <= maxScroll;
+    targetVh = Math.min(Math.max(
+      (scrolled / Math.max(1, maxScroll)) * SCENE.timelineLengthVh, 0
+    ), SCENE.timelineLengthVh);
+  }
+  window.addEventListener('scroll', onScroll, { passive: true });
+  window.addEventListener('resize', onScroll);
+
+  // Once scrolling has stopped for the snap delay, settle onto the nearest snap marker in
+  // reach; the vh is left unclamped so a marker at either end can pull the page in.
+  let snapTimer = 0;
+  function scheduleSnap() {
+    clearTimeout(snapTimer);
+    snapTimer = setTimeout(function() {
+      const scrolledVh = ((window.scrollY - section.offsetTop) / window.innerHeight) * 100;
+      const snapVh = runtime.getSnapTarget(SCENE.markers, scrolledVh, CFG.scrollSnap);
+      if (snapVh === null) return;
+      const top = section.offsetTop + (snapVh / 100) * window.innerHeight;
+      if (Math.abs(top - window.scrollY) > 1) window.scrollTo({ top: top, behavior: 'smooth' });
+    }, CFG.scrollSnap.delayMs);
+  }
+  if (SCENE.markers.some(function(marker) { return marker.snap; })) {
+    window.addEventListener('scroll', scheduleSnap, { passive: true });
+  }
+
+  // Anchors sit at their marker's scroll position within the section; slugs repeated by
+  // an earlier scene get a numeric suffix.
+  const markerAnchors = runtime.getMarkerAnchors(SCENE.markers).map(function(entry) {
+    let slug = entry.slug;
+    for (let n = 2; anchorIds.has(slug); n++) slug = entry.slug + '-' + n;
+    anchorIds.add(slug);
+    const anchor = document.createElement('div');
+    anchor.id = slug;
+    anchor.style.cssText = 'position:absolute;left:0;width:1px;height:1px;top:' + entry.marker.atVh + 'vh';
+    section.appendChild(anchor);
+    return { marker: entry.marker, slug: slug };
+  });
+  let currentChapter = null;
+  function chapterDetail(marker) {
+    const entry = markerAnchors.find(function(e) { return e.marker === marker; });
+    return { id: marker.id, label: marker.label, slug: entry ? entry.slug : '', atVh: marker.atVh, scene: SCENE.name };
+  }
+  // Chapters follow the scroll position itself, like the anchors, and end once the page
+  // scrolls out of the scene's range.
+  function updateChapter() {
+    const marker = inRange ? runtime.getMarkerAt(markerAnchors.map(function(e) { return e.marker; }), targetVh) : null;
+    if (marker === currentChapter) return;
+    if (currentChapter) window.dispatchEvent(new CustomEvent('chapterleave', { detail: chapterDetail(currentChapter) }));
+    currentChapter = marker;
+    if (marker) window.dispatchEvent(new CustomEvent('chapterenter', { detail: chapterDetail(marker) }));
+  }
+  if (markerAnchors.length > 0) window.addEventListener('scroll', updateChapter, { passive: true });
+
+  const objMap = {};
+  let materialMap = new Map();
+  // Path + look-at layer; the layer is resolved once the GLB has loaded.
+  const cameraRig = { path: SCENE.cameraPath, lookAtObject: null };
+  let mixer = null;
+  let clips = [];
+
+  const constraintGroups = {};
+  SCENE.constraints.forEach(function(constraint) {
+    const group = constraintGroups[constraint.layerName] = constraintGroups[constraint.layerName] || {
+      constraints: [],
+      tracks: [],
+    };
+    group.constraints.push(constraint);
+  });
+  const constraintTargets = { getObject: function(name) { return objMap[name]; }, camera: camera };
+  // Drivers name their source layer, which is how this page finds layers.
+  runtime.setDriverSources({
+    getTrack: function(source, propertyId) {
+      return active.tracks.find(function(track) { return track.layerName === source && track.propertyId === propertyId; });
+    },
+    getObject: function(source) { return objMap[source]; },
+  });
+  [SCENE].concat(Object.values(SCENE.variants)).forEach(function(variant) {
+    const lightTracks = (variant.directionalLight ? [variant.directionalLight] : []).concat(variant.pointLights)
+      .map(function(l) { return l.tracks; });
+    [variant.tracks, variant.cameraTracks, variant.materialTracks].concat(lightTracks).forEach(function(tracks) {
+      tracks.forEach(function(track) {
+        (track.modifiers || []).forEach(function(modifier) {
+          if (modifier.type === 'driver' && modifier.sourceName) modifier.source = modifier.sourceName;
+        });
+      });
+    });
+  });
+
+  // The scene as the matching breakpoint's overrides leave it (the scene itself when none
+  // matches or the breakpoint overrides nothing here). Re-picked on resize; a switch first
+  // puts the base scene back so nothing only the previous breakpoint set outlives it.
+  let active = null;
+  let layerTracks = [];
+  let materialGroups = {};
+  function applyVariantBase(variant, moveCamera) {
+    const view = variant.pinnedCamera || { position: [2, 2, 2], target: [0, 0, 0], fov: 45, zoom: 1 };
+    if (variant.pinnedCamera || moveCamera) {
+      runtime.applyCameraView(camera, {
+        position: view.position,
+        target: view.target,
+        fov: view.fov,
+        zoom: view.zoom != null ? view.zoom : 1,
+      });
+    }
+    (variant.directionalLight ? [variant.directionalLight] : []).concat(variant.pointLights).forEach(function(l, index) {
+      runtime.applyLightState(lights[index], l.base);
+    });
+    return view;
+  }
+  function selectVariant() {
+    const breakpoint = runtime.matchBreakpoint(CFG.breakpoints, window.innerWidth, window.innerHeight);
+    const next = (breakpoint && SCENE.variants[breakpoint.id]) || SCENE;
+    if (next === active) return;
+    const initial = active === null;
+    if (!initial) {
+      CAMERA_BASE = applyVariantBase(SCENE, true);
+      runtime.orderTracksForApply(SCENE.tracks).forEach(function(track) {
+        const obj = objMap[track.layerName];
+        if (obj) runtime.applyTrack(obj, track, currentVh);
+      });
+      const baseMaterialGroups = {};
+      SCENE.materialTracks.forEach(function(track) {
+        (baseMaterialGroups[track.materialName] = baseMaterialGroups[track.materialName] || []).push(track);
+      });
+      Object.keys(baseMaterialGroups).forEach(function(name) {
+        (materialMap.get(name) || []).forEach(function(material) {
+          const base = runtime.getMaterialBase(material);
+          runtime.applyMaterialState(material, runtime.evaluateMaterialState(baseMaterialGroups[name], currentVh, base));
+        });
+      });
+    }
+    active = next;
+    if (initial || active !== SCENE) CAMERA_BASE = applyVariantBase(active, false);
+    animatedLights = [];
+    (active.directionalLight ? [active.directionalLight] : []).concat(active.pointLights).forEach(function(l, index) {
+      if (l.tracks.length > 0) animatedLights.push({ light: lights[index], base: l.base, tracks: l.tracks });
+    });
+    layerTracks = runtime.orderTracksForApply(active.tracks);
+    materialGroups = {};
+    active.materialTracks.forEach(function(track) {
+      (materialGroups[track.materialName] = materialGroups[track.materialName] || []).push(track);
+    });
+    Object.keys(constraintGroups).forEach(function(name) {
+      constraintGroups[name].tracks = active.tracks.filter(function(track) { return track.layerName === name; });
+    });
+  }
+  selectVariant();
+  window.addEventListener('resize', selectVariant);
+  // Timed clips keep time every frame, on-screen or not, and are posed with the tracks.
+  const timedStates = SCENE.timedClips.map(function() { return runtime.createTimedClipState(); });
+  const timedActive = SCENE.timedClips.map(function() { return false; });
+  function stepTimedClips(dt) {
+    SCENE.timedClips.forEach(function(clip, index) {
+      timedActive[index] = runtime.stepTimedClip(clip, timedStates[index], currentVh, dt);
+    });
+  }
+  function applyTimedClips() {
+    const materialChannels = {};
+    SCENE.timedClips.forEach(function(clip, index) {
+      if (!timedActive[index]) return;
+      const time = timedStates[index].time;
+      clip.tracks.forEach(function(track) {
+        if (track.keyframes.length === 0) return;
+        if (track.propertyId.indexOf('material.') === 0) {
+          (materialChannels[track.target] = materialChannels[track.target] || []).push({ track: track, time: time });
+          return;
+        }
+        const obj = objMap[track.target];
+        if (obj) runtime.applyTrack(obj, track, time);
+      });
+    });
+    // Material channels go over the material's scroll-driven state
+    Object.keys(materialChannels).forEach(function(name) {
+      (materialMap.get(name) || []).forEach(function(material) {
+        let state = runtime.evaluateMaterialState(materialGroups[name] || [], currentVh, runtime.getMaterialBase(material));
+        materialChannels[name].forEach(function(entry) {
+          state = runtime.evaluateMaterialState([entry.track], entry.time, state);
+        });
+        runtime.applyMaterialState(material, state);
+      });
+    });
+  }
+
+  function applyTracks() {
+    // Clips pose the rig first so layer tracks can still override individual nodes.
+    if (mixer) runtime.applyClips(mixer, clips, SCENE.clips, currentVh);
+    layerTracks.forEach(function(track) {
+      const obj = objMap[track.layerName];
+      if (!obj) return;
+      runtime.applyTrack(obj, track, currentVh);
+    });
+    Object.keys(materialGroups).forEach(function(name) {
+      (materialMap.get(name) || []).forEach(function(material) {
+        const base = runtime.getMaterialBase(material);
+        runtime.applyMaterialState(material, runtime.evaluateMaterialState(materialGroups[name], currentVh, base));
+      });
+    });
+    animatedLights.forEach(function(entry) {
+      runtime.applyLightState(entry.light, runtime.evaluateLightState(entry.tracks, currentVh, entry.base));
+    });
+    applyTimedClips();
+    if (active.cameraTracks.length > 0 || cameraRig.lookAtObject) {
+      runtime.applyCameraView(camera, runtime.evaluateCameraView(active.cameraTracks, currentVh, CAMERA_BASE, cameraRig));
+    }
+    // Last, as in the editor: look-at constraints aim at this frame's camera and layers.
+    Object.keys(constraintGroups).forEach(function(name) {
+      const obj = objMap[name];
+      if (!obj) return;
+      const group = constraintGroups[name];
+      runtime.applyConstraints(obj, group.constraints, group.tracks, currentVh, constraintTargets);
+    });
+  }
+
+  // Each scene parses its own copy of the model, so scenes never share poses.
+  loader.load(GLB_DATA_URL, function(gltf) {
+    scene.add(gltf.scene);
+
+    // Centre at world origin — matches Drei's <Center> in the editor so
+    // the saved camera target [0,0,0] points at the model correctly.
+    var box = new THREE.Box3().setFromObject(gltf.scene);
+    if (!box.isEmpty()) {
+      var center = box.getCenter(new THREE.Vector3());
+      gltf.scene.position.sub(center);
+      gltf.scene.updateMatrixWorld(true);
+    }
+
+    gltf.scene.traverse(function(obj) {
+      if (obj.name) objMap[obj.name] = obj;
+    });
+    materialMap = runtime.collectMaterials(gltf.scene);
+    if (SCENE.clips.length > 0) {
+      mixer = new THREE.AnimationMixer(gltf.scene);
+      clips = gltf.animations;
+    }
+    if (SCENE.cameraPath && SCENE.cameraPath.lookAtLayerName) {
+      cameraRig.lookAtObject = objMap[SCENE.cameraPath.lookAtLayerName] || null;
+    }
+    applyTracks();
+    renderer.render(scene, camera);
+    requestAnimationFrame(render);
+  }, undefined, function(err) {
+    console.error('GLB load error', err);
+  });
+
+  // Smoothing keeps stepping off-screen; scenes scrolled out of view only skip drawing.
+  let lastTime = 0;
+  function render(time) {
+    const dt = lastTime ? (time - lastTime) / 1000 : 0;
+    runtime.stepScrollSmoothing(follow, targetVh, dt, CFG.scrollSmoothing);
+    lastTime = time;
+    currentVh = follow.vh;
+    stepTimedClips(dt);
+    const rect = section.getBoundingClientRect();
+    if (rect.bottom > 0 && rect.top < window.innerHeight) {
+      applyTracks();
+      renderer.render(scene, camera);
+    }
+    requestAnimationFrame(render);
+  }
+
+  return function() {
+    onScroll();
+    follow.vh = currentVh = targetVh;
+    updateChapter();
+  };
+}
+
+const syncScenes = Array.from(document.querySelectorAll('.scroll-scene')).map(function(section, index) {
+  return mountScene(CFG.scenes[index], section);
+});
+// The anchors only exist now, after the browser tried the initial fragment
+const initial = location.hash && document.getElementById(decodeURIComponent(location.hash.slice(1)));
+if (initial) initial.scrollIntoView();
+syncScenes.forEach(function(sync) { sync(); });
+</script>
+</body>
+</html>`;
+}
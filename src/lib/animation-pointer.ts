@@ -0,0 +1,93 @@
+import * as THREE from "three";
+import type { GLTFExporterPlugin, GLTFWriter } from "three/examples/jsm/exporters/GLTFExporter.js";
+
+export const ANIMATION_POINTER_EXTENSION = "KHR_animation_pointer";
+const EMISSIVE_STRENGTH_EXTENSION = "KHR_materials_emissive_strength";
+
+// A sampled property outside the node TRS / morph weight channels. `path` is relative
+// to the target's glTF definition, e.g. `pbrMetallicRoughness/baseColorFactor`.
+export type PointerChannel = {
+  target: THREE.Material | THREE.Light | THREE.PerspectiveCamera;
+  path: string;
+  times: number[]; // seconds
+  values: number[];
+  itemSize: number;
+};
+
+type JsonDef = { [key: string]: unknown };
+
+// GLTFWriter state the typings leave out.
+type WriterInternals = {
+  json: { animations?: { name: string; samplers: JsonDef[]; channels: JsonDef[] }[]; nodes?: JsonDef[] };
+  nodeMap: Map<THREE.Object3D, number>;
+  cache: { materials: Map<THREE.Material, number> };
+  processAccessor: (attribute: THREE.BufferAttribute) => number;
+};
+
+// Track properties KHR_animation_pointer can carry: layer opacity and material channels
+// through the material, light color/intensity/range through KHR_lights_punctual (the
+// position is the light node's translation), and every camera channel (fov and zoom
+// through `yfov`, the rest through the camera node). glTF has no light decay.
+export function isPointerProperty(propertyId: string) {
+  if (propertyId === "opacity") return true;
+  if (propertyId.startsWith("light.")) return propertyId !== "light.decay";
+  return propertyId.startsWith("material.") || propertyId.startsWith("camera.");
+}
+
+function resolvePointer(writer: WriterInternals, channel: PointerChannel) {
+  const { target } = channel;
+  if ((target as THREE.Material).isMaterial) {
+    const index = writer.cache.materials.get(target as THREE.Material);
+    return index === undefined ? null : `/materials/${index}/${channel.path}`;
+  }
+  const nodeIndex = writer.nodeMap.get(target as THREE.Object3D);
+  const nodeDef = nodeIndex === undefined ? undefined : writer.json.nodes?.[nodeIndex];
+  if (!nodeDef) return null;
+  if ((target as THREE.Light).isLight) {
+    const lightDef = (nodeDef.extensions as { KHR_lights_punctual?: { light: number } } | undefined)
+      ?.KHR_lights_punctual;
+    return lightDef ? `/extensions/KHR_lights_punctual/lights/${lightDef.light}/${channel.path}` : null;
+  }
+  return typeof nodeDef.camera === "number" ? `/cameras/${nodeDef.camera}/${channel.path}` : null;
+}
+
+// Exporter plugin appending pointer channels to the exported animation named `clipName`.
+// Materials whose alpha is animated are switched to blending, and emissive strength gets
+// the material extension it points into.
+export function createAnimationPointerPlugin(clipName: string, channels: PointerChannel[]) {
+  return (gltfWriter: GLTFWriter): GLTFExporterPlugin => {
+    const writer = gltfWriter as unknown as GLTFWriter & WriterInternals;
+    const materialDefs = new Map<THREE.Material, JsonDef>();
+    return {
+      writeMaterialAsync: async (material, materialDef) => {
+        materialDefs.set(material, materialDef);
+      },
+      afterParse: () => {
+        const animation = writer.json.animations?.find((def) => def.name === clipName);
+        if (!animation) return;
+        channels.forEach((channel) => {
+          const pointer = resolvePointer(writer, channel);
+          if (!pointer) return;
+          const materialDef = materialDefs.get(channel.target as THREE.Material);
+          if (materialDef && channel.path.endsWith("baseColorFactor")) materialDef.alphaMode = "BLEND";
+          if (materialDef && channel.path.includes(EMISSIVE_STRENGTH_EXTENSION)) {
+            const extensions = (materialDef.extensions ?? {}) as JsonDef;
+            extensions[EMISSIVE_STRENGTH_EXTENSION] ??= { emissiveStrength: channel.values[0] ?? 1 };
+            materialDef.extensions = extensions;
+            writer.extensionsUsed[EMISSIVE_STRENGTH_EXTENSION] = true;
+          }
+          animation.samplers.push({
+            input: writer.processAccessor(new THREE.BufferAttribute(new Float32Array(channel.times), 1)),
+            output: writer.processAccessor(new THREE.BufferAttribute(new Float32Array(channel.values), channel.itemSize)),
+            interpolation: "LINEAR",
+          });
+          animation.channels.push({
+            sampler: animation.samplers.length - 1,
+            target: { path: "pointer", extensions: { [ANIMATION_POINTER_EXTENSION]: { pointer } } },
+          });
+          writer.extensionsUsed[ANIMATION_POINTER_EXTENSION] = true;
+        });
+      },
+    };
+  };
+}
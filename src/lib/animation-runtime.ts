@@ -0,0 +1,1381 @@
+import type * as ThreeModule from "three";
+
+type Three = typeof ThreeModule;
+
+export type EasingType =
+  | "linear"
+  | "easeIn"
+  | "easeOut"
+  | "easeInOut"
+  | "easeInOutCubic"
+  | "cubicBezier"
+  | "spring"
+  | "bounce"
+  | "elastic"
+  | "back";
+
+// Tuning for the physics-style easings; each easing reads only its own fields and
+// falls back to the runtime's `easingParamDefaults` for anything omitted.
+export type EasingParams = {
+  stiffness?: number; // spring
+  damping?: number; // spring
+  bounces?: number; // bounce
+  restitution?: number; // bounce: fraction of speed kept per bounce
+  amplitude?: number; // elastic
+  period?: number; // elastic
+  overshoot?: number; // back
+};
+
+// How a keyframe leaves towards the next one: an eased lerp (`easing` applies), a
+// constant value that jumps at the next keyframe, or a Hermite curve driven by tangents.
+export type InterpolationType = "eased" | "hold" | "bezier";
+
+// CSS `cubic-bezier(x1, y1, x2, y2)` control points; x values are clamped to 0..1.
+export type BezierPoints = [number, number, number, number];
+
+export type AnimationKeyframe = {
+  atVh: number;
+  value: number;
+  easing?: EasingType;
+  bezier?: BezierPoints; // used when easing === "cubicBezier"
+  easingParams?: EasingParams; // used by spring / bounce / elastic / back
+  interpolation?: InterpolationType; // outgoing segment; defaults to "eased"
+  // Hermite velocities in value units per vh; omitted = auto (smooth through neighbours).
+  inTangent?: number;
+  outTangent?: number;
+  // Combined `rotation` track only: orientation as Euler degrees (layer rotation order),
+  // slerped between keyframes; `value` is unused there.
+  rotation?: [number, number, number];
+  spins?: number; // extra whole turns on the outgoing segment; the sign sets the direction
+};
+
+export type EasingSpec = Pick<AnimationKeyframe, "easing" | "bezier" | "easingParams">;
+
+// Links a track to a property of another layer: the source value, optionally remapped from
+// [inMin, inMax] to [outMin, outMax] (clamped), times `multiplier` plus `offset` replaces the
+// keyed value. `source` is whatever key the host resolves (layer id in the editor);
+// `sourceName` is the layer name, for exports and remapping after a re-upload.
+export type TrackDriver = {
+  type: "driver";
+  source: string;
+  sourceName?: string;
+  sourcePropertyId: string;
+  multiplier: number;
+  offset: number;
+  remap?: [number, number, number, number] | null;
+};
+
+// Looks up driver sources: the source's track when it is animated (evaluated, so drivers
+// chain), otherwise its object, whose current property value is read.
+export type DriverSources = {
+  getTrack: (source: string, propertyId: string) => KeyframeTrack | null | undefined;
+  getObject: (source: string) => ThreeModule.Object3D | null | undefined;
+};
+
+// Procedural post-processing of a keyed track, evaluated after the keyframes (or the
+// driver). `cycle` and `pingpong` repeat the keyed range past the last keyframe (they
+// remap the vh the keys are read at); `wiggle` (smooth) and `noise` (fractal) add seeded
+// noise of `frequency` waves per 100 vh; `drift` adds `perVh` for every vh past the first
+// keyframe.
+export type TrackModifier =
+  | { type: "wiggle"; amplitude: number; frequency: number; seed: number }
+  | { type: "noise"; amplitude: number; frequency: number; seed: number; octaves: number }
+  | { type: "cycle" }
+  | { type: "pingpong" }
+  | { type: "drift"; perVh: number }
+  | TrackDriver;
+
+export type TrackModifierType = TrackModifier["type"];
+
+export type KeyframeTrack = {
+  propertyId: string;
+  keyframes: AnimationKeyframe[];
+  modifiers?: TrackModifier[];
+};
+
+// Camera pose; camera tracks (`camera.position.x`, `camera.target.y`, `camera.fov`,
+// `camera.zoom`, ...) override individual channels of a base view.
+export type CameraViewSpec = {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+  zoom: number;
+  pathProgress?: number; // set when a camera path drove the position
+};
+
+// Centripetal Catmull-Rom spline the camera travels along, parameterised by arc length
+// through the `camera.path.progress` track (0..1).
+export type CameraPathSpec = {
+  points: [number, number, number][];
+  closed?: boolean;
+};
+
+export type CameraRig = {
+  path?: CameraPathSpec | null;
+  lookAtObject?: ThreeModule.Object3D | null; // overrides the target channels
+};
+
+// Light state; light tracks (`light.intensity`, `light.color.r`, `light.position.x`,
+// `light.distance`, `light.decay`) override channels of the configured light.
+export type LightStateSpec = {
+  intensity: number;
+  color: [number, number, number]; // sRGB components, 0..1
+  position: [number, number, number];
+  distance: number;
+  decay: number;
+};
+
+// Material state; material tracks (`material.color.l`, `material.emissive.a`,
+// `material.metalness`, ...) override channels of the material as loaded. Colors are
+// OKLab (L, a, b) so keyed colors interpolate perceptually.
+export type MaterialStateSpec = {
+  color: [number, number, number];
+  emissive: [number, number, number];
+  emissiveIntensity: number;
+  metalness: number;
+  roughness: number;
+  opacity: number;
+};
+
+// Maps a vh range of the timeline onto an animation clip embedded in the GLB. Outside the
+// range the clip holds its first/last frame.
+export type ClipBindingSpec = {
+  clipName: string;
+  startVh: number;
+  endVh: number;
+  clipIn: number; // seconds
+  clipOut: number; // seconds
+  speed: number; // passes over clipIn..clipOut across the range; fractional passes loop
+  reverse: boolean;
+};
+
+// A keyed animation on the clock instead of the scroll: it starts when the scroll position
+// reaches `triggerVh` and plays its tracks (keyframe `atVh` is seconds here) over
+// `durationS`. `once` plays a single time and holds its last frame; `loop` repeats while
+// the position stays past the trigger and finishes its pass after leaving; `reverseOnLeave`
+// plays back to the start when the position returns above the trigger. Track `target` is
+// a layer (id in the editor, name in the exported page) or, for `material.*` channels, a
+// material name.
+export type TimedClipSpec = {
+  id: string;
+  name: string;
+  triggerVh: number;
+  durationS: number;
+  mode: "once" | "loop" | "reverseOnLeave";
+  tracks: (KeyframeTrack & { target: string })[];
+};
+
+export type TimedClipMode = TimedClipSpec["mode"];
+
+// Playback of one timed clip, advanced by `stepTimedClip`. Until `started`, the clip has
+// not been triggered and leaves its targets alone.
+export type TimedClipState = { time: number; playing: boolean; started: boolean; inside: boolean };
+
+// Named point on the timeline. A marker's chapter runs from it to the next marker; the
+// exported page gets an anchor per marker and chapter enter/leave events.
+export type TimelineMarkerSpec = {
+  id: string;
+  atVh: number;
+  label: string;
+  color: string;
+  snap?: boolean; // a snap point: scrolling that stops nearby settles here
+};
+
+// A viewport range for camera and track overrides: widths up to `maxWidth` px and aspect
+// ratios (width / height) up to `maxAspect`; a null bound is open.
+export type BreakpointSpec = {
+  id: string;
+  name: string;
+  maxWidth: number | null;
+  maxAspect: number | null;
+};
+
+// How the rendered vh follows the scroll position. `damped` closes half the remaining
+// distance every `halfLifeMs`; `spring` carries momentum and overshoots when damping is
+// below critical (2·√stiffness).
+export type ScrollSmoothingSpec =
+  | { type: "none" }
+  | { type: "damped"; halfLifeMs: number }
+  | { type: "spring"; stiffness: number; damping: number };
+
+// Settling onto snap markers once scrolling has been idle for `delayMs`. `strength` (0–1)
+// is the reach: at 1 a snap point pulls from half a viewport (50 vh) away.
+export type ScrollSnapSpec = { strength: number; delayMs: number };
+
+// Rendered position of a smoothed scroll, advanced by `stepScrollSmoothing`.
+export type ScrollFollowState = { vh: number; velocity: number };
+
+// A constraint posing a layer between `startVh` and `endVh`, after its tracks: `lookAt`
+// turns it (+Z) toward another layer's centre or the camera (`target` null), `followPath`
+// moves it along a spline (world space, like the camera path), optionally facing along
+// it, and `parent` carries it along with another layer's motion since the constraint was
+// set up (`rest`: that layer's matrix in the constrained layer's parent space, then).
+// `influence` blends from the unconstrained pose; a `constraint.<id>.influence` track on
+// the layer overrides it, and `constraint.<id>.progress` keys the position along a path
+// (linear over the range otherwise).
+export type LayerConstraintSpec = { id: string; startVh: number; endVh: number; influence: number } & (
+  | { type: "lookAt"; target: string | null }
+  | { type: "followPath"; path: CameraPathSpec; orient: boolean }
+  | { type: "parent"; target: string; rest: number[] }
+);
+
+export type LayerConstraintType = LayerConstraintSpec["type"];
+
+// Resolves constraint targets; keys are whatever the host uses for layers.
+export type ConstraintTargets = {
+  getObject: (target: string) => ThreeModule.Object3D | null | undefined;
+  camera?: ThreeModule.Camera | null;
+};
+
+export type AnimationRuntime = ReturnType<typeof createAnimationRuntime>;
+
+// Headless scroll-animation runtime shared by the editor and the exported HTML page.
+//
+// The exporter inlines this factory via `createAnimationRuntime.toString()`, so the
+// body must stay self-contained: no references to module-level values, only locals
+// and the `THREE` namespace passed in by the caller.
+export function createAnimationRuntime(THREE: Three) {
+  type Pivot = {
+    centerLocal: ThreeModule.Vector3;
+    basePos: ThreeModule.Vector3;
+    baseQuat: ThreeModule.Quaternion;
+  };
+
+  // Per-object rotation pivot: bounding-box centre (in parent-local space) + base
+  // position/quaternion, captured once on the first rotation call so the object
+  // spins around its visual centre without accumulating position drift.
+  let pivots = new WeakMap<ThreeModule.Object3D, Pivot>();
+  const materialBases = new WeakMap<ThreeModule.Material, MaterialStateSpec>();
+
+  const easingParamDefaults: Required<EasingParams> = {
+    stiffness: 100,
+    damping: 10,
+    bounces: 3,
+    restitution: 0.5,
+    amplitude: 1,
+    period: 0.3,
+    overshoot: 1.70158,
+  };
+
+  // Same semantics as CSS `cubic-bezier()`: find the curve parameter whose x equals
+  // `t` (Newton steps, bisection fallback for flat slopes), then return its y.
+  function cubicBezier(t: number, points: BezierPoints): number {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    const x1 = THREE.MathUtils.clamp(points[0], 0, 1);
+    const x2 = THREE.MathUtils.clamp(points[2], 0, 1);
+    const y1 = points[1];
+    const y2 = points[3];
+    const cx = 3 * x1;
+    const bx = 3 * (x2 - x1) - cx;
+    const ax = 1 - cx - bx;
+    const cy = 3 * y1;
+    const by = 3 * (y2 - y1) - cy;
+    const ay = 1 - cy - by;
+    const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+    const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+    const slopeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+      const err = sampleX(s) - t;
+      if (Math.abs(err) < 1e-7) return sampleY(s);
+      const slope = slopeX(s);
+      if (Math.abs(slope) < 1e-6) break;
+      s -= err / slope;
+    }
+    let lo = 0;
+    let hi = 1;
+    s = t;
+    for (let i = 0; i < 40 && hi - lo > 1e-7; i++) {
+      if (sampleX(s) < t) lo = s;
+      else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return sampleY(s);
+  }
+
+  // Damped harmonic oscillator (unit mass) released from 0 towards 1. The segment is
+  // stretched over the time the motion takes to settle to 0.1% and normalised so it
+  // still lands exactly on 1.
+  function spring(t: number, stiffness: number, damping: number): number {
+    const w0 = Math.sqrt(Math.max(1e-3, stiffness));
+    const zeta = Math.max(1e-3, damping) / (2 * w0);
+    let position: (time: number) => number;
+    let decay: number;
+    if (zeta < 1) {
+      const wd = w0 * Math.sqrt(1 - zeta * zeta);
+      decay = zeta * w0;
+      position = (time) =>
+        1 - Math.exp(-decay * time) * (Math.cos(wd * time) + (decay / wd) * Math.sin(wd * time));
+    } else if (zeta === 1) {
+      decay = w0;
+      position = (time) => 1 - Math.exp(-w0 * time) * (1 + w0 * time);
+    } else {
+      const root = Math.sqrt(zeta * zeta - 1);
+      const r1 = -w0 * (zeta - root);
+      const r2 = -w0 * (zeta + root);
+      decay = -r1;
+      position = (time) => 1 - (r2 * Math.exp(r1 * time) - r1 * Math.exp(r2 * time)) / (r2 - r1);
+    }
+    const duration = Math.log(1000) / decay;
+    return position(t * duration) / position(duration);
+  }
+
+  // A ball dropped onto the target: the first fall reaches 1, then each bounce keeps
+  // `restitution` of the speed (height scales by restitution²).
+  function bounce(t: number, bounces: number, restitution: number): number {
+    const count = Math.max(0, Math.round(bounces));
+    const e = THREE.MathUtils.clamp(restitution, 0.05, 0.95);
+    let total = 1;
+    for (let k = 1; k <= count; k++) total += 2 * Math.pow(e, k);
+    let time = t * total;
+    if (time < 1) return time * time;
+    time -= 1;
+    for (let k = 1; k <= count; k++) {
+      const half = Math.pow(e, k);
+      if (time < 2 * half) {
+        const x = (time - half) / half;
+        return 1 - half * half * (1 - x * x);
+      }
+      time -= 2 * half;
+    }
+    return 1;
+  }
+
+  function elastic(t: number, amplitude: number, period: number): number {
+    const a = Math.max(1, amplitude);
+    const p = Math.max(0.05, period);
+    const s = (p / (2 * Math.PI)) * Math.asin(1 / a);
+    return a * Math.pow(2, -10 * t) * Math.sin(((t - s) * 2 * Math.PI) / p) + 1;
+  }
+
+  function applyEasing(t: number, spec: EasingSpec = {}): number {
+    const params = spec.easingParams ?? {};
+    const param = (key: keyof EasingParams) => params[key] ?? easingParamDefaults[key];
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    switch (spec.easing || "linear") {
+      case "easeIn":    return t * t;
+      case "easeOut":   return t * (2 - t);
+      case "easeInOut": return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+      case "easeInOutCubic":
+        return t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1;
+      case "cubicBezier":
+        return spec.bezier ? cubicBezier(t, spec.bezier) : t;
+      case "spring":    return spring(t, param("stiffness"), param("damping"));
+      case "bounce":    return bounce(t, param("bounces"), param("restitution"));
+      case "elastic":   return elastic(t, param("amplitude"), param("period"));
+      case "back": {
+        const s = param("overshoot");
+        const u = t - 1;
+        return 1 + (s + 1) * u * u * u + s * u * u;
+      }
+      default:          return t; // linear
+    }
+  }
+
+  // Resolved in/out velocities of keyframe `index`. Auto tangents follow the slope
+  // between the neighbouring keyframes (Catmull-Rom) and are flat at the track ends.
+  function getKeyframeTangents(kfs: AnimationKeyframe[], index: number) {
+    const prev = kfs[index - 1];
+    const next = kfs[index + 1];
+    const auto = prev && next ? (next.value - prev.value) / Math.max(1e-9, next.atVh - prev.atVh) : 0;
+    const kf = kfs[index];
+    return { in: kf.inTangent ?? auto, out: kf.outTangent ?? auto };
+  }
+
+  function evaluateSegment(kfs: AnimationKeyframe[], i: number, atVh: number): number {
+    const a = kfs[i];
+    const b = kfs[i + 1];
+    const span = Math.max(1e-9, b.atVh - a.atVh);
+    const raw = (atVh - a.atVh) / span;
+    switch (a.interpolation || "eased") {
+      case "hold":
+        return raw >= 1 ? b.value : a.value;
+      case "bezier": {
+        const m0 = getKeyframeTangents(kfs, i).out * span;
+        const m1 = getKeyframeTangents(kfs, i + 1).in * span;
+        const t2 = raw * raw;
+        const t3 = t2 * raw;
+        return (
+          (2 * t3 - 3 * t2 + 1) * a.value +
+          (t3 - 2 * t2 + raw) * m0 +
+          (-2 * t3 + 3 * t2) * b.value +
+          (t3 - t2) * m1
+        );
+      }
+      default:
+        return a.value + applyEasing(raw, a) * (b.value - a.value);
+    }
+  }
+
+  function evaluateKeyframes(kfs: AnimationKeyframe[], atVh: number): number {
+    if (kfs.length === 1 || atVh <= kfs[0].atVh) return kfs[0].value;
+    if (atVh >= kfs[kfs.length - 1].atVh) return kfs[kfs.length - 1].value;
+    for (let i = 0; i < kfs.length - 1; i++) {
+      if (kfs[i].atVh <= atVh && kfs[i + 1].atVh >= atVh) {
+        return evaluateSegment(kfs, i, atVh);
+      }
+    }
+    return kfs[kfs.length - 1].value;
+  }
+
+  // Integer hash of a lattice point to -1..1; the same seed always gives the same noise.
+  function hashNoise(seed: number, n: number) {
+    let h = Math.imul(n ^ Math.imul(seed | 0, 0x9e3779b1), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return ((h >>> 0) / 4294967295) * 2 - 1;
+  }
+
+  // Value noise smoothstepped between lattice points; `octaves` > 1 layers finer copies.
+  function smoothNoise(seed: number, x: number, octaves = 1) {
+    let sum = 0;
+    let weight = 0;
+    for (let octave = 0; octave < octaves; octave++) {
+      const scale = 2 ** octave;
+      const i = Math.floor(x * scale);
+      const f = x * scale - i;
+      const u = f * f * (3 - 2 * f);
+      const a = hashNoise(seed + octave * 1013, i);
+      const b = hashNoise(seed + octave * 1013, i + 1);
+      sum += (a + (b - a) * u) / scale;
+      weight += 1 / scale;
+    }
+    return sum / weight;
+  }
+
+  // The vh keyframes are read at once `cycle` / `pingpong` fold time past the last key
+  // back into the keyed range. The first loop modifier wins.
+  function getModifiedVh(track: KeyframeTrack, atVh: number) {
+    const kfs = track.keyframes;
+    const loop = track.modifiers?.find(
+      (modifier): modifier is Extract<TrackModifier, { type: "cycle" | "pingpong" }> =>
+        modifier.type === "cycle" || modifier.type === "pingpong"
+    );
+    if (!loop || kfs.length < 2) return atVh;
+    const first = kfs[0].atVh;
+    const last = kfs[kfs.length - 1].atVh;
+    const span = last - first;
+    if (atVh <= last || span <= 1e-9) return atVh;
+    const elapsed = atVh - first;
+    if (loop.type === "cycle") return first + (elapsed % span);
+    const phase = elapsed % (2 * span);
+    return first + (phase <= span ? phase : 2 * span - phase);
+  }
+
+  function applyValueModifiers(track: KeyframeTrack, atVh: number, value: number) {
+    const firstVh = track.keyframes[0]?.atVh ?? 0;
+    return (track.modifiers ?? []).reduce((result, modifier) => {
+      switch (modifier.type) {
+        case "wiggle":
+          return result + modifier.amplitude * smoothNoise(modifier.seed, (atVh * modifier.frequency) / 100);
+        case "noise":
+          return (
+            result +
+            modifier.amplitude *
+              smoothNoise(modifier.seed, (atVh * modifier.frequency) / 100, Math.max(1, Math.round(modifier.octaves)))
+          );
+        case "drift":
+          return result + modifier.perVh * (atVh - firstVh);
+        default:
+          return result;
+      }
+    }, value);
+  }
+
+  let driverSources: DriverSources | null = null;
+  // Guards against driver loops the editor did not catch (e.g. a hand-edited config)
+  let driverDepth = 0;
+
+  function setDriverSources(sources: DriverSources | null) {
+    driverSources = sources;
+  }
+
+  function evaluateDriver(driver: TrackDriver, atVh: number): number | null {
+    if (!driverSources || driverDepth > 16) return null;
+    const track = driverSources.getTrack(driver.source, driver.sourcePropertyId);
+    let value: number | null = null;
+    driverDepth++;
+    if (track && track.keyframes.length > 0) value = evaluateTrack(track, atVh);
+    driverDepth--;
+    if (value === null) {
+      const object = driverSources.getObject(driver.source);
+      value = object ? readTrackValue(object, driver.sourcePropertyId) : null;
+    }
+    if (value === null) return null;
+    if (driver.remap) {
+      const [inMin, inMax, outMin, outMax] = driver.remap;
+      const t = inMax === inMin ? 0 : THREE.MathUtils.clamp((value - inMin) / (inMax - inMin), 0, 1);
+      value = outMin + t * (outMax - outMin);
+    }
+    return value * driver.multiplier + driver.offset;
+  }
+
+  function evaluateTrack(track: KeyframeTrack, atVh: number): number {
+    if (track.keyframes.length === 0) return 0;
+    if (!track.modifiers || track.modifiers.length === 0) return evaluateKeyframes(track.keyframes, atVh);
+    const driver = track.modifiers.find((modifier): modifier is TrackDriver => modifier.type === "driver");
+    const driven = driver ? evaluateDriver(driver, atVh) : null;
+    return applyValueModifiers(
+      track,
+      atVh,
+      driven ?? evaluateKeyframes(track.keyframes, getModifiedVh(track, atVh))
+    );
+  }
+
+  // Rebuilt only when the path object changes, so per-frame evaluation stays cheap.
+  const pathCurves = new WeakMap<CameraPathSpec, ThreeModule.CatmullRomCurve3>();
+
+  function getCameraPathCurve(path: CameraPathSpec) {
+    const cached = pathCurves.get(path);
+    if (cached) return cached;
+    const curve = new THREE.CatmullRomCurve3(
+      path.points.map(([x, y, z]) => new THREE.Vector3(x, y, z)),
+      Boolean(path.closed),
+      "centripetal"
+    );
+    pathCurves.set(path, curve);
+    return curve;
+  }
+
+  function evaluateCameraView(
+    tracks: KeyframeTrack[],
+    atVh: number,
+    base: CameraViewSpec,
+    rig: CameraRig = {}
+  ): CameraViewSpec {
+    const view: CameraViewSpec = {
+      position: [...base.position],
+      target: [...base.target],
+      fov: base.fov,
+      zoom: base.zoom,
+    };
+    tracks.forEach((track) => {
+      if (track.keyframes.length === 0) return;
+      const [scope, channel, axis] = track.propertyId.split(".");
+      if (scope !== "camera") return;
+      const value = evaluateTrack(track, atVh);
+      if ((channel === "position" || channel === "target") && axis) {
+        const index = ["x", "y", "z"].indexOf(axis);
+        if (index >= 0) view[channel][index] = value;
+      } else if (channel === "fov") {
+        view.fov = THREE.MathUtils.clamp(value, 1, 179);
+      } else if (channel === "zoom") {
+        view.zoom = Math.max(0.01, value);
+      } else if (channel === "path" && axis === "progress") {
+        view.pathProgress = THREE.MathUtils.clamp(value, 0, 1);
+      }
+    });
+    if (rig.path && rig.path.points.length >= 2 && view.pathProgress !== undefined) {
+      const point = getCameraPathCurve(rig.path).getPointAt(view.pathProgress);
+      view.position = [point.x, point.y, point.z];
+    }
+    if (rig.lookAtObject) {
+      const box = new THREE.Box3().setFromObject(rig.lookAtObject);
+      const center = new THREE.Vector3();
+      if (box.isEmpty()) rig.lookAtObject.getWorldPosition(center);
+      else box.getCenter(center);
+      view.target = [center.x, center.y, center.z];
+    }
+    return view;
+  }
+
+  function applyCameraView(camera: ThreeModule.PerspectiveCamera, view: CameraViewSpec) {
+    camera.position.set(view.position[0], view.position[1], view.position[2]);
+    camera.fov = view.fov;
+    camera.zoom = view.zoom;
+    camera.updateProjectionMatrix();
+    camera.lookAt(view.target[0], view.target[1], view.target[2]);
+  }
+
+  function evaluateLightState(tracks: KeyframeTrack[], atVh: number, base: LightStateSpec): LightStateSpec {
+    const state: LightStateSpec = {
+      intensity: base.intensity,
+      color: [...base.color],
+      position: [...base.position],
+      distance: base.distance,
+      decay: base.decay,
+    };
+    tracks.forEach((track) => {
+      if (track.keyframes.length === 0) return;
+      const [scope, channel, axis] = track.propertyId.split(".");
+      if (scope !== "light") return;
+      const value = evaluateTrack(track, atVh);
+      if (channel === "color" && axis) {
+        const index = ["r", "g", "b"].indexOf(axis);
+        if (index >= 0) state.color[index] = THREE.MathUtils.clamp(value, 0, 1);
+      } else if (channel === "position" && axis) {
+        const index = ["x", "y", "z"].indexOf(axis);
+        if (index >= 0) state.position[index] = value;
+      } else if (channel === "intensity") {
+        state.intensity = Math.max(0, value);
+      } else if (channel === "distance") {
+        state.distance = Math.max(0, value);
+      } else if (channel === "decay") {
+        state.decay = Math.max(0, value);
+      }
+    });
+    return state;
+  }
+
+  function applyLightState(
+    light: ThreeModule.PointLight | ThreeModule.DirectionalLight,
+    state: LightStateSpec
+  ) {
+    light.intensity = state.intensity;
+    light.color.setRGB(state.color[0], state.color[1], state.color[2], THREE.SRGBColorSpace);
+    light.position.set(state.position[0], state.position[1], state.position[2]);
+    if ("isPointLight" in light && light.isPointLight) {
+      light.distance = state.distance;
+      light.decay = state.decay;
+    }
+  }
+
+  // Linear sRGB <-> OKLab (Björn Ottosson's reference matrices).
+  function linearToOklab(rgb: [number, number, number]): [number, number, number] {
+    const [r, g, b] = rgb;
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    return [
+      0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+      1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+      0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    ];
+  }
+
+  function oklabToLinear(lab: [number, number, number]): [number, number, number] {
+    const [L, a, b] = lab;
+    const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+    return [
+      THREE.MathUtils.clamp(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s, 0, 1),
+      THREE.MathUtils.clamp(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s, 0, 1),
+      THREE.MathUtils.clamp(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s, 0, 1),
+    ];
+  }
+
+  // Named materials under `root`; every material sharing a name is driven by the same tracks.
+  function collectMaterials(root: ThreeModule.Object3D) {
+    const byName = new Map<string, ThreeModule.Material[]>();
+    root.traverse((child) => {
+      const mesh = child as ThreeModule.Mesh;
+      if (!mesh.material) return;
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach((material) => {
+        if (!material.name) return;
+        const list = byName.get(material.name) ?? [];
+        if (!list.includes(material)) list.push(material);
+        byName.set(material.name, list);
+      });
+    });
+    return byName;
+  }
+
+  function readMaterialState(material: ThreeModule.Material): MaterialStateSpec {
+    const standard = material as Partial<ThreeModule.MeshStandardMaterial>;
+    return {
+      color: standard.color ? linearToOklab([standard.color.r, standard.color.g, standard.color.b]) : [1, 0, 0],
+      emissive: standard.emissive
+        ? linearToOklab([standard.emissive.r, standard.emissive.g, standard.emissive.b])
+        : [0, 0, 0],
+      emissiveIntensity: standard.emissiveIntensity ?? 1,
+      metalness: standard.metalness ?? 0,
+      roughness: standard.roughness ?? 1,
+      opacity: material.opacity,
+    };
+  }
+
+  // Material as loaded, captured before the first track is applied.
+  function getMaterialBase(material: ThreeModule.Material) {
+    const existing = materialBases.get(material);
+    if (existing) return existing;
+    const base = readMaterialState(material);
+    materialBases.set(material, base);
+    return base;
+  }
+
+  function evaluateMaterialState(tracks: KeyframeTrack[], atVh: number, base: MaterialStateSpec): MaterialStateSpec {
+    const state: MaterialStateSpec = { ...base, color: [...base.color], emissive: [...base.emissive] };
+    tracks.forEach((track) => {
+      if (track.keyframes.length === 0) return;
+      const [scope, channel, axis] = track.propertyId.split(".");
+      if (scope !== "material") return;
+      const value = evaluateTrack(track, atVh);
+      if ((channel === "color" || channel === "emissive") && axis) {
+        const index = ["l", "a", "b"].indexOf(axis);
+        if (index >= 0) state[channel][index] = value;
+      } else if (channel === "emissiveIntensity") {
+        state.emissiveIntensity = Math.max(0, value);
+      } else if (channel === "metalness" || channel === "roughness" || channel === "opacity") {
+        state[channel] = THREE.MathUtils.clamp(value, 0, 1);
+      }
+    });
+    return state;
+  }
+
+  function applyMaterialState(material: ThreeModule.Material, state: MaterialStateSpec) {
+    const standard = material as Partial<ThreeModule.MeshStandardMaterial>;
+    if (standard.color) standard.color.setRGB(...oklabToLinear(state.color));
+    if (standard.emissive) standard.emissive.setRGB(...oklabToLinear(state.emissive));
+    if (standard.emissiveIntensity !== undefined) standard.emissiveIntensity = state.emissiveIntensity;
+    if (standard.metalness !== undefined) standard.metalness = state.metalness;
+    if (standard.roughness !== undefined) standard.roughness = state.roughness;
+    material.opacity = state.opacity;
+    const transparent = state.opacity < 1;
+    if (material.transparent !== transparent) {
+      material.transparent = transparent;
+      material.needsUpdate = true;
+    }
+  }
+
+  function getOrCapturePivot(object: ThreeModule.Object3D): Pivot | null {
+    const existing = pivots.get(object);
+    if (existing) return existing;
+    // Bones turn about their joint, never about the bounds of what hangs off them
+    if ((object as ThreeModule.Bone).isBone) return null;
+    const bbox = new THREE.Box3().setFromObject(object);
+    if (bbox.isEmpty()) return null;
+    const centerWorld = new THREE.Vector3();
+    bbox.getCenter(centerWorld);
+    const centerLocal = object.parent
+      ? object.parent.worldToLocal(centerWorld.clone())
+      : centerWorld.clone();
+    const pivot: Pivot = {
+      centerLocal,
+      basePos: object.position.clone(),
+      baseQuat: object.quaternion.clone(),
+    };
+    pivots.set(object, pivot);
+    return pivot;
+  }
+
+  function resetPivots() {
+    pivots = new WeakMap();
+  }
+
+  function setObjectOpacity(object: ThreeModule.Object3D, value: number) {
+    const opacity = THREE.MathUtils.clamp(value, 0, 1);
+    object.traverse((child) => {
+      const mesh = child as ThreeModule.Mesh;
+      if (!mesh.material) return;
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach((material) => {
+        material.opacity = opacity;
+        material.transparent = opacity < 1;
+        material.needsUpdate = true;
+      });
+    });
+  }
+
+  // Meshes whose morph targets a layer drives: the layer's own mesh, or the primitives of
+  // a multi-primitive glTF mesh (a Group whose Mesh children share the same targets).
+  function getMorphTargetMeshes(object: ThreeModule.Object3D): ThreeModule.Mesh[] {
+    const hasTargets = (child: ThreeModule.Object3D) =>
+      Boolean((child as ThreeModule.Mesh).isMesh && (child as ThreeModule.Mesh).morphTargetDictionary);
+    if (hasTargets(object)) return [object as ThreeModule.Mesh];
+    return object.children.filter(hasTargets) as ThreeModule.Mesh[];
+  }
+
+  // Target names in dictionary order, merged across the layer's primitives.
+  function getMorphTargetNames(object: ThreeModule.Object3D): string[] {
+    const names: string[] = [];
+    getMorphTargetMeshes(object).forEach((mesh) => {
+      Object.entries(mesh.morphTargetDictionary ?? {})
+        .sort((a, b) => a[1] - b[1])
+        .forEach(([name]) => {
+          if (!names.includes(name)) names.push(name);
+        });
+    });
+    return names;
+  }
+
+  function getObjectMorphWeight(object: ThreeModule.Object3D, name: string) {
+    for (const mesh of getMorphTargetMeshes(object)) {
+      const index = mesh.morphTargetDictionary?.[name];
+      if (index !== undefined) return mesh.morphTargetInfluences?.[index] ?? 0;
+    }
+    return 0;
+  }
+
+  function setObjectMorphWeight(object: ThreeModule.Object3D, name: string, value: number): boolean {
+    let found = false;
+    getMorphTargetMeshes(object).forEach((mesh) => {
+      const index = mesh.morphTargetDictionary?.[name];
+      if (index === undefined || !mesh.morphTargetInfluences) return;
+      mesh.morphTargetInfluences[index] = value;
+      found = true;
+    });
+    return found;
+  }
+
+  // Runs `mutate`, then shifts the object so its world bounding-box centre ends up
+  // where it was before — used for scale/rotation edits made from the layer panel.
+  function preserveBoundingBoxCenter(object: ThreeModule.Object3D, mutate: () => void) {
+    if ((object as ThreeModule.Bone).isBone) {
+      mutate();
+      object.updateMatrixWorld(true);
+      return;
+    }
+    const beforeBox = new THREE.Box3().setFromObject(object);
+    const beforeCenter = new THREE.Vector3();
+    const hasBeforeCenter = !beforeBox.isEmpty();
+    if (hasBeforeCenter) beforeBox.getCenter(beforeCenter);
+
+    mutate();
+    object.updateMatrixWorld(true);
+
+    if (!hasBeforeCenter) return;
+    const afterBox = new THREE.Box3().setFromObject(object);
+    if (afterBox.isEmpty()) return;
+    const afterCenter = new THREE.Vector3();
+    afterBox.getCenter(afterCenter);
+    const worldDelta = beforeCenter.sub(afterCenter);
+    if (worldDelta.lengthSq() < 1e-12) return;
+
+    const originWorld = new THREE.Vector3();
+    object.getWorldPosition(originWorld);
+    const targetOriginWorld = originWorld.add(worldDelta);
+    if (object.parent) {
+      object.position.copy(object.parent.worldToLocal(targetOriginWorld.clone()));
+    } else {
+      object.position.copy(targetOriginWorld);
+    }
+    object.updateMatrixWorld(true);
+  }
+
+  function setObjectUniformScaleFromCenter(object: ThreeModule.Object3D, rawValue: number) {
+    const uniformScale = THREE.MathUtils.clamp(rawValue, 0.001, 100);
+    preserveBoundingBoxCenter(object, () => {
+      object.scale.set(uniformScale, uniformScale, uniformScale);
+    });
+  }
+
+  function setObjectAxisScaleFromCenter(object: ThreeModule.Object3D, axis: "x" | "y" | "z", rawValue: number) {
+    const axisScale = THREE.MathUtils.clamp(rawValue, 0.001, 100);
+    preserveBoundingBoxCenter(object, () => {
+      object.scale[axis] = axisScale;
+    });
+  }
+
+  function setObjectRotationFromCenter(
+    object: ThreeModule.Object3D,
+    degrees: { x: number; y: number; z: number }
+  ) {
+    preserveBoundingBoxCenter(object, () => {
+      object.rotation.set(
+        THREE.MathUtils.degToRad(degrees.x),
+        THREE.MathUtils.degToRad(degrees.y),
+        THREE.MathUtils.degToRad(degrees.z),
+        object.rotation.order
+      );
+    });
+  }
+
+  // Repositions the object around its captured pivot for orientation `quat`: rotate the
+  // (origin → centre) offset by the delta from the base orientation and subtract it from
+  // the fixed centre. Deterministic for any scrub order.
+  function placeAroundPivot(object: ThreeModule.Object3D, quat: ThreeModule.Quaternion) {
+    const pivot = getOrCapturePivot(object);
+    if (!pivot) return;
+    const deltaQuat = quat.clone().multiply(pivot.baseQuat.clone().invert());
+    const offset = new THREE.Vector3().subVectors(pivot.centerLocal, pivot.basePos);
+    object.position.subVectors(pivot.centerLocal, offset.applyQuaternion(deltaQuat));
+  }
+
+  // Sets one Euler axis (in degrees), keeping the pivot fixed.
+  function setObjectAxisRotationAroundPivot(
+    object: ThreeModule.Object3D,
+    axis: "x" | "y" | "z",
+    degrees: number
+  ) {
+    const rad = THREE.MathUtils.degToRad(degrees);
+    const newRotX = axis === "x" ? rad : object.rotation.x;
+    const newRotY = axis === "y" ? rad : object.rotation.y;
+    const newRotZ = axis === "z" ? rad : object.rotation.z;
+    placeAroundPivot(
+      object,
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(newRotX, newRotY, newRotZ, object.rotation.order))
+    );
+    object.rotation.set(newRotX, newRotY, newRotZ, object.rotation.order);
+    object.updateMatrixWorld();
+  }
+
+  function setObjectQuaternionAroundPivot(object: ThreeModule.Object3D, quat: ThreeModule.Quaternion) {
+    placeAroundPivot(object, quat);
+    object.quaternion.copy(quat);
+    object.updateMatrixWorld();
+  }
+
+  function keyframeQuaternion(kf: AnimationKeyframe, order: ThreeModule.EulerOrder) {
+    const [x, y, z] = kf.rotation ?? [0, 0, 0];
+    return new THREE.Quaternion().setFromEuler(
+      new THREE.Euler(THREE.MathUtils.degToRad(x), THREE.MathUtils.degToRad(y), THREE.MathUtils.degToRad(z), order)
+    );
+  }
+
+  // Orientation of a combined `rotation` track. Segments slerp along the shortest arc
+  // (eased like any segment; `bezier` falls back to the easing) and add `spins` whole
+  // turns around the same axis — the local Y axis when both keys are equal.
+  function evaluateOrientation(track: KeyframeTrack, vh: number, order: ThreeModule.EulerOrder = "XYZ") {
+    // Orientations have no scalar to offset; only the loop modifiers apply
+    const atVh = getModifiedVh(track, vh);
+    const kfs = track.keyframes;
+    if (kfs.length === 0) return new THREE.Quaternion();
+    if (kfs.length === 1 || atVh <= kfs[0].atVh) return keyframeQuaternion(kfs[0], order);
+    const last = kfs[kfs.length - 1];
+    if (atVh >= last.atVh) return keyframeQuaternion(last, order);
+    let i = 0;
+    while (i < kfs.length - 2 && kfs[i + 1].atVh < atVh) i++;
+    const a = kfs[i];
+    const b = kfs[i + 1];
+    const raw = (atVh - a.atVh) / Math.max(1e-9, b.atVh - a.atVh);
+    const t = a.interpolation === "hold" ? (raw >= 1 ? 1 : 0) : applyEasing(raw, a);
+    const qa = keyframeQuaternion(a, order);
+    const qb = keyframeQuaternion(b, order);
+    const spins = Math.round(a.spins ?? 0);
+    if (spins === 0) return qa.slerp(qb, t);
+    const delta = qa.clone().invert().multiply(qb);
+    if (delta.w < 0) delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+    const angle = 2 * Math.acos(THREE.MathUtils.clamp(delta.w, -1, 1));
+    const axis =
+      Math.sin(angle / 2) > 1e-6
+        ? new THREE.Vector3(delta.x, delta.y, delta.z).normalize()
+        : new THREE.Vector3(0, 1, 0);
+    const total = angle + spins * Math.PI * 2;
+    return qa.multiply(new THREE.Quaternion().setFromAxisAngle(axis, total * t));
+  }
+
+  // Uniform scale writes all three axes, so it goes before per-axis scale tracks of the
+  // same layer, and the combined rotation track goes after the Euler axis tracks it
+  // overrides; otherwise the order of `tracks` is kept.
+  function orderTracksForApply<T extends KeyframeTrack>(tracks: T[]): T[] {
+    const rank = (track: KeyframeTrack) =>
+      track.propertyId === "scale.uniform" ? 0 : track.propertyId === "rotation" ? 2 : 1;
+    return [...tracks].sort((a, b) => rank(a) - rank(b));
+  }
+
+  // Applies an evaluated track value to a scene object. Returns false for unknown
+  // property ids so callers can decide whether to refresh dependent state.
+  function applyTrackValue(object: ThreeModule.Object3D, propertyId: string, value: number): boolean {
+    switch (propertyId) {
+      case "position.x":
+      case "position.y":
+      case "position.z": {
+        const axis = propertyId.split(".")[1] as "x" | "y" | "z";
+        object.position[axis] = value;
+        object.updateMatrixWorld();
+        return true;
+      }
+      case "rotation.x":
+      case "rotation.y":
+      case "rotation.z":
+        setObjectAxisRotationAroundPivot(object, propertyId.split(".")[1] as "x" | "y" | "z", value);
+        return true;
+      case "scale.uniform":
+        setObjectUniformScaleFromCenter(object, value);
+        return true;
+      case "scale.x":
+      case "scale.y":
+      case "scale.z":
+        setObjectAxisScaleFromCenter(object, propertyId.split(".")[1] as "x" | "y" | "z", value);
+        return true;
+      case "opacity":
+        setObjectOpacity(object, value);
+        return true;
+      default:
+        // `morph.<target name>`: blend shape weight, 0..1 (overshoot is left to the easing)
+        if (propertyId.startsWith("morph.")) return setObjectMorphWeight(object, propertyId.slice(6), value);
+        return false;
+    }
+  }
+
+  // Current value of a layer property in track units (degrees for rotation axes); null
+  // for property ids `applyTrackValue` does not know.
+  function readTrackValue(object: ThreeModule.Object3D, propertyId: string): number | null {
+    switch (propertyId) {
+      case "position.x":
+      case "position.y":
+      case "position.z":
+        return object.position[propertyId.split(".")[1] as "x" | "y" | "z"];
+      case "rotation.x":
+      case "rotation.y":
+      case "rotation.z":
+        return THREE.MathUtils.radToDeg(object.rotation[propertyId.split(".")[1] as "x" | "y" | "z"]);
+      case "scale.uniform":
+      case "scale.x":
+        return object.scale.x;
+      case "scale.y":
+        return object.scale.y;
+      case "scale.z":
+        return object.scale.z;
+      case "opacity": {
+        let opacity: number | null = null;
+        object.traverse((child) => {
+          const { material } = child as ThreeModule.Mesh;
+          if (opacity !== null || !material) return;
+          opacity = (Array.isArray(material) ? material[0] : material)?.opacity ?? null;
+        });
+        return opacity ?? 1;
+      }
+      default:
+        return propertyId.startsWith("morph.") ? getObjectMorphWeight(object, propertyId.slice(6)) : null;
+    }
+  }
+
+  function sortMarkers(markers: TimelineMarkerSpec[]) {
+    return [...markers].sort((a, b) => a.atVh - b.atVh);
+  }
+
+  // Marker whose chapter contains `atVh`, or null before the first marker.
+  function getMarkerAt(markers: TimelineMarkerSpec[], atVh: number): TimelineMarkerSpec | null {
+    let current: TimelineMarkerSpec | null = null;
+    sortMarkers(markers).forEach((marker) => {
+      if (marker.atVh <= atVh + 1e-6) current = marker;
+    });
+    return current;
+  }
+
+  // URL fragment per marker, in timeline order: the label slugified, numbered on repeats.
+  function getMarkerAnchors(markers: TimelineMarkerSpec[]) {
+    const used = new Set<string>();
+    return sortMarkers(markers).map((marker) => {
+      const base =
+        marker.label
+          .toLowerCase()
+          .trim()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-+|-+$/g, "") || "chapter";
+      let slug = base;
+      for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+      used.add(slug);
+      return { marker, slug };
+    });
+  }
+
+  // The most specific breakpoint the viewport falls in (smallest max width, then smallest
+  // max aspect), or null when none applies.
+  function matchBreakpoint<T extends BreakpointSpec>(breakpoints: T[], width: number, height: number): T | null {
+    const aspect = width / Math.max(1, height);
+    const bound = (value: number | null) => (value === null ? Infinity : value);
+    let match: T | null = null;
+    breakpoints.forEach((breakpoint) => {
+      if (width > bound(breakpoint.maxWidth) || aspect > bound(breakpoint.maxAspect)) return;
+      const current = match;
+      if (
+        !current ||
+        bound(breakpoint.maxWidth) < bound(current.maxWidth) ||
+        (bound(breakpoint.maxWidth) === bound(current.maxWidth) && bound(breakpoint.maxAspect) < bound(current.maxAspect))
+      ) {
+        match = breakpoint;
+      }
+    });
+    return match;
+  }
+
+  // Nearest snap marker within reach of `atVh` (which may lie outside the timeline when the
+  // page is scrolled past it), or null when none pulls.
+  function getSnapTarget(markers: TimelineMarkerSpec[], atVh: number, snap: ScrollSnapSpec): number | null {
+    const reach = Math.min(Math.max(snap.strength, 0), 1) * 50;
+    let target: number | null = null;
+    markers.forEach((marker) => {
+      const distance = Math.abs(marker.atVh - atVh);
+      if (marker.snap && distance <= reach && (target === null || distance < Math.abs(target - atVh))) {
+        target = marker.atVh;
+      }
+    });
+    return target;
+  }
+
+  // Moves `state` toward `targetVh` over `dt` seconds. Returns true once it rests on the
+  // target, so callers can stop their frame loop until the next scroll.
+  function stepScrollSmoothing(
+    state: ScrollFollowState,
+    targetVh: number,
+    dt: number,
+    smoothing: ScrollSmoothingSpec
+  ): boolean {
+    // Long gaps (a background tab) would make the spring integrate for seconds at once
+    const step = Math.min(Math.max(dt, 0), 0.25);
+    if (smoothing.type === "damped") {
+      state.vh += (targetVh - state.vh) * (1 - Math.pow(2, (-step * 1000) / Math.max(1, smoothing.halfLifeMs)));
+      state.velocity = 0;
+    } else if (smoothing.type === "spring") {
+      // Fixed substeps keep stiff springs stable at low frame rates
+      const substeps = Math.ceil(step * 240);
+      const h = substeps > 0 ? step / substeps : 0;
+      for (let i = 0; i < substeps; i++) {
+        state.velocity += (smoothing.stiffness * (targetVh - state.vh) - smoothing.damping * state.velocity) * h;
+        state.vh += state.velocity * h;
+      }
+    }
+    if (smoothing.type === "none" || (Math.abs(targetVh - state.vh) < 0.01 && Math.abs(state.velocity) < 0.01)) {
+      state.vh = targetVh;
+      state.velocity = 0;
+      return true;
+    }
+    return false;
+  }
+
+  function createTimedClipState(): TimedClipState {
+    return { time: 0, playing: false, started: false, inside: false };
+  }
+
+  // Advances a timed clip by `dt` seconds of wall-clock time with the scroll position at
+  // `atVh`. Returns whether its targets should be posed at `state.time`.
+  function stepTimedClip(clip: TimedClipSpec, state: TimedClipState, atVh: number, dt: number): boolean {
+    const duration = Math.max(1e-3, clip.durationS);
+    const inside = atVh >= clip.triggerVh;
+    if (inside !== state.inside) {
+      state.inside = inside;
+      if (inside && !(clip.mode === "once" && state.started)) {
+        if (clip.mode === "once") state.time = 0;
+        state.started = true;
+        state.playing = true;
+      } else if (!inside && clip.mode === "reverseOnLeave" && state.started) {
+        state.playing = true;
+      }
+    }
+    if (!state.playing) return state.started;
+    const step = THREE.MathUtils.clamp(dt, 0, 0.25);
+    if (clip.mode === "reverseOnLeave" && !inside) {
+      state.time = Math.max(0, state.time - step);
+      if (state.time === 0) state.playing = false;
+    } else if (clip.mode === "loop") {
+      state.time += step;
+      if (state.time >= duration) {
+        // Leaving lets the current pass finish and rest on the first frame
+        state.time = inside ? state.time % duration : 0;
+        state.playing = inside;
+      }
+    } else {
+      state.time = Math.min(duration, state.time + step);
+      if (state.time === duration) state.playing = false;
+    }
+    return true;
+  }
+
+  function getClipTime(binding: ClipBindingSpec, atVh: number) {
+    const span = Math.max(1e-9, binding.endVh - binding.startVh);
+    const progress = THREE.MathUtils.clamp((atVh - binding.startVh) / span, 0, 1);
+    const passes = progress * Math.max(0, binding.speed);
+    // Land on the out point (not back on the in point) at the end of each full pass
+    let fraction = passes - Math.floor(passes);
+    if (passes > 0 && fraction === 0) fraction = 1;
+    const length = binding.clipOut - binding.clipIn;
+    return binding.reverse ? binding.clipOut - fraction * length : binding.clipIn + fraction * length;
+  }
+
+  // Poses `mixer`'s root for `atVh`: every bound clip is set to its mapped time, clips
+  // without a binding are stopped (the mixer restores what they animated).
+  function applyClips(
+    mixer: ThreeModule.AnimationMixer,
+    clips: ThreeModule.AnimationClip[],
+    bindings: ClipBindingSpec[],
+    atVh: number
+  ) {
+    clips.forEach((clip) => {
+      const binding = bindings.find((b) => b.clipName === clip.name);
+      if (!binding) {
+        mixer.existingAction(clip)?.stop();
+        return;
+      }
+      const action = mixer.clipAction(clip);
+      action.setLoop(THREE.LoopOnce, 1);
+      action.clampWhenFinished = true;
+      action.paused = false;
+      action.enabled = true;
+      action.play();
+      action.time = THREE.MathUtils.clamp(getClipTime(binding, atVh), 0, clip.duration);
+    });
+    mixer.update(0);
+  }
+
+  // Evaluates and applies a layer track, including the combined `rotation` track.
+  function applyTrack(object: ThreeModule.Object3D, track: KeyframeTrack, atVh: number): boolean {
+    if (track.propertyId === "rotation") {
+      if (track.keyframes.length === 0) return false;
+      setObjectQuaternionAroundPivot(object, evaluateOrientation(track, atVh, object.rotation.order));
+      return true;
+    }
+    return applyTrackValue(object, track.propertyId, evaluateTrack(track, atVh));
+  }
+
+  type Pose = { position: ThreeModule.Vector3; quaternion: ThreeModule.Quaternion; scale: ThreeModule.Vector3 };
+
+  // Pose before constraints and the pose they wrote, per constrained object. While the
+  // object still holds the written pose, nothing else has moved it and the next pass
+  // starts again from `base` rather than compounding on its own output.
+  const constraintPoses = new WeakMap<ThreeModule.Object3D, { base: Pose; written: Pose }>();
+
+  function readPose(object: ThreeModule.Object3D): Pose {
+    return { position: object.position.clone(), quaternion: object.quaternion.clone(), scale: object.scale.clone() };
+  }
+
+  function isPoseOf(object: ThreeModule.Object3D, pose: Pose) {
+    return (
+      object.position.distanceToSquared(pose.position) < 1e-12 &&
+      Math.abs(object.quaternion.dot(pose.quaternion)) > 1 - 1e-9 &&
+      object.scale.distanceToSquared(pose.scale) < 1e-12
+    );
+  }
+
+  function getTargetCenter(target: ThreeModule.Object3D) {
+    const center = new THREE.Vector3();
+    const box = new THREE.Box3().setFromObject(target);
+    if (box.isEmpty()) target.getWorldPosition(center);
+    else box.getCenter(center);
+    return center;
+  }
+
+  function getParentInverse(object: ThreeModule.Object3D) {
+    if (!object.parent) return new THREE.Matrix4();
+    object.parent.updateWorldMatrix(true, false);
+    return object.parent.matrixWorld.clone().invert();
+  }
+
+  // Turns `object` toward a world point by `influence`.
+  function blendLookAt(object: ThreeModule.Object3D, point: ThreeModule.Vector3, influence: number) {
+    const from = object.quaternion.clone();
+    object.lookAt(point);
+    object.quaternion.copy(from.slerp(object.quaternion, influence));
+  }
+
+  // `rest` for a parent constraint on `object` following `target`, as things stand now.
+  function getParentConstraintRest(object: ThreeModule.Object3D, target: ThreeModule.Object3D) {
+    target.updateWorldMatrix(true, false);
+    return getParentInverse(object).multiply(target.matrixWorld).toArray();
+  }
+
+  function getConstraintChannel(
+    tracks: KeyframeTrack[],
+    id: string,
+    channel: "influence" | "progress",
+    atVh: number
+  ) {
+    const propertyId = `constraint.${id}.${channel}`;
+    const track = tracks.find((t) => t.propertyId === propertyId && t.keyframes.length > 0);
+    return track ? evaluateTrack(track, atVh) : null;
+  }
+
+  // Influence of a constraint at `atVh` (0 outside its range).
+  function evaluateConstraintInfluence(constraint: LayerConstraintSpec, tracks: KeyframeTrack[], atVh: number) {
+    if (atVh < constraint.startVh || atVh > constraint.endVh) return 0;
+    const keyed = getConstraintChannel(tracks, constraint.id, "influence", atVh);
+    return THREE.MathUtils.clamp(keyed ?? constraint.influence, 0, 1);
+  }
+
+  // Position along a follow-path constraint at `atVh`, 0..1.
+  function evaluateConstraintProgress(constraint: LayerConstraintSpec, tracks: KeyframeTrack[], atVh: number) {
+    const keyed = getConstraintChannel(tracks, constraint.id, "progress", atVh);
+    const span = constraint.endVh - constraint.startVh;
+    return THREE.MathUtils.clamp(keyed ?? (span > 0 ? (atVh - constraint.startVh) / span : 0), 0, 1);
+  }
+
+  // Applies a layer's constraints in order over the pose its tracks left. `tracks` are the
+  // layer's own (for keyed influence / progress). Returns whether the pose changed.
+  function applyConstraints(
+    object: ThreeModule.Object3D,
+    constraints: LayerConstraintSpec[],
+    tracks: KeyframeTrack[],
+    atVh: number,
+    targets: ConstraintTargets
+  ): boolean {
+    const previous = constraintPoses.get(object);
+    if (previous && isPoseOf(object, previous.written)) {
+      object.position.copy(previous.base.position);
+      object.quaternion.copy(previous.base.quaternion);
+      object.scale.copy(previous.base.scale);
+    }
+    const base = readPose(object);
+    let constrained = false;
+    constraints.forEach((constraint) => {
+      const influence = evaluateConstraintInfluence(constraint, tracks, atVh);
+      if (influence <= 0) return;
+      if (constraint.type === "lookAt") {
+        const target = constraint.target === null ? targets.camera : targets.getObject(constraint.target);
+        if (!target || target === object) return;
+        const point =
+          constraint.target === null ? target.getWorldPosition(new THREE.Vector3()) : getTargetCenter(target);
+        blendLookAt(object, point, influence);
+      } else if (constraint.type === "followPath") {
+        if (constraint.path.points.length < 2) return;
+        const curve = getCameraPathCurve(constraint.path);
+        const progress = evaluateConstraintProgress(constraint, tracks, atVh);
+        const point = curve.getPointAt(progress);
+        object.position.lerp(point.clone().applyMatrix4(getParentInverse(object)), influence);
+        if (constraint.orient) blendLookAt(object, point.add(curve.getTangentAt(progress)), influence);
+      } else {
+        const target = targets.getObject(constraint.target);
+        if (!target || target === object || constraint.rest.length !== 16) return;
+        target.updateWorldMatrix(true, false);
+        const delta = getParentInverse(object)
+          .multiply(target.matrixWorld)
+          .multiply(new THREE.Matrix4().fromArray(constraint.rest).invert());
+        const carried = delta.multiply(new THREE.Matrix4().compose(object.position, object.quaternion, object.scale));
+        const position = new THREE.Vector3();
+        const quaternion = new THREE.Quaternion();
+        const scale = new THREE.Vector3();
+        carried.decompose(position, quaternion, scale);
+        object.position.lerp(position, influence);
+        object.quaternion.slerp(quaternion, influence);
+        object.scale.lerp(scale, influence);
+      }
+      constrained = true;
+    });
+    if (constrained) constraintPoses.set(object, { base, written: readPose(object) });
+    else constraintPoses.delete(object);
+    return constrained || previous !== undefined;
+  }
+
+  return {
+    easingParamDefaults,
+    applyEasing,
+    getKeyframeTangents,
+    evaluateTrack,
+    setDriverSources,
+    readTrackValue,
+    evaluateCameraView,
+    applyCameraView,
+    getCameraPathCurve,
+    evaluateLightState,
+    applyLightState,
+    linearToOklab,
+    oklabToLinear,
+    collectMaterials,
+    getMaterialBase,
+    evaluateMaterialState,
+    applyMaterialState,
+    evaluateOrientation,
+    orderTracksForApply,
+    getMarkerAt,
+    getMarkerAnchors,
+    matchBreakpoint,
+    getSnapTarget,
+    stepScrollSmoothing,
+    getClipTime,
+    applyClips,
+    createTimedClipState,
+    stepTimedClip,
+    applyTrackValue,
+    applyTrack,
+    setObjectOpacity,
+    getMorphTargetMeshes,
+    getMorphTargetNames,
+    getObjectMorphWeight,
+    setObjectMorphWeight,
+    setObjectUniformScaleFromCenter,
+    setObjectAxisScaleFromCenter,
+    setObjectRotationFromCenter,
+    setObjectQuaternionAroundPivot,
+    resetPivots,
+    applyConstraints,
+    evaluateConstraintInfluence,
+    evaluateConstraintProgress,
+    getParentConstraintRest,
+  };
+}